@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "./IReceiverEligibility.sol";
+import "./Pool.sol";
+import "./Errors.sol";
+
+/**
+ * @title AttestationEligibility
+ * @dev Admits accounts holding a permit signed by the attester, a backend key that verifies
+ * users off-chain. Permits are EIP-712 signatures over
+ * ReceiverPermit(address account,uint256 day,uint256 nonce,uint256 deadline), valid only on
+ * the pool day they name and until `deadline`. Each nonce can be used once per account and day.
+ * scripts/eligibility/attestation.ts signs and encodes permits.
+ */
+contract AttestationEligibility is IReceiverEligibility, AccessControl, EIP712 {
+    bytes32 public constant RECEIVER_PERMIT_TYPEHASH =
+        keccak256("ReceiverPermit(address account,uint256 day,uint256 nonce,uint256 deadline)");
+
+    Pool public immutable pool;
+    address public attester;
+    mapping(address => mapping(uint256 => mapping(uint256 => bool))) public usedNonces; // account => day => nonce
+
+    event AttesterUpdated(address indexed previousAttester, address indexed newAttester);
+    event PermitUsed(address indexed account, uint256 indexed day, uint256 nonce);
+
+    constructor(address admin, address _pool, address _attester) EIP712("KindnessPoolAttestation", "1") {
+        if (admin == address(0) || _pool == address(0)) revert ZeroAddress();
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        pool = Pool(payable(_pool));
+        _setAttester(_attester);
+    }
+
+    /**
+     * @dev Replaces the attester key (only admin)
+     * @notice Unused permits signed by the previous attester stop working immediately
+     * @param newAttester Address whose signatures are accepted from now on
+     */
+    function setAttester(address newAttester) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setAttester(newAttester);
+    }
+
+    /**
+     * @dev Checks a permit without using it up
+     * @param proof abi.encode(uint256 day, uint256 nonce, uint256 deadline, bytes signature)
+     */
+    function isEligible(address account, bytes calldata proof) public view returns (bool) {
+        if (proof.length == 0) return false;
+        (uint256 day, uint256 nonce, uint256 deadline, bytes memory signature) = abi.decode(
+            proof,
+            (uint256, uint256, uint256, bytes)
+        );
+        if (block.timestamp > deadline || day != pool.getCurrentDay() || usedNonces[account][day][nonce]) {
+            return false;
+        }
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(RECEIVER_PERMIT_TYPEHASH, account, day, nonce, deadline))
+        );
+        return SignatureChecker.isValidSignatureNow(attester, digest, signature);
+    }
+
+    /**
+     * @dev Checks a permit and marks its nonce as used (only the pool)
+     */
+    function admit(address account, bytes calldata proof) external returns (bool) {
+        if (msg.sender != address(pool)) revert NotPool();
+        if (!isEligible(account, proof)) return false;
+
+        (uint256 day, uint256 nonce) = abi.decode(proof, (uint256, uint256));
+        usedNonces[account][day][nonce] = true;
+        emit PermitUsed(account, day, nonce);
+        return true;
+    }
+
+    function _setAttester(address newAttester) internal {
+        if (newAttester == address(0)) revert ZeroAddress();
+        emit AttesterUpdated(attester, newAttester);
+        attester = newAttester;
+    }
+}
@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./IDistributionStrategy.sol";
+import "./Errors.sol";
+
+/**
+ * @title EqualSplitStrategy
+ * @dev Splits the pool equally, like the pool does without a strategy. Division dust rolls over.
+ */
+contract EqualSplitStrategy is IDistributionStrategy {
+    function computeShares(
+        address[] calldata receivers,
+        uint256 amount,
+        UserRegistry
+    ) external pure returns (uint256[] memory shares) {
+        shares = new uint256[](receivers.length);
+        uint256 share = amount / receivers.length;
+        for (uint256 i = 0; i < receivers.length; i++) {
+            shares[i] = share;
+        }
+    }
+}
+
+/**
+ * @title CappedShareStrategy
+ * @dev Splits the pool equally but pays no receiver more than `maxShare`.
+ * Anything above the cap rolls over into the next day's pool.
+ */
+contract CappedShareStrategy is IDistributionStrategy {
+    uint256 public immutable maxShare;
+
+    constructor(uint256 _maxShare) {
+        if (_maxShare == 0) revert InvalidParameters();
+        maxShare = _maxShare;
+    }
+
+    function computeShares(
+        address[] calldata receivers,
+        uint256 amount,
+        UserRegistry
+    ) external view returns (uint256[] memory shares) {
+        shares = new uint256[](receivers.length);
+        uint256 share = Math.min(amount / receivers.length, maxShare);
+        for (uint256 i = 0; i < receivers.length; i++) {
+            shares[i] = share;
+        }
+    }
+}
+
+/**
+ * @title WeightedStrategy
+ * @dev Splits the pool in proportion to a per-receiver weight. Rounding dust rolls over.
+ */
+abstract contract WeightedStrategy is IDistributionStrategy {
+    uint256 internal constant WEIGHT_UNIT = 1e18;
+
+    function computeShares(
+        address[] calldata receivers,
+        uint256 amount,
+        UserRegistry registry
+    ) external view returns (uint256[] memory shares) {
+        shares = new uint256[](receivers.length);
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < receivers.length; i++) {
+            shares[i] = weightOf(receivers[i], registry);
+            totalWeight += shares[i];
+        }
+        // Weights are stored in the shares array and converted in place
+        for (uint256 i = 0; i < receivers.length; i++) {
+            shares[i] = totalWeight == 0 ? 0 : Math.mulDiv(amount, shares[i], totalWeight);
+        }
+    }
+
+    /**
+     * @dev Weight of a receiver relative to the others in the snapshot
+     */
+    function weightOf(address receiver, UserRegistry registry) internal view virtual returns (uint256);
+}
+
+/**
+ * @title FirstTimeReceiverStrategy
+ * @dev Weights receivers by 1 / (timesReceived + 1), so first-time receivers get the largest shares
+ */
+contract FirstTimeReceiverStrategy is WeightedStrategy {
+    function weightOf(address receiver, UserRegistry registry) internal view override returns (uint256) {
+        return WEIGHT_UNIT / (registry.getUserStats(receiver).timesReceived + 1);
+    }
+}
+
+/**
+ * @title NeedWeightedStrategy
+ * @dev Weights receivers by how much they have received beyond what they gave (getNetAmount).
+ * Receivers with a non-negative net amount get the full weight; a receiver whose deficit equals
+ * `referenceAmount` gets half of it.
+ */
+contract NeedWeightedStrategy is WeightedStrategy {
+    uint256 public immutable referenceAmount;
+
+    constructor(uint256 _referenceAmount) {
+        if (_referenceAmount == 0) revert InvalidParameters();
+        referenceAmount = _referenceAmount;
+    }
+
+    function weightOf(address receiver, UserRegistry registry) internal view override returns (uint256) {
+        int256 netAmount = registry.getNetAmount(receiver);
+        uint256 deficit = netAmount < 0 ? uint256(-netAmount) : 0;
+        return Math.mulDiv(WEIGHT_UNIT, referenceAmount, referenceAmount + deficit);
+    }
+}
@@ -17,7 +17,7 @@ error NoFailedTransfer();
 error NotDistributor();
 error TooManyActions();
 error TooManyTransactions();
-error DistributionFailed();
+error DistributionFailed(bytes4 reason);
 error NotSystem();
 error EmptyName();
 error NameTooLong();
@@ -40,3 +40,22 @@ error WithdrawalAmountTooLow();
 error DistributionInProgress();
 error NoDistributionInProgress();
 error DistributionAlreadyComplete();
+error InvalidParameters();
+error DelayTooShort();
+error NothingToClaim();
+error RetriesNotExhausted();
+error SignatureExpired();
+error InvalidSignature();
+error InvalidShares();
+error PoolDistributable();
+error PoolAlreadyActive();
+error NotEligible();
+error NotPool();
+error AlreadyWaitlisted();
+error InvalidEndTime();
+error NoSubscription();
+error InsufficientBalance();
+error NotMatcher();
+error TooManySponsorships();
+error NotSponsor();
+error SponsorshipActive();
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IContributionMatcher
+ * @dev Adds sponsor funds on top of contributions, e.g. matching every wei given today up to a cap
+ */
+interface IContributionMatcher {
+    /**
+     * @dev Called by the pool after collecting a contribution; must transfer the match to the pool
+     * before returning
+     * @param giver The account credited with the contribution
+     * @param amount The contributed amount
+     * @return matched Amount sent to the pool, added to the daily pool with the contribution
+     */
+    function matchContribution(address giver, uint256 amount) external returns (uint256 matched);
+
+    /**
+     * @dev Called by the pool when `giver` withdraws part of today's contributions; the pool sends
+     * the returned amount back to the matcher
+     * @param giver The account withdrawing
+     * @param amount The withdrawn amount
+     * @return reversed Part of today's matches for `giver` that is taken back out of the daily pool
+     */
+    function reverseMatch(address giver, uint256 amount) external returns (uint256 reversed);
+}
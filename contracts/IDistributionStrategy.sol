@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./UserRegistry.sol";
+
+/**
+ * @title IDistributionStrategy
+ * @dev Computes how a day's pool is split between the receivers in the distribution snapshot
+ */
+interface IDistributionStrategy {
+    /**
+     * @dev Returns the share of `amount` for each receiver
+     * @param receivers The receivers in the distribution snapshot
+     * @param amount The daily pool being distributed
+     * @param registry The pool's UserRegistry, for strategies that weight by history
+     * @return shares One share per receiver; the sum must not exceed `amount` and the remainder rolls over
+     */
+    function computeShares(
+        address[] calldata receivers,
+        uint256 amount,
+        UserRegistry registry
+    ) external view returns (uint256[] memory shares);
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title IPool
+/// @notice Pool functions called by the test receiver contracts
+interface IPool {
+    function enterReceiverPool() external;
+
+    function leaveReceiverPool() external;
+
+    function claim() external;
+
+    function claimTo(address to) external;
+
+    function setPayoutRedirect(address payout) external;
+}
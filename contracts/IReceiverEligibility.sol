@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IReceiverEligibility
+ * @dev Decides who may enter the receiver pool, e.g. to limit one person to one receiver slot
+ */
+interface IReceiverEligibility {
+    /**
+     * @dev Returns whether `account` may enter the receiver pool, without using up the proof
+     * @param account The address entering the receiver pool
+     * @param proof Gate-specific evidence supplied by the caller, empty when entering without one
+     * @return bool True if `account` may enter
+     */
+    function isEligible(address account, bytes calldata proof) external view returns (bool);
+
+    /**
+     * @dev Called by the pool when `account` enters; single-use proofs are spent here
+     * @param account The address entering the receiver pool
+     * @param proof Gate-specific evidence supplied by the caller, empty when entering without one
+     * @return bool True if `account` may enter
+     */
+    function admit(address account, bytes calldata proof) external returns (bool);
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title KindnessForwarder
+ * @dev ERC-2771 forwarder for relaying signed Pool and UserRegistry calls, so users without
+ * ETH for gas can act through a relayer. scripts/relayer/ signs and submits requests.
+ */
+contract KindnessForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("KindnessForwarder") {}
+}
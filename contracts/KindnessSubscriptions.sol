@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./Pool.sol";
+import "./Errors.sol";
+
+/**
+ * @title KindnessSubscriptions
+ * @dev Recurring giving for an ETH Pool. Givers prepay a balance and set a daily amount and an
+ * end time; a keeper calls the permissionless executeSubscriptions once per pool day, which
+ * contributes for every due subscription through Pool.giveKindnessFor. The pool needs to grant
+ * this contract SUBSCRIPTION_ROLE. Givers cancel to get the remaining balance back.
+ * Execution walks the subscribers with a cursor that restarts each pool day, so every call does
+ * bounded work; subscriptions that ended or ran out of balance are removed on the way.
+ */
+contract KindnessSubscriptions {
+    struct Subscription {
+        uint256 balance; // Prepaid ETH not yet contributed
+        uint256 dailyAmount; // Contributed once per pool day
+        uint256 endTime; // No contributions after this timestamp
+        uint256 lastDay; // Last pool day the subscription was executed (0 = never)
+    }
+
+    // Gas forwarded to each contribution; executeSubscriptions stops rather than forward less,
+    // so a keeper cannot make contributions fail (and skip the day) by sending too little gas.
+    // Covers a contribution matched by every SponsorMatching sponsorship.
+    uint256 public constant EXECUTION_GAS = 1000000;
+
+    Pool public immutable pool;
+    mapping(address => Subscription) public subscriptions;
+    address[] public subscribers; // Accounts with a subscription, in no particular order
+    mapping(address => uint256) internal subscriberIndex; // Index in subscribers plus one, 0 = none
+    uint256 public executionDay; // Pool day executionCursor refers to
+    uint256 public executionCursor; // Subscribers before this index were visited on executionDay
+
+    event Subscribed(address indexed giver, uint256 dailyAmount, uint256 endTime, uint256 balance);
+    event SubscriptionExecuted(address indexed giver, uint256 indexed day, uint256 amount);
+    event SubscriptionSkipped(address indexed giver, uint256 indexed day, bytes4 reason);
+    event SubscriptionCancelled(address indexed giver, uint256 refund);
+    event SubscriptionEnded(address indexed giver, uint256 balance);
+
+    constructor(address _pool) {
+        if (_pool == address(0)) revert ZeroAddress();
+        pool = Pool(payable(_pool));
+    }
+
+    /**
+     * @dev Creates or updates the caller's subscription, adding msg.value to its balance
+     * @notice The first contribution happens on the next executeSubscriptions call, unless the
+     * subscription already contributed today. The balance must cover at least one daily amount.
+     * @param dailyAmount Amount contributed each pool day, within the pool's per-contribution bounds
+     * @param endTime Timestamp after which the subscription stops contributing
+     */
+    function subscribe(uint256 dailyAmount, uint256 endTime) external payable {
+        if (dailyAmount < pool.MIN_KINDNESS_AMOUNT()) revert AmountTooLow();
+        if (dailyAmount > pool.MAX_KINDNESS_AMOUNT()) revert AmountTooHigh();
+        if (endTime <= block.timestamp) revert InvalidEndTime();
+
+        Subscription storage subscription = subscriptions[msg.sender];
+        if (subscription.balance + msg.value < dailyAmount) revert InsufficientBalance();
+        if (subscriberIndex[msg.sender] == 0) {
+            subscribers.push(msg.sender);
+            subscriberIndex[msg.sender] = subscribers.length;
+        }
+        subscription.balance += msg.value;
+        subscription.dailyAmount = dailyAmount;
+        subscription.endTime = endTime;
+
+        emit Subscribed(msg.sender, dailyAmount, endTime, subscription.balance);
+    }
+
+    /**
+     * @dev Cancels the caller's subscription and refunds its remaining balance
+     * @notice Also used to recover the balance left after the end time, including once
+     * executeSubscriptions has removed the subscription
+     */
+    function cancelSubscription() external {
+        uint256 refund = subscriptions[msg.sender].balance;
+        bool listed = subscriberIndex[msg.sender] != 0;
+        if (!listed && refund == 0) revert NoSubscription();
+        if (listed) _removeSubscriber(msg.sender);
+        delete subscriptions[msg.sender];
+
+        emit SubscriptionCancelled(msg.sender, refund);
+        (bool success, ) = payable(msg.sender).call{ value: refund }("");
+        if (!success) revert TransferFailedErr();
+    }
+
+    /**
+     * @dev Visits the next `maxCount` subscribers not yet visited today and contributes today's
+     * amount for those that are due (anyone can call)
+     * @notice A contribution the pool rejects, e.g. because the giver already reached the daily
+     * contribution limit, is skipped for the day and its amount stays in the balance. Ended
+     * subscriptions and those that cannot cover their daily amount are removed; their balance
+     * stays claimable through cancelSubscription.
+     * @param maxCount Maximum number of subscribers to visit
+     * @return processed Number of subscriptions executed or skipped
+     */
+    function executeSubscriptions(uint256 maxCount) external returns (uint256 processed) {
+        uint256 day = pool.getCurrentDay();
+        if (executionDay != day) {
+            executionDay = day;
+            executionCursor = 0;
+        }
+
+        uint256 index = executionCursor;
+        for (uint256 visited = 0; visited < maxCount && index < subscribers.length; visited++) {
+            address giver = subscribers[index];
+            Subscription storage subscription = subscriptions[giver];
+            if (_hasEnded(subscription)) {
+                // The last subscriber moves into this index and is visited next
+                _removeSubscriber(giver);
+                emit SubscriptionEnded(giver, subscription.balance);
+                continue;
+            }
+            if (subscription.lastDay < day) {
+                if (gasleft() < (EXECUTION_GAS * 64) / 63 + 20000) break;
+
+                subscription.lastDay = day;
+                uint256 amount = subscription.dailyAmount;
+                subscription.balance -= amount;
+                processed++;
+
+                try pool.giveKindnessFor{ value: amount, gas: EXECUTION_GAS }(giver, amount) {
+                    emit SubscriptionExecuted(giver, day, amount);
+                } catch (bytes memory reason) {
+                    subscription.balance += amount;
+                    emit SubscriptionSkipped(giver, day, bytes4(reason));
+                }
+            }
+            index++;
+        }
+        executionCursor = index;
+    }
+
+    /**
+     * @dev Returns the number of subscribers executeSubscriptions has not visited yet today
+     */
+    function getUnvisitedCount() external view returns (uint256) {
+        if (executionDay != pool.getCurrentDay()) return subscribers.length;
+        return subscribers.length - executionCursor;
+    }
+
+    /**
+     * @dev Returns the number of due subscriptions executeSubscriptions would process today
+     * @notice Reads every subscriber; meant for off-chain callers, not for other contracts
+     */
+    function getDueCount() external view returns (uint256 count) {
+        uint256 day = pool.getCurrentDay();
+        for (uint256 i = 0; i < subscribers.length; i++) {
+            if (_isDue(subscriptions[subscribers[i]], day)) count++;
+        }
+    }
+
+    /**
+     * @dev Returns the number of accounts with a subscription, including ended ones not yet cancelled
+     */
+    function getSubscriberCount() external view returns (uint256) {
+        return subscribers.length;
+    }
+
+    function _isDue(Subscription storage subscription, uint256 day) internal view returns (bool) {
+        return subscription.lastDay < day && !_hasEnded(subscription);
+    }
+
+    function _hasEnded(Subscription storage subscription) internal view returns (bool) {
+        return block.timestamp > subscription.endTime || subscription.balance < subscription.dailyAmount;
+    }
+
+    /**
+     * @dev Internal helper to remove a giver from the subscribers array by swapping in the last entry
+     * @notice Removing a subscriber already visited today first fills its slot with the last
+     * visited one, so the subscribers not yet visited stay at or after executionCursor
+     */
+    function _removeSubscriber(address giver) internal {
+        uint256 index = subscriberIndex[giver] - 1;
+        if (index < executionCursor) {
+            executionCursor--;
+            _moveSubscriber(executionCursor, index);
+            index = executionCursor;
+        }
+        uint256 last = subscribers.length - 1;
+        if (index != last) _moveSubscriber(last, index);
+        subscribers.pop();
+        delete subscriberIndex[giver];
+    }
+
+    function _moveSubscriber(uint256 from, uint256 to) internal {
+        address moved = subscribers[from];
+        subscribers[to] = moved;
+        subscriberIndex[moved] = to + 1;
+    }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+import "./Errors.sol";
+
+/**
+ * @title KindnessTimelock
+ * @dev Timelock that holds the admin roles of Pool and TimeBasedDistributor and the
+ * ownership of UserRegistry. Admin actions are proposed, wait at least the minimum
+ * delay and can be cancelled before they are executed.
+ */
+contract KindnessTimelock is TimelockController {
+    // Lowest delay the timelock can be deployed with
+    uint256 public constant MIN_DELAY_FLOOR = 1 hours;
+
+    /**
+     * @dev Constructor sets up the proposer, executor and canceller roles
+     * @param minDelay Initial minimum delay for operations (at least MIN_DELAY_FLOOR)
+     * @param proposers Accounts that can schedule and cancel operations
+     * @param executors Accounts that can execute ready operations (address(0) lets anyone execute)
+     * @param admin Optional bootstrap admin, address(0) keeps the timelock self-administered
+     */
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address admin
+    ) TimelockController(minDelay, proposers, executors, admin) {
+        if (minDelay < MIN_DELAY_FLOOR) revert DelayTooShort();
+    }
+}
@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./IReceiverEligibility.sol";
+import "./Errors.sol";
+
+/**
+ * @title MerkleEligibility
+ * @dev Admits the addresses in an admin-published Merkle allowlist, such as a snapshot of
+ * verified Farcaster accounts. Leaves are keccak256(keccak256(abi.encode(account))) and
+ * pairs are hashed in sorted order; scripts/eligibility/merkle.ts builds matching trees.
+ */
+contract MerkleEligibility is IReceiverEligibility, AccessControl {
+    bytes32 public merkleRoot;
+    uint256 public rootVersion; // Incremented on every rotation
+
+    event MerkleRootUpdated(bytes32 indexed previousRoot, bytes32 indexed newRoot, uint256 version);
+
+    constructor(address admin, bytes32 initialRoot) {
+        if (admin == address(0)) revert ZeroAddress();
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _setMerkleRoot(initialRoot);
+    }
+
+    /**
+     * @dev Publishes a new allowlist (only admin)
+     * @notice Proofs against the previous root stop working immediately. Receivers already in the
+     * pool keep their place; the allowlist is only checked on entry.
+     * @param newRoot Root of the new allowlist
+     */
+    function setMerkleRoot(bytes32 newRoot) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setMerkleRoot(newRoot);
+    }
+
+    /**
+     * @dev Checks `account` against the current root
+     * @param proof abi.encode(bytes32[]) sibling hashes from the leaf to the root
+     */
+    function isEligible(address account, bytes calldata proof) public view returns (bool) {
+        if (proof.length == 0) return false;
+        bytes32[] memory siblings = abi.decode(proof, (bytes32[]));
+        return MerkleProof.verify(siblings, merkleRoot, leaf(account));
+    }
+
+    /**
+     * @dev Same as isEligible: Merkle proofs can be reused
+     */
+    function admit(address account, bytes calldata proof) external view returns (bool) {
+        return isEligible(account, proof);
+    }
+
+    /**
+     * @dev Returns the leaf hash of `account`
+     */
+    function leaf(address account) public pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(account))));
+    }
+
+    function _setMerkleRoot(bytes32 newRoot) internal {
+        if (newRoot == bytes32(0)) revert InvalidParameters();
+        emit MerkleRootUpdated(merkleRoot, newRoot, ++rootVersion);
+        merkleRoot = newRoot;
+    }
+}
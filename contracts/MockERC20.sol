@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @title MockERC20
+/// @notice Mintable ERC-20 with permit and configurable decimals for testing TokenPool
+contract MockERC20 is ERC20Permit {
+    uint8 private immutable _decimals;
+
+    constructor(string memory name, string memory symbol, uint8 decimals_) ERC20(name, symbol) ERC20Permit(name) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+/// @title FaultyERC20
+/// @notice Token whose transfers to blocked addresses return false or revert,
+/// like stablecoins that blacklist accounts
+contract FaultyERC20 is MockERC20 {
+    enum FailureMode {
+        ReturnFalse,
+        Revert
+    }
+
+    FailureMode public failureMode;
+    mapping(address => bool) public blocked;
+
+    constructor(FailureMode mode) MockERC20("Faulty USD", "FUSD", 6) {
+        failureMode = mode;
+    }
+
+    function setBlocked(address account, bool isBlocked) external {
+        blocked[account] = isBlocked;
+    }
+
+    function transfer(address to, uint256 value) public override returns (bool) {
+        if (blocked[to]) {
+            if (failureMode == FailureMode.Revert) revert("blocked");
+            return false;
+        }
+        return super.transfer(to, value);
+    }
+}
@@ -2,16 +2,32 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 import "./UserRegistry.sol";
+import "./IDistributionStrategy.sol";
+import "./IReceiverEligibility.sol";
+import "./IContributionMatcher.sol";
 import "./Errors.sol";
 
 /**
  * @title Pool
  * @dev Manages the daily pool of contributions and distributions
+ * @notice Accepts ERC-2771 meta-transactions from the trusted forwarder, so every per-user limit
+ * applies to the account that signed the request rather than the relayer
  */
-contract Pool is AccessControl {
+contract Pool is AccessControl, ERC2771Context {
     // Add the DISTRIBUTOR_ROLE constant
     bytes32 public constant DISTRIBUTOR_ROLE = keccak256("DISTRIBUTOR_ROLE");
+    // Contracts allowed to contribute on a giver's behalf, e.g. KindnessSubscriptions
+    bytes32 public constant SUBSCRIPTION_ROLE = keccak256("SUBSCRIPTION_ROLE");
+
+    // EIP-712 types for redirecting a failed transfer signed by the receiver
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant PAYOUT_REDIRECT_TYPEHASH =
+        keccak256("PayoutRedirect(address receiver,address payout,uint256 nonce,uint256 deadline)");
 
     // State variables
     uint256 public dailyPool; // Current day's pool amount
@@ -20,12 +36,10 @@ contract Pool is AccessControl {
     // Question: Why is UserRegistry immutable? and why is it gas saving?
     UserRegistry public immutable userRegistry; // Make immutable for gas savings
     mapping(address => uint256) public lastActionTime;
-    uint256 public constant ACTION_COOLDOWN = 1 hours;
     mapping(address => uint256) public transactionCount;
-    uint256 public constant MAX_TRANSACTIONS_PER_DAY = 10;
     mapping(address => uint256) public dailyContributions; // Track daily contributions per user
     uint256 public unclaimedFunds; // Track unclaimed funds
-    bool public distributionWindowOpen; // Track if distribution window is open
+    DistributionWindowOverride public distributionWindowOverride; // Admin override of the scheduled window
 
     // Batch distribution state
     uint256 public distributionIndex; // Current index in receivers array for batch processing
@@ -59,6 +73,108 @@ contract Pool is AccessControl {
     address[] public failedReceivers;
     // Index mapping for efficient removal from failedReceivers array
     mapping(address => uint256) private failedReceiverIndex;
+    // Alternate address that receives a failed transfer on its next retry
+    mapping(address => address) public payoutRedirects;
+    mapping(address => uint256) public payoutRedirectNonces; // Replay protection for signed redirects
+
+    // None follows the daily schedule; Open and Closed force the window regardless of the time
+    enum DistributionWindowOverride {
+        None,
+        Open,
+        Closed
+    }
+
+    // What rollOverPool does with a pool that cannot be distributed: Rollover moves it to carryOver,
+    // Refund lets givers claim back what they gave in the round, Hold leaves it (and the round) open
+    enum EmptyDayPolicy {
+        Rollover,
+        Refund,
+        Hold
+    }
+
+    // Tunable limits, updated by the admin through updateParameters()
+    struct PoolParameters {
+        uint256 minKindnessAmount; // Minimum amount per contribution
+        uint256 maxKindnessAmount; // Maximum amount per contribution
+        uint256 maxDailyContribution; // Maximum daily contribution per user
+        uint256 minPoolBalance; // Minimum pool balance required to distribute
+        uint256 maxReceivers; // Maximum receivers per distribution
+        uint256 distributionBatchSize; // Maximum receivers per distribution batch
+        uint256 distributionWindow; // Length of the daily distribution window
+        uint256 distributionWindowStart; // Seconds after the start of the day the distribution window opens
+        uint256 maxRetries; // Maximum retries per failed transfer
+        uint256 retryCooldown; // Base cooldown between retries (doubles per retry)
+        uint256 maxAutoRetriesPerTx; // Maximum retries to process in one transaction
+        uint256 actionCooldown; // Cooldown between rate-limited actions
+        uint256 maxTransactionsPerDay; // Maximum transactions per user per day
+        uint256 maxDailyReceiverEntries; // Maximum receiver pool entries per day
+        uint256 maxDailyReceiverExits; // Maximum receiver pool exits per day
+        uint256 receiverPoolCooldown; // Cooldown between receiver pool actions
+        uint256 maxDailyWithdrawals; // Maximum withdrawals per day
+        uint256 withdrawalCooldown; // Cooldown between withdrawals
+        uint256 minWithdrawalAmount; // Minimum withdrawal amount
+    }
+
+    PoolParameters internal parameters; // Parameters in effect until pendingParametersDay
+    PoolParameters internal pendingParameters; // Parameters scheduled by updateParameters()
+    uint256 public pendingParametersDay; // Day number from which pendingParameters apply (0 = none)
+
+    // Claim mode: distributions credit balances that receivers withdraw themselves
+    bool public claimMode;
+    mapping(address => uint256) public claimableBalance; // Credited but not yet claimed, per receiver
+    uint256 public totalClaimable; // Sum of all claimable balances
+
+    // Distribution strategy: address(0) splits the pool equally
+    IDistributionStrategy public distributionStrategy;
+    uint256[] internal distributionShares; // Per-receiver shares computed when the distribution starts
+    uint256 public distributionAllocated; // Shares of the running distribution not yet paid out
+
+    // Funds left over by earlier distributions, paid out with the next one
+    uint256 public carryOver;
+    uint256 internal distributionShare; // Equal share per receiver when no strategy is set
+
+    // Seconds after UTC midnight at which each pool day starts
+    uint256 public dayOffset;
+
+    // Optional gate on entering the receiver pool: address(0) lets anyone enter
+    IReceiverEligibility public receiverEligibility;
+
+    // ERC-2771 forwarder allowed to relay calls for users; address(0) disables relaying
+    address internal forwarder;
+
+    // Entrants over maxReceivers wait here in entry order until promoted on a later day
+    address[] internal waitlist; // Left users are zeroed out rather than removed
+    uint256 public waitlistHead; // Index of the first entry not yet promoted
+    uint256 public waitlistLength; // Users currently waiting
+    mapping(address => uint256) internal waitlistIndex; // Index in waitlist plus one, 0 = not waiting
+    mapping(address => uint256) public waitlistedDay; // Day the user joined the waitlist
+
+    // Index mapping for constant-cost removal from the receivers array (index + 1, 0 = not in it)
+    mapping(address => uint256) private receiverIndex;
+
+    // Optional sponsor matching of contributions: address(0) adds nothing
+    IContributionMatcher public contributionMatcher;
+
+    // Contributions per round, where a round ends each time the daily pool is distributed or rolled over
+    EmptyDayPolicy public emptyDayPolicy;
+    uint256 public poolRound; // Current round
+    uint256 internal roundContributionTotal; // Net contributions in the current round
+    mapping(uint256 => mapping(address => uint256)) internal roundContributions; // Round => giver => net contribution
+    mapping(uint256 => bool) internal refundableRounds; // Rounds ended by a refund
+    uint256 public totalRefundable; // Refunds not yet claimed
+
+    // Outcome of the distribution held on a day
+    struct DayRecord {
+        uint256 totalPool; // dailyPool plus carryOver when the distribution started
+        uint256 receiverCount; // Receivers in the distribution
+        uint256 amountPerReceiver; // Equal share, or the average share under a distribution strategy
+        uint256 failedCount; // Transfers that failed during the distribution
+        uint256 timestamp; // When the distribution completed, 0 while running or after an emergency stop
+    }
+
+    // Day number => record of the distribution started that day
+    mapping(uint256 => DayRecord) public dayRecords;
+    uint256 internal distributionDay; // Day number of the running distribution
 
     // Events
     event KindnessGiven(address indexed giver, uint256 amount);
@@ -69,38 +185,45 @@ contract Pool is AccessControl {
     event TransferFailed(address indexed receiver, uint256 amount);
     event TransferRetried(address indexed receiver, uint256 amount, bool success);
     event UnclaimedFundsUpdated(uint256 amount);
-    event DistributionWindowUpdated(bool isOpen);
+    event DistributionWindowOverrideUpdated(DistributionWindowOverride windowOverride);
     event EmergencyWithdrawalRequested(address indexed receiver, uint256 amount);
     event EmergencyWithdrawalCompleted(address indexed receiver, uint256 amount);
     event EmergencyExitCompleted(address indexed user);
     event ContributionWithdrawn(address indexed user, uint256 amount);
-    event WithdrawalFailed(address indexed user, uint256 amount);
     event BatchDistributed(uint256 batchSize, uint256 processedCount, uint256 totalReceivers);
     event DistributionStopped(uint256 timestamp);
     event AutoRetryCompleted(uint256 retriedCount, uint256 successCount);
+    event FailedTransferRedistributed(address indexed receiver, uint256 amount);
+    event PayoutRedirectSet(address indexed receiver, address indexed payout);
+    event PayoutRedirected(address indexed receiver, address indexed payout, uint256 amount);
+    event ParametersUpdated(PoolParameters parameters, uint256 effectiveDay);
+    event ClaimModeUpdated(bool enabled);
+    event KindnessCredited(address indexed receiver, uint256 amount);
+    event KindnessClaimed(address indexed receiver, address indexed to, uint256 amount);
+    event DistributionStrategyUpdated(address indexed strategy);
+    event DistributionRollover(uint256 amount);
+    event CarryOverUpdated(uint256 amount);
+    event DayOffsetUpdated(uint256 dayOffset);
+    event ReceiverEligibilityUpdated(address indexed eligibility);
+    event TrustedForwarderUpdated(address indexed forwarder);
+    event ReceiverWaitlisted(address indexed receiver, uint256 position);
+    event LeftWaitlist(address indexed receiver);
+    event WaitlistPromoted(uint256 promoted, uint256 remaining);
+    event ContributionMatcherUpdated(address indexed matcher);
+    event EmptyDayPolicyUpdated(EmptyDayPolicy policy);
+    event PoolRefundable(uint256 indexed round, uint256 amount);
+    event PoolHeld(uint256 indexed round, uint256 amount);
+    event RefundClaimed(address indexed giver, uint256 indexed round, uint256 amount);
 
     // Constants
     uint256 public constant DISTRIBUTION_INTERVAL = 1 days;
-    uint256 public constant DISTRIBUTION_WINDOW = 5 minutes; // 5-minute window for distribution
-    uint256 public constant MAX_RECEIVERS = 100; // Adjust based on your needs
-    uint256 public constant MIN_KINDNESS_AMOUNT = 0.001 ether; // Minimum amount of 0.001 ETH
-    uint256 public constant MAX_KINDNESS_AMOUNT = 1 ether; // Maximum amount of 1 ETH
-    uint256 public constant MIN_POOL_BALANCE = 0.01 ether; // Minimum pool balance required to distribute
-    uint256 public constant MAX_RETRIES = 3;
-    uint256 public constant RETRY_COOLDOWN = 1 hours;
-    uint256 public constant DISTRIBUTION_BATCH_SIZE = 25; // Maximum receivers per distribution batch
-    uint256 public constant MAX_AUTO_RETRIES_PER_TX = 5; // Maximum retries to process in one transaction
-
-    // Daily limits
-    uint256 public constant MAX_DAILY_CONTRIBUTION = 5 ether; // Maximum daily contribution per user
-    uint256 public constant MAX_DAILY_RECEIVER_ENTRIES = 1; // Maximum receiver pool entries per day
-    uint256 public constant MAX_DAILY_RECEIVER_EXITS = 1; // Maximum receiver pool exits per day
-    uint256 public constant RECEIVER_POOL_COOLDOWN = 30 minutes; // Cooldown between receiver pool actions
-
-    // Withdrawal limits
-    uint256 public constant MAX_DAILY_WITHDRAWALS = 3; // Maximum withdrawals per day
-    uint256 public constant WITHDRAWAL_COOLDOWN = 2 hours; // Cooldown between withdrawals
-    uint256 public constant MIN_WITHDRAWAL_AMOUNT = 0.001 ether; // Minimum withdrawal amount
+
+    // Bounds enforced by updateParameters()
+    uint256 public constant MAX_RECEIVERS_LIMIT = 1000; // Upper bound for maxReceivers
+    uint256 public constant MAX_BATCH_SIZE_LIMIT = 100; // Upper bound for distributionBatchSize
+    uint256 public constant MAX_RETRIES_LIMIT = 10; // Upper bound for maxRetries (keeps backoff shift small)
+    uint256 public constant MAX_AUTO_RETRIES_LIMIT = 20; // Upper bound for maxAutoRetriesPerTx
+    uint256 public constant MAX_COOLDOWN_LIMIT = 7 days; // Upper bound for every cooldown
 
     /**
      * @dev Internal helper to add a failed receiver to tracking array
@@ -112,6 +235,20 @@ contract Pool is AccessControl {
         }
     }
 
+    /**
+     * @dev Internal helper to record a failed transfer and track its receiver
+     * @notice Adds to a pending entry, so a receiver that fails on two distributions keeps both shares
+     */
+    function _recordFailedTransfer(address receiver, uint256 amount, uint256 retryCount) internal {
+        failedTransfers[receiver] = FailedTransfer({
+            receiver: receiver,
+            amount: failedTransfers[receiver].amount + amount,
+            timestamp: block.timestamp,
+            retryCount: retryCount
+        });
+        _addFailedReceiver(receiver);
+    }
+
     /**
      * @dev Internal helper to remove a failed receiver from tracking array
      */
@@ -127,16 +264,102 @@ contract Pool is AccessControl {
         }
     }
 
+    /**
+     * @dev Internal helper returning today's day number, counting days from the first dayOffset after the epoch
+     */
+    function _today() internal view returns (uint256) {
+        return (block.timestamp - dayOffset) / 1 days;
+    }
+
     /**
      * @dev Internal helper to update the current day counter
      */
     function _updateDay() internal {
-        uint256 dayNumber = block.timestamp / 1 days;
+        uint256 dayNumber = _today();
         if (dayNumber > currentDay) {
             currentDay = dayNumber;
         }
     }
 
+    // Asset hooks. The pool holds native ETH; TokenPool overrides these to hold an ERC-20.
+
+    /**
+     * @dev Takes a contribution of `amount` from the caller
+     */
+    function _collectContribution(uint256 amount) internal virtual {
+        if (msg.value != amount) revert ValueMismatch();
+    }
+
+    /**
+     * @dev Pays a receiver; runs inside transferToReceiver with a capped gas budget
+     */
+    function _payReceiver(address receiver, uint256 amount) internal virtual returns (bool) {
+        return payable(receiver).send(amount);
+    }
+
+    /**
+     * @dev Sends a withdrawal or claim to an account, forwarding all gas
+     */
+    function _sendFunds(address to, uint256 amount) internal virtual returns (bool success) {
+        (success, ) = payable(to).call{ value: amount }("");
+    }
+
+    /**
+     * @dev Returns the pool's balance of the contributed asset
+     */
+    function _poolBalance() internal view virtual returns (uint256) {
+        return address(this).balance;
+    }
+
+    /**
+     * @dev Gas forwarded to transferToReceiver, limiting what a receiver can consume
+     */
+    function _receiverTransferGas() internal pure virtual returns (uint256) {
+        return 21000;
+    }
+
+    /**
+     * @dev Internal helper returning the parameters in effect today
+     */
+    function _activeParameters() internal view returns (PoolParameters storage) {
+        uint256 effectiveDay = pendingParametersDay;
+        if (effectiveDay != 0 && _today() >= effectiveDay) {
+            return pendingParameters;
+        }
+        return parameters;
+    }
+
+    /**
+     * @dev Internal helper to validate a parameter set against the hard bounds
+     */
+    function _validateParameters(PoolParameters memory p) internal pure {
+        if (
+            p.minKindnessAmount == 0 ||
+            p.minKindnessAmount > p.maxKindnessAmount ||
+            p.maxKindnessAmount > p.maxDailyContribution ||
+            p.maxReceivers == 0 ||
+            p.maxReceivers > MAX_RECEIVERS_LIMIT ||
+            p.distributionBatchSize == 0 ||
+            p.distributionBatchSize > MAX_BATCH_SIZE_LIMIT ||
+            p.distributionWindow == 0 ||
+            p.distributionWindow >= DISTRIBUTION_INTERVAL ||
+            p.distributionWindowStart > DISTRIBUTION_INTERVAL - p.distributionWindow ||
+            p.maxRetries > MAX_RETRIES_LIMIT ||
+            p.retryCooldown == 0 ||
+            p.retryCooldown > MAX_COOLDOWN_LIMIT ||
+            p.maxAutoRetriesPerTx == 0 ||
+            p.maxAutoRetriesPerTx > MAX_AUTO_RETRIES_LIMIT ||
+            p.actionCooldown > MAX_COOLDOWN_LIMIT ||
+            p.maxTransactionsPerDay == 0 ||
+            p.maxDailyReceiverEntries == 0 ||
+            p.maxDailyReceiverExits == 0 ||
+            p.receiverPoolCooldown > MAX_COOLDOWN_LIMIT ||
+            p.maxDailyWithdrawals == 0 ||
+            p.withdrawalCooldown > MAX_COOLDOWN_LIMIT ||
+            p.minWithdrawalAmount == 0
+        ) revert InvalidParameters();
+    }
+
     /**
      * @dev Internal helper to check if user's daily data needs to be reset
      */
@@ -160,44 +383,66 @@ contract Pool is AccessControl {
 
     /**
      * @dev Internal helper to remove a user from the receivers array
+     * @notice A user in the pool but not in the array is waiting in the running distribution's
+     * snapshot and would still be paid, so they cannot leave until the distribution completes
      */
     function _removeFromReceivers(address user) internal {
-        for (uint256 i = 0; i < receivers.length; i++) {
-            if (receivers[i] == user) {
-                // Move the last element to the current position
-                receivers[i] = receivers[receivers.length - 1];
-                receivers.pop();
-                break;
-            }
+        uint256 index = receiverIndex[user];
+        if (index == 0) {
+            if (distributionInProgress) revert DistributionInProgress();
+            return;
+        }
+
+        // Move the last element to the removed position
+        address lastReceiver = receivers[receivers.length - 1];
+        receivers[index - 1] = lastReceiver;
+        receiverIndex[lastReceiver] = index;
+        receivers.pop();
+        delete receiverIndex[user];
+    }
+
+    /**
+     * @dev Internal helper taking a user out of the receiver pool
+     */
+    function _removeReceiver(address user) internal {
+        _removeFromReceivers(user);
+        userRegistry.updateReceiverPoolStatus(user, false);
+    }
+
+    /**
+     * @dev Internal helper to take a user off the waitlist, leaving a gap that promotion skips
+     */
+    function _removeFromWaitlist(address user) internal {
+        delete waitlist[waitlistIndex[user] - 1];
+        delete waitlistIndex[user];
+        delete waitlistedDay[user];
+        unchecked {
+            waitlistLength--;
         }
+        emit LeftWaitlist(user);
     }
 
+    // Modifier bodies live in internal functions so that each modifier use does not repeat them
+
     modifier dailyReset() {
-        _updateDay();
-        _resetDailyData(msg.sender);
+        _dailyReset();
         _;
     }
 
     modifier rateLimited() {
-        if (block.timestamp < lastActionTime[msg.sender] + ACTION_COOLDOWN) revert TooManyActions();
-        lastActionTime[msg.sender] = block.timestamp;
+        address sender = _msgSender();
+        if (block.timestamp < lastActionTime[sender] + _activeParameters().actionCooldown) revert TooManyActions();
+        lastActionTime[sender] = block.timestamp;
         _;
     }
 
     modifier transactionLimited() {
-        if (transactionCount[msg.sender] >= MAX_TRANSACTIONS_PER_DAY) revert TooManyTransactions();
-        // Question: How does unchecked work?
-        unchecked {
-            transactionCount[msg.sender]++;
-        }
+        _countTransaction();
         _;
     }
 
     modifier receiverPoolCooldown() {
-        if (block.timestamp < lastReceiverPoolAction[msg.sender] + RECEIVER_POOL_COOLDOWN) {
-            revert TooManyActions();
-        }
-        lastReceiverPoolAction[msg.sender] = block.timestamp;
+        _checkReceiverPoolCooldown();
         _;
     }
 
@@ -205,85 +450,357 @@ contract Pool is AccessControl {
      * @dev Modifier to enforce withdrawal cooldown
      */
     modifier withdrawalCooldown() {
-        if (block.timestamp < lastWithdrawalTime[msg.sender] + WITHDRAWAL_COOLDOWN) {
+        address sender = _msgSender();
+        if (block.timestamp < lastWithdrawalTime[sender] + _activeParameters().withdrawalCooldown) {
             revert WithdrawalCooldownActive();
         }
-        lastWithdrawalTime[msg.sender] = block.timestamp;
+        lastWithdrawalTime[sender] = block.timestamp;
         _;
     }
 
+    function _dailyReset() internal {
+        _updateDay();
+        _resetDailyData(_msgSender());
+    }
+
+    function _countTransaction() internal {
+        address sender = _msgSender();
+        if (transactionCount[sender] >= _activeParameters().maxTransactionsPerDay) revert TooManyTransactions();
+        // Question: How does unchecked work?
+        unchecked {
+            transactionCount[sender]++;
+        }
+    }
+
+    function _checkReceiverPoolCooldown() internal {
+        address sender = _msgSender();
+        if (block.timestamp < lastReceiverPoolAction[sender] + _activeParameters().receiverPoolCooldown) {
+            revert TooManyActions();
+        }
+        lastReceiverPoolAction[sender] = block.timestamp;
+    }
+
     /**
      * @dev Constructor sets the UserRegistry contract address
+     * @notice No forwarder is trusted until the admin calls setTrustedForwarder
      */
-    constructor(address _system) {
+    constructor(address _system) ERC2771Context(address(0)) {
         if (_system == address(0)) revert ZeroAddress();
         userRegistry = new UserRegistry(_system);
         _grantRole(DEFAULT_ADMIN_ROLE, _system);
+
+        parameters = PoolParameters({
+            minKindnessAmount: 0.001 ether,
+            maxKindnessAmount: 1 ether,
+            maxDailyContribution: 5 ether,
+            minPoolBalance: 0.01 ether,
+            maxReceivers: 100,
+            distributionBatchSize: 25,
+            distributionWindow: 5 minutes,
+            distributionWindowStart: 0,
+            maxRetries: 3,
+            retryCooldown: 1 hours,
+            maxAutoRetriesPerTx: 5,
+            actionCooldown: 1 hours,
+            maxTransactionsPerDay: 10,
+            maxDailyReceiverEntries: 1,
+            maxDailyReceiverExits: 1,
+            receiverPoolCooldown: 30 minutes,
+            maxDailyWithdrawals: 3,
+            withdrawalCooldown: 2 hours,
+            minWithdrawalAmount: 0.001 ether
+        });
+    }
+
+    /**
+     * @dev Schedules a new parameter set (only admin)
+     * @notice New values take effect at the start of the next day so limits never change mid-day.
+     * Before the pool's first interaction they apply immediately, letting deployments configure them.
+     * @param newParameters The full parameter set to apply
+     */
+    function updateParameters(PoolParameters calldata newParameters) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _validateParameters(newParameters);
+
+        uint256 today = _today();
+
+        // Promote a scheduled set that is already in effect before replacing it
+        if (pendingParametersDay != 0 && today >= pendingParametersDay) {
+            parameters = pendingParameters;
+        }
+
+        uint256 effectiveDay;
+        if (currentDay == 0) {
+            effectiveDay = today;
+            parameters = newParameters;
+            pendingParametersDay = 0;
+        } else {
+            effectiveDay = today + 1;
+            pendingParameters = newParameters;
+            pendingParametersDay = effectiveDay;
+        }
+
+        emit ParametersUpdated(newParameters, effectiveDay);
+    }
+
+    /**
+     * @dev Switches between pushing shares to receivers and crediting them for claim() (only admin)
+     * @notice Cannot change while a distribution is running, so one run never mixes both modes
+     * @param enabled True to credit shares instead of transferring them
+     */
+    function setClaimMode(bool enabled) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (distributionInProgress) revert DistributionInProgress();
+        claimMode = enabled;
+        emit ClaimModeUpdated(enabled);
+    }
+
+    /**
+     * @dev Selects how the next distribution splits the pool (only admin)
+     * @notice address(0) restores the equal split. Cannot change while a distribution is running.
+     * @param strategy The strategy contract
+     */
+    function setDistributionStrategy(IDistributionStrategy strategy) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (distributionInProgress) revert DistributionInProgress();
+        distributionStrategy = strategy;
+        emit DistributionStrategyUpdated(address(strategy));
+    }
+
+    /**
+     * @dev Sets the gate that decides who may enter the receiver pool (only admin)
+     * @notice address(0) removes the gate. Receivers already in the pool are not re-checked.
+     * @param eligibility The eligibility contract
+     */
+    function setReceiverEligibility(IReceiverEligibility eligibility) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        receiverEligibility = eligibility;
+        emit ReceiverEligibilityUpdated(address(eligibility));
+    }
+
+    /**
+     * @dev Sets the contract that matches contributions with sponsor funds (only admin)
+     * @notice address(0) stops matching. The matcher is trusted to send the matches it reports.
+     * @param matcher The matcher contract, e.g. a SponsorMatching
+     */
+    function setContributionMatcher(IContributionMatcher matcher) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        contributionMatcher = matcher;
+        emit ContributionMatcherUpdated(address(matcher));
+    }
+
+    /**
+     * @dev Sets what rollOverPool does with a pool that cannot be distributed (only admin)
+     * @notice Applies to the next rollOverPool, including to contributions already in the pool
+     * @param policy Rollover, Refund or Hold
+     */
+    function setEmptyDayPolicy(EmptyDayPolicy policy) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        emptyDayPolicy = policy;
+        emit EmptyDayPolicyUpdated(policy);
+    }
+
+    /**
+     * @dev Accepts ETH matches from the contribution matcher only
+     */
+    receive() external payable {
+        if (msg.sender != address(contributionMatcher)) revert NotMatcher();
+    }
+
+    /**
+     * @dev Sets the ERC-2771 forwarder that may relay calls on behalf of users (only admin)
+     * @notice address(0) disables relaying. The forwarder is trusted to report the real signer.
+     * @param newForwarder The forwarder contract, e.g. a KindnessForwarder
+     */
+    function setTrustedForwarder(address newForwarder) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        forwarder = newForwarder;
+        emit TrustedForwarderUpdated(newForwarder);
+    }
+
+    /**
+     * @dev Returns the forwarder set by setTrustedForwarder, replacing ERC2771Context's immutable one
+     */
+    function trustedForwarder() public view override returns (address) {
+        return forwarder;
+    }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
     }
 
     /**
      * @dev Allows users to contribute to the daily pool
-     * @param amount The amount to contribute (must be between 0.001 and 1 ETH)
+     * @param amount The amount to contribute (must be between minKindnessAmount and maxKindnessAmount)
      */
     function giveKindness(uint256 amount) external payable dailyReset transactionLimited {
-        if (amount < MIN_KINDNESS_AMOUNT) revert AmountTooLow();
-        if (amount > MAX_KINDNESS_AMOUNT) revert AmountTooHigh();
-        if (msg.value != amount) revert ValueMismatch();
+        _giveKindness(_msgSender(), amount);
+    }
+
+    /**
+     * @dev Contributes on behalf of a giver (only SUBSCRIPTION_ROLE)
+     * @notice The caller pays, while the giver's daily contribution limit, KindnessGiven event
+     * and UserRegistry stats apply. It does not count towards the giver's daily transactions.
+     * @param giver The account credited with the contribution
+     * @param amount The amount to contribute
+     */
+    function giveKindnessFor(address giver, uint256 amount) external payable onlyRole(SUBSCRIPTION_ROLE) {
+        _updateDay();
+        _resetDailyData(giver);
+        _giveKindness(giver, amount);
+    }
+
+    /**
+     * @dev Internal helper that validates, collects from the caller and records a contribution by `sender`
+     */
+    function _giveKindness(address sender, uint256 amount) internal {
+        PoolParameters storage params = _activeParameters();
+        if (amount < params.minKindnessAmount) revert AmountTooLow();
+        if (amount > params.maxKindnessAmount) revert AmountTooHigh();
 
         // Check daily contribution limit
-        if (dailyContributions[msg.sender] + amount > MAX_DAILY_CONTRIBUTION) {
+        if (dailyContributions[sender] + amount > params.maxDailyContribution) {
             revert DailyContributionLimitExceeded();
         }
 
+        _collectContribution(amount);
+
+        // Sponsor matches go into the daily pool but are not the giver's to withdraw
+        uint256 matched;
+        if (address(contributionMatcher) != address(0)) {
+            matched = contributionMatcher.matchContribution(sender, amount);
+        }
+
         unchecked {
-            dailyPool += amount;
-            dailyContributions[msg.sender] += amount;
+            dailyPool += amount + matched;
+            dailyContributions[sender] += amount;
+            roundContributions[poolRound][sender] += amount;
+            roundContributionTotal += amount;
         }
 
-        emit KindnessGiven(msg.sender, amount);
-        userRegistry.updateUserStats(msg.sender, true, amount);
+        emit KindnessGiven(sender, amount);
+        userRegistry.updateUserStats(sender, true, amount);
     }
 
     /**
      * @dev Allows users to enter the receiver pool
      */
-    function enterReceiverPool() external dailyReset receiverPoolCooldown transactionLimited {
-        if (userRegistry.isInReceiverPool(msg.sender)) revert AlreadyInReceiverPool();
+    function enterReceiverPool() external {
+        _enterReceiverPool("");
+    }
 
-        if (dailyContributions[msg.sender] != 0) revert ContributedToday();
+    /**
+     * @dev Enters the receiver pool with evidence for the eligibility gate, e.g. a Merkle proof
+     * @param proof Gate-specific proof, see the receiverEligibility contract
+     */
+    function enterReceiverPoolWithProof(bytes calldata proof) external {
+        _enterReceiverPool(proof);
+    }
+
+    /**
+     * @dev Internal helper adding the caller to the receiver pool
+     */
+    function _enterReceiverPool(bytes memory proof) internal dailyReset receiverPoolCooldown transactionLimited {
+        address sender = _msgSender();
+        if (userRegistry.isInReceiverPool(sender)) revert AlreadyInReceiverPool();
+        if (waitlistIndex[sender] != 0) revert AlreadyWaitlisted();
+
+        IReceiverEligibility eligibility = receiverEligibility;
+        if (address(eligibility) != address(0) && !eligibility.admit(sender, proof)) {
+            revert NotEligible();
+        }
+
+        if (dailyContributions[sender] != 0) revert ContributedToday();
 
         // Check daily receiver entry limit
-        if (dailyReceiverEntries[msg.sender] >= MAX_DAILY_RECEIVER_ENTRIES) {
+        if (dailyReceiverEntries[sender] >= _activeParameters().maxDailyReceiverEntries) {
             revert DailyReceiverEntryLimitExceeded();
         }
 
         unchecked {
-            dailyReceiverEntries[msg.sender]++;
+            dailyReceiverEntries[sender]++;
+        }
+
+        // Queue behind earlier entrants while the pool is full or others are still waiting
+        if (waitlistLength != 0 || receivers.length >= _activeParameters().maxReceivers) {
+            waitlist.push(sender);
+            waitlistIndex[sender] = waitlist.length;
+            waitlistedDay[sender] = currentDay;
+            emit ReceiverWaitlisted(sender, ++waitlistLength);
+            return;
+        }
+
+        _addReceiver(sender);
+    }
+
+    /**
+     * @dev Internal helper adding a user to the receivers array
+     */
+    function _addReceiver(address user) internal {
+        receivers.push(user);
+        receiverIndex[user] = receivers.length; // index + 1
+        userRegistry.updateReceiverPoolStatus(user, true);
+        emit EnteredReceiverPool(user);
+    }
+
+    /**
+     * @dev Moves waitlisted users into free receiver slots, oldest first
+     * @notice Anyone can call this. Only users waitlisted on an earlier day are promoted,
+     * and never beyond maxReceivers.
+     * @param maxCount Maximum number of waitlist entries to process, counting the empty entries
+     * of users who left, so the work per call stays bounded
+     * @return promoted Number of users moved into the receiver pool
+     */
+    function promoteWaitlist(uint256 maxCount) external returns (uint256 promoted) {
+        _updateDay();
+        uint256 maxReceivers = _activeParameters().maxReceivers;
+        uint256 head = waitlistHead;
+
+        for (; maxCount != 0 && head < waitlist.length && receivers.length < maxReceivers; maxCount--) {
+            address user = waitlist[head];
+            if (user != address(0)) {
+                if (waitlistedDay[user] >= currentDay) break;
+                delete waitlistIndex[user];
+                delete waitlistedDay[user];
+                _addReceiver(user);
+                promoted++;
+            }
+            delete waitlist[head];
+            head++;
+        }
+
+        waitlistHead = head;
+        if (promoted != 0) {
+            waitlistLength -= promoted;
+            emit WaitlistPromoted(promoted, waitlistLength);
         }
-        receivers.push(msg.sender);
-        userRegistry.updateReceiverPoolStatus(msg.sender, true);
-        emit EnteredReceiverPool(msg.sender);
     }
 
     /**
      * @dev Allows users to leave the receiver pool
      */
     function leaveReceiverPool() external dailyReset receiverPoolCooldown transactionLimited {
-        if (!userRegistry.isInReceiverPool(msg.sender)) revert NotInReceiverPool();
+        address sender = _msgSender();
+        bool waiting = waitlistIndex[sender] != 0;
+        if (!waiting && !userRegistry.isInReceiverPool(sender)) revert NotInReceiverPool();
 
         // Check daily receiver exit limit
-        if (dailyReceiverExits[msg.sender] >= MAX_DAILY_RECEIVER_EXITS) {
+        if (dailyReceiverExits[sender] >= _activeParameters().maxDailyReceiverExits) {
             revert DailyReceiverExitLimitExceeded();
         }
 
         unchecked {
-            dailyReceiverExits[msg.sender]++;
+            dailyReceiverExits[sender]++;
         }
 
-        // Remove user from receivers array
-        _removeFromReceivers(msg.sender);
-        userRegistry.updateReceiverPoolStatus(msg.sender, false);
-        emit LeftReceiverPool(msg.sender);
+        if (waiting) {
+            _removeFromWaitlist(sender);
+            return;
+        }
+
+        _removeReceiver(sender);
+        emit LeftReceiverPool(sender);
     }
 
     /**
@@ -291,42 +808,87 @@ contract Pool is AccessControl {
      * @param amount Amount to withdraw (must be <= user's daily contribution)
      */
     function withdrawContribution(uint256 amount) external dailyReset withdrawalCooldown transactionLimited {
-        if (amount < MIN_WITHDRAWAL_AMOUNT) revert WithdrawalAmountTooLow();
+        address sender = _msgSender();
+        PoolParameters storage params = _activeParameters();
+        if (amount < params.minWithdrawalAmount) revert WithdrawalAmountTooLow();
 
-        // Check if user has sufficient contribution to withdraw
-        if (amount > dailyContributions[msg.sender]) revert InsufficientContribution();
+        // Check if user has sufficient contribution to withdraw, not yet distributed or rolled over
+        if (amount > dailyContributions[sender] || amount > roundContributions[poolRound][sender]) {
+            revert InsufficientContribution();
+        }
 
         // Check daily withdrawal limit
-        if (dailyWithdrawals[msg.sender] >= MAX_DAILY_WITHDRAWALS) {
+        if (dailyWithdrawals[sender] >= params.maxDailyWithdrawals) {
             revert DailyWithdrawalLimitExceeded();
         }
 
+        // Sponsor matches of the withdrawn contributions leave the pool with them
+        uint256 reversed;
+        if (address(contributionMatcher) != address(0)) {
+            reversed = contributionMatcher.reverseMatch(sender, amount);
+        }
+
         // Check if pool has sufficient balance
-        if (amount > dailyPool) revert InsufficientContractBalance();
-        if (address(this).balance < amount) revert InsufficientContractBalance();
+        if (amount + reversed > dailyPool) revert InsufficientContractBalance();
+        if (_poolBalance() < amount + reversed) revert InsufficientContractBalance();
 
         // Update state before external call (checks-effects-interactions)
         unchecked {
-            dailyPool -= amount;
-            dailyContributions[msg.sender] -= amount;
-            dailyWithdrawals[msg.sender]++;
+            dailyPool -= amount + reversed;
+            dailyContributions[sender] -= amount;
+            roundContributions[poolRound][sender] -= amount;
+            roundContributionTotal -= amount;
+            dailyWithdrawals[sender]++;
         }
 
-        // Attempt withdrawal
-        (bool success, ) = payable(msg.sender).call{ value: amount }("");
-        if (!success) {
-            // Revert state changes if withdrawal failed
-            unchecked {
-                dailyPool += amount;
-                dailyContributions[msg.sender] += amount;
-                dailyWithdrawals[msg.sender]--;
-            }
-            emit WithdrawalFailed(msg.sender, amount);
-            revert TransferFailedErr();
+        // Attempt withdrawal; a failed transfer reverts the state changes above
+        _returnContribution(sender, amount);
+        if (reversed != 0 && !_sendFunds(address(contributionMatcher), reversed)) revert TransferFailedErr();
+
+        emit ContributionWithdrawn(sender, amount);
+    }
+
+    /**
+     * @dev Internal helper paying a contribution back to its giver
+     */
+    function _returnContribution(address giver, uint256 amount) internal {
+        if (!_sendFunds(giver, amount)) revert TransferFailedErr();
+        userRegistry.updateUserStatsWithdrawal(giver, amount); // Reduce totalGiven by the returned amount
+    }
+
+    /**
+     * @dev Withdraws the caller's claimable balance to the caller
+     */
+    function claim() external {
+        _claim(_msgSender());
+    }
+
+    /**
+     * @dev Withdraws the caller's claimable balance to another address
+     * @param to The address to receive the funds
+     */
+    function claimTo(address to) external {
+        if (to == address(0)) revert ZeroAddress();
+        _claim(to);
+    }
+
+    /**
+     * @dev Internal helper that pays out the caller's credited shares with full gas
+     */
+    function _claim(address to) internal {
+        address sender = _msgSender();
+        uint256 amount = claimableBalance[sender];
+        if (amount == 0) revert NothingToClaim();
+
+        // Clear the balance before the external call (checks-effects-interactions)
+        claimableBalance[sender] = 0;
+        unchecked {
+            totalClaimable -= amount;
         }
 
-        emit ContributionWithdrawn(msg.sender, amount);
-        userRegistry.updateUserStatsWithdrawal(msg.sender, amount); // Reduce totalGiven by withdrawal amount
+        if (!_sendFunds(to, amount)) revert TransferFailedErr();
+
+        emit KindnessClaimed(sender, to, amount);
     }
 
     /**
@@ -335,11 +897,12 @@ contract Pool is AccessControl {
      * @param user Address of the user to remove
      */
     function emergencyExitReceiverPool(address user) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        if (!userRegistry.isInReceiverPool(user)) revert NotInReceiverPool();
-
-        // Remove user from receivers array
-        _removeFromReceivers(user);
-        userRegistry.updateReceiverPoolStatus(user, false);
+        if (waitlistIndex[user] != 0) {
+            _removeFromWaitlist(user);
+        } else {
+            if (!userRegistry.isInReceiverPool(user)) revert NotInReceiverPool();
+            _removeReceiver(user);
+        }
         emit EmergencyExitCompleted(user);
     }
 
@@ -348,34 +911,170 @@ contract Pool is AccessControl {
      * @notice Initiates distribution in batches to prevent gas limit issues
      */
     function startDistribution() external onlyRole(DISTRIBUTOR_ROLE) {
-        if (!isWithinDistributionWindow()) revert NotInDistributionWindow();
-        if (hasDistributedToday()) revert AlreadyDistributedToday();
-        if (dailyPool == 0) revert EmptyPool();
-        if (receivers.length == 0) revert NoReceivers();
-        if (receivers.length > MAX_RECEIVERS) revert TooManyReceivers();
-        if (address(this).balance < dailyPool) revert InsufficientContractBalance();
-        if (dailyPool < MIN_POOL_BALANCE) revert PoolBalanceBelowMinimum();
-        if (distributionInProgress) revert DistributionInProgress();
+        _requireDistributable();
 
         // Attempt to retry failed transfers before starting new distribution
         _autoRetryDuringDistribution();
 
+        _beginDistribution();
+
+        // Start first batch
+        _processBatch();
+    }
+
+    /**
+     * @dev Internal helper with the checks shared by startDistribution and distributePool
+     */
+    function _requireDistributable() internal view {
+        _requireDistributionDue();
+        uint256 amount = dailyPool + carryOver;
+        if (amount == 0) revert EmptyPool();
+        if (receivers.length == 0) revert NoReceivers();
+        if (_poolBalance() < amount) revert InsufficientContractBalance();
+        if (amount < _activeParameters().minPoolBalance) revert PoolBalanceBelowMinimum();
+        if (distributionInProgress) revert DistributionInProgress();
+    }
+
+    /**
+     * @dev Internal helper checking that the window is open and today's pool not yet handled
+     */
+    function _requireDistributionDue() internal view {
+        if (!isWithinDistributionWindow()) revert NotInDistributionWindow();
+        if (hasDistributedToday()) revert AlreadyDistributedToday();
+    }
+
+    /**
+     * @dev Snapshots the receivers and reserves their shares of dailyPool plus carryOver
+     * @notice Shares are taken out of the pool up front; whatever is not allocated
+     * (division dust or a strategy's remainder) moves to carryOver for the next distribution.
+     * At most maxReceivers are paid; any others (after the cap was lowered) stay for the next one.
+     */
+    function _beginDistribution() internal {
         // Initialize distribution state
         distributionInProgress = true;
         distributionIndex = 0;
         distributionStartTime = block.timestamp;
 
+        uint256 count = receivers.length;
+        uint256 maxReceivers = _activeParameters().maxReceivers;
+        if (count > maxReceivers) count = maxReceivers;
+
         // Create snapshot of current receivers
         delete distributionSnapshot;
-        for (uint256 i = 0; i < receivers.length; i++) {
-            distributionSnapshot.push(receivers[i]);
+        for (uint256 i = 0; i < count; i++) {
+            address receiver = receivers[i];
+            distributionSnapshot.push(receiver);
+            delete receiverIndex[receiver];
         }
 
-        // Clear receivers array (new users can't join during distribution)
-        delete receivers;
+        uint256 amount = dailyPool + carryOver;
+        dailyPool = 0;
+        carryOver = 0;
+        _endRound();
 
-        // Start first batch
-        _processBatch();
+        uint256 allocated = 0;
+        if (address(distributionStrategy) != address(0)) {
+            uint256[] memory shares = distributionStrategy.computeShares(distributionSnapshot, amount, userRegistry);
+            if (shares.length != count) revert InvalidShares();
+
+            for (uint256 i = 0; i < shares.length; i++) {
+                allocated += shares[i];
+            }
+            if (allocated > amount) revert InvalidShares();
+            distributionShares = shares;
+        } else {
+            distributionShare = amount / count;
+            allocated = distributionShare * count;
+        }
+
+        uint256 day = _today();
+        distributionDay = day;
+        dayRecords[day] = DayRecord(amount, count, allocated / count, 0, 0);
+
+        distributionAllocated = allocated;
+        _rollOver(amount - allocated);
+
+        // Clear the snapshotted receivers; new entrants join the next distribution
+        uint256 remaining = receivers.length - count;
+        for (uint256 i = 0; i < remaining; i++) {
+            address receiver = receivers[count + i];
+            receivers[i] = receiver;
+            receiverIndex[receiver] = i + 1;
+        }
+        while (receivers.length > remaining) {
+            receivers.pop();
+        }
+    }
+
+    /**
+     * @dev Internal helper that adds undistributed funds to carryOver
+     */
+    function _rollOver(uint256 amount) internal {
+        carryOver += amount;
+        emit DistributionRollover(amount);
+        emit CarryOverUpdated(carryOver);
+    }
+
+    /**
+     * @dev Internal helper that ends the current contribution round
+     */
+    function _endRound() internal {
+        unchecked {
+            poolRound++;
+        }
+        roundContributionTotal = 0;
+    }
+
+    /**
+     * @dev Handles the day's pool when it cannot be distributed, following emptyDayPolicy
+     * @notice Only for days without receivers or with less than minPoolBalance in total.
+     * Counts as the day's distribution, so keepers stop retrying until tomorrow. Refund makes the
+     * round's contributions claimable with claimRefund and moves the rest (e.g. sponsor matches)
+     * to carryOver; Hold keeps the pool and its round for the next day.
+     */
+    function rollOverPool() external onlyRole(DISTRIBUTOR_ROLE) {
+        _requireDistributionDue();
+        if (distributionInProgress) revert DistributionInProgress();
+        if (dailyPool == 0) revert EmptyPool();
+        if (receivers.length != 0 && dailyPool + carryOver >= _activeParameters().minPoolBalance) {
+            revert PoolDistributable();
+        }
+
+        lastDistributionTime = block.timestamp;
+        uint256 round = poolRound;
+        uint256 amount = dailyPool;
+        if (emptyDayPolicy == EmptyDayPolicy.Hold) {
+            emit PoolHeld(round, amount);
+            return;
+        }
+
+        dailyPool = 0;
+        if (emptyDayPolicy == EmptyDayPolicy.Refund) {
+            uint256 refundable = roundContributionTotal < amount ? roundContributionTotal : amount;
+            refundableRounds[round] = true;
+            totalRefundable += refundable;
+            amount -= refundable;
+            emit PoolRefundable(round, refundable);
+        }
+        _endRound();
+        if (amount != 0) _rollOver(amount);
+    }
+
+    /**
+     * @dev Pays back the caller's contributions in a round that ended with a refund
+     * @param round The round, see PoolRefundable
+     */
+    function claimRefund(uint256 round) external {
+        address sender = _msgSender();
+        uint256 amount = roundContributions[round][sender];
+        if (!refundableRounds[round] || amount == 0) revert NothingToClaim();
+
+        // Clear the refund before the external call (checks-effects-interactions)
+        roundContributions[round][sender] = 0;
+        totalRefundable -= amount;
+
+        _returnContribution(sender, amount);
+        emit RefundClaimed(sender, round, amount);
     }
 
     /**
@@ -395,17 +1094,23 @@ contract Pool is AccessControl {
      */
     function _processBatch() internal {
         uint256 startIndex = distributionIndex;
-        uint256 endIndex = startIndex + DISTRIBUTION_BATCH_SIZE;
+        uint256 endIndex = startIndex + _activeParameters().distributionBatchSize;
         if (endIndex > distributionSnapshot.length) {
             endIndex = distributionSnapshot.length;
         }
 
-        uint256 amountPerReceiver = dailyPool / distributionSnapshot.length;
+        bool useShares = distributionShares.length != 0;
+        uint256 amountPerReceiver = distributionShare;
         uint256 failedAmount = 0;
+        uint256 failedCount = 0;
 
         // Process batch of receivers
         for (uint256 i = startIndex; i < endIndex; i++) {
             address receiver = distributionSnapshot[i];
+            if (useShares) {
+                amountPerReceiver = distributionShares[i];
+            }
+            distributionAllocated -= amountPerReceiver;
 
             // Reset all daily data for the receiver
             dailyContributions[receiver] = 0;
@@ -415,21 +1120,25 @@ contract Pool is AccessControl {
 
             // Update user registry state before external call
             userRegistry.updateReceiverPoolStatus(receiver, false);
+            if (amountPerReceiver == 0) continue; // Strategy gave this receiver nothing
             userRegistry.updateUserStats(receiver, false, amountPerReceiver);
 
+            if (claimMode) {
+                // Credit the share; the receiver pulls it with claim()
+                claimableBalance[receiver] += amountPerReceiver;
+                totalClaimable += amountPerReceiver;
+                emit KindnessCredited(receiver, amountPerReceiver);
+                continue;
+            }
+
             // Make external call with gas limit
-            try this.transferToReceiver{ gas: 21000 }(receiver, amountPerReceiver) {
+            if (_tryPayReceiver(receiver, amountPerReceiver)) {
                 emit KindnessReceived(receiver, amountPerReceiver);
-            } catch {
+            } else {
                 // Track failed transfer
-                failedTransfers[receiver] = FailedTransfer({
-                    receiver: receiver,
-                    amount: amountPerReceiver,
-                    timestamp: block.timestamp,
-                    retryCount: 0
-                });
-                _addFailedReceiver(receiver);
+                _recordFailedTransfer(receiver, amountPerReceiver, 0);
                 failedAmount += amountPerReceiver;
+                failedCount++;
                 emit TransferFailed(receiver, amountPerReceiver);
             }
         }
@@ -442,6 +1151,7 @@ contract Pool is AccessControl {
             unchecked {
                 unclaimedFunds += failedAmount;
             }
+            dayRecords[distributionDay].failedCount += failedCount;
             emit UnclaimedFundsUpdated(unclaimedFunds);
         }
 
@@ -458,28 +1168,38 @@ contract Pool is AccessControl {
      * @notice Complete distribution and reset state
      */
     function _finalizeDistribution() internal {
-        // Update state
         lastDistributionTime = block.timestamp;
-        dailyPool = 0;
+        _clearDistribution();
+
+        DayRecord storage record = dayRecords[distributionDay];
+        record.timestamp = block.timestamp;
+        emit PoolDistributed(record.totalPool, record.receiverCount);
+    }
+
+    /**
+     * @dev Internal helper resetting the distribution state after the last batch or a stop
+     */
+    function _clearDistribution() internal {
         distributionInProgress = false;
         distributionIndex = 0;
-
-        // Clear snapshot
         delete distributionSnapshot;
-
-        emit PoolDistributed(address(this).balance, distributionSnapshot.length);
+        delete distributionShares;
     }
 
     /**
      * @dev Emergency stop for distribution
-     * @notice Allow admin to stop distribution in case of issues
+     * @notice Allow admin to stop distribution in case of issues. Counts as the day's
+     * distribution, so a restart cannot overwrite the day's record before tomorrow.
      */
     function emergencyStopDistribution() external onlyRole(DEFAULT_ADMIN_ROLE) {
         if (!distributionInProgress) revert NoDistributionInProgress();
+        lastDistributionTime = block.timestamp;
+        _clearDistribution();
 
-        distributionInProgress = false;
-        distributionIndex = 0;
-        delete distributionSnapshot;
+        // Unpaid shares are paid out with the next distribution
+        uint256 unpaid = distributionAllocated;
+        distributionAllocated = 0;
+        _rollOver(unpaid);
 
         emit DistributionStopped(block.timestamp);
     }
@@ -489,28 +1209,9 @@ contract Pool is AccessControl {
      * @notice Use startDistribution() for new implementations
      */
     function distributePool() external onlyRole(DISTRIBUTOR_ROLE) {
-        if (!isWithinDistributionWindow()) revert NotInDistributionWindow();
-        if (hasDistributedToday()) revert AlreadyDistributedToday();
-        if (dailyPool == 0) revert EmptyPool();
-        if (receivers.length == 0) revert NoReceivers();
-        if (receivers.length > MAX_RECEIVERS) revert TooManyReceivers();
-        if (address(this).balance < dailyPool) revert InsufficientContractBalance();
-        if (dailyPool < MIN_POOL_BALANCE) revert PoolBalanceBelowMinimum();
-        if (distributionInProgress) revert DistributionInProgress();
+        _requireDistributable();
 
-        // Initialize distribution state
-        distributionInProgress = true;
-        distributionIndex = 0;
-        distributionStartTime = block.timestamp;
-
-        // Create snapshot of current receivers
-        delete distributionSnapshot;
-        for (uint256 i = 0; i < receivers.length; i++) {
-            distributionSnapshot.push(receivers[i]);
-        }
-
-        // Clear receivers array (new users can't join during distribution)
-        delete receivers;
+        _beginDistribution();
 
         // Start first batch
         _processBatch();
@@ -519,24 +1220,35 @@ contract Pool is AccessControl {
     /**
      * @dev Automatically retry failed transfers
      * @notice Public function that anyone can call to help process failed transfers
-     * @dev Processes up to MAX_AUTO_RETRIES_PER_TX failed transfers per call
+     * @dev Processes up to maxAutoRetriesPerTx failed transfers per call; transfers that
+     * used up all retries are redistributed into the daily pool instead of being skipped
      */
     function autoRetryFailedTransfers() external {
+        PoolParameters storage params = _activeParameters();
         uint256 processedCount = 0;
         uint256 successCount = 0;
 
         // Process failed transfers with circuit breaker
-        for (uint256 i = 0; i < failedReceivers.length && processedCount < MAX_AUTO_RETRIES_PER_TX; i++) {
+        uint256 i = 0;
+        while (i < failedReceivers.length && processedCount < params.maxAutoRetriesPerTx) {
             address receiver = failedReceivers[i];
             FailedTransfer storage failed = failedTransfers[receiver];
 
+            // Exhausted entries go back into the pool; the last entry is swapped into slot i
+            if (failed.retryCount >= params.maxRetries && !distributionInProgress) {
+                _redistributeFailedTransfer(receiver);
+                processedCount++;
+                continue;
+            }
+            i++;
+
             // Skip if no failed transfer or max retries exceeded
-            if (failed.amount == 0 || failed.retryCount >= MAX_RETRIES) {
+            if (failed.amount == 0 || failed.retryCount >= params.maxRetries) {
                 continue;
             }
 
             // Check if retry cooldown has passed
-            uint256 cooldown = RETRY_COOLDOWN * (1 << failed.retryCount);
+            uint256 cooldown = params.retryCooldown * (1 << failed.retryCount);
             if (block.timestamp < failed.timestamp + cooldown) {
                 continue;
             }
@@ -554,6 +1266,39 @@ contract Pool is AccessControl {
         emit AutoRetryCompleted(processedCount, successCount);
     }
 
+    /**
+     * @dev Moves a failed transfer that used up all retries into the daily pool
+     * @notice Anyone can call this once the receiver has failed maxRetries times.
+     * Not allowed during a distribution, since the per-receiver share is derived from dailyPool.
+     * @param receiver The address of the exhausted failed transfer
+     */
+    function redistributeFailedTransfer(address receiver) external {
+        if (distributionInProgress) revert DistributionInProgress();
+        FailedTransfer storage failed = failedTransfers[receiver];
+        if (failed.amount == 0) revert NoFailedTransfer();
+        if (failed.retryCount < _activeParameters().maxRetries) revert RetriesNotExhausted();
+
+        _redistributeFailedTransfer(receiver);
+    }
+
+    /**
+     * @dev Internal helper that returns a failed transfer's funds to the daily pool
+     */
+    function _redistributeFailedTransfer(address receiver) internal {
+        uint256 amount = failedTransfers[receiver].amount;
+        delete failedTransfers[receiver];
+        delete payoutRedirects[receiver];
+        _removeFailedReceiver(receiver);
+
+        unchecked {
+            unclaimedFunds -= amount;
+            dailyPool += amount;
+        }
+
+        emit FailedTransferRedistributed(receiver, amount);
+        emit UnclaimedFundsUpdated(unclaimedFunds);
+    }
+
     /**
      * @dev Internal function to attempt a single transfer retry
      * @param receiver Address to retry transfer to
@@ -562,29 +1307,24 @@ contract Pool is AccessControl {
     function _attemptTransferRetry(address receiver) internal returns (bool success) {
         FailedTransfer storage failed = failedTransfers[receiver];
         uint256 amount = failed.amount;
+        uint256 retryCount = failed.retryCount;
 
         // Remove from failed transfers before attempting
         delete failedTransfers[receiver];
         _removeFailedReceiver(receiver);
 
-        try this.transferToReceiver{ gas: 21000 }(receiver, amount) {
+        success = _tryPayReceiver(_payoutAddress(receiver), amount);
+        if (success) {
             emit TransferRetried(receiver, amount, true);
             emit KindnessReceived(receiver, amount);
+            _settlePayoutRedirect(receiver, amount);
             unchecked {
                 unclaimedFunds -= amount;
             }
-            return true;
-        } catch {
+        } else {
             // Re-add to failed transfers with incremented retry count
-            failedTransfers[receiver] = FailedTransfer({
-                receiver: receiver,
-                amount: amount,
-                timestamp: block.timestamp,
-                retryCount: failed.retryCount + 1
-            });
-            _addFailedReceiver(receiver);
+            _recordFailedTransfer(receiver, amount, retryCount + 1);
             emit TransferRetried(receiver, amount, false);
-            return false;
         }
     }
 
@@ -593,21 +1333,22 @@ contract Pool is AccessControl {
      * @notice Called internally during distribution to piggyback retries
      */
     function _autoRetryDuringDistribution() internal {
+        PoolParameters storage params = _activeParameters();
         uint256 processedCount = 0;
 
         // Limit retries during distribution to avoid gas issues
-        uint256 maxRetries = MAX_AUTO_RETRIES_PER_TX / 2; // Conservative limit
+        uint256 maxRetries = params.maxAutoRetriesPerTx / 2; // Conservative limit
 
         for (uint256 i = 0; i < failedReceivers.length && processedCount < maxRetries; i++) {
             address receiver = failedReceivers[i];
             FailedTransfer storage failed = failedTransfers[receiver];
 
-            if (failed.amount == 0 || failed.retryCount >= MAX_RETRIES) {
+            if (failed.amount == 0 || failed.retryCount >= params.maxRetries) {
                 continue;
             }
 
             // Use shorter cooldown during distribution for faster recovery
-            uint256 cooldown = (RETRY_COOLDOWN * (1 << failed.retryCount)) / 2;
+            uint256 cooldown = (params.retryCooldown * (1 << failed.retryCount)) / 2;
             if (block.timestamp < failed.timestamp + cooldown) {
                 continue;
             }
@@ -625,6 +1366,22 @@ contract Pool is AccessControl {
         return unclaimedFunds;
     }
 
+    /**
+     * @dev Returns the funds carried over from earlier days
+     * @return uint256 Amount added to the next distribution on top of dailyPool
+     */
+    function getCarryOver() external view returns (uint256) {
+        return carryOver;
+    }
+
+    /**
+     * @dev Returns what a giver can claim with claimRefund for a round
+     * @return uint256 The unclaimed refund, 0 if the round did not end with a refund
+     */
+    function getRefundableAmount(uint256 round, address giver) external view returns (uint256) {
+        return refundableRounds[round] ? roundContributions[round][giver] : 0;
+    }
+
     /**
      * @dev Returns the current number of receivers
      */
@@ -632,17 +1389,50 @@ contract Pool is AccessControl {
         return receivers.length;
     }
 
+    /**
+     * @dev Returns the number of waitlist entries promoteWaitlist has not processed, including
+     * the empty entries of users who left
+     */
+    function getWaitlistEntryCount() external view returns (uint256) {
+        return waitlist.length - waitlistHead;
+    }
+
+    /**
+     * @dev Returns a user's place in the waitlist, 1 for the next to be promoted
+     * @notice Walks the waitlist from its head; meant for off-chain callers, not for other contracts
+     * @return position Position among waiting users, 0 if the user is not waiting
+     */
+    function getWaitlistPosition(address user) external view returns (uint256 position) {
+        uint256 index = waitlistIndex[user];
+        if (index == 0) return 0;
+
+        for (uint256 i = waitlistHead; i < index; i++) {
+            if (waitlist[i] != address(0)) position++;
+        }
+    }
+
     /**
      * @dev Checks if current time is within the distribution window
+     * @notice Follows the daily schedule unless the admin has forced the window open or closed
      * @return bool True if within distribution window
      */
     function isWithinDistributionWindow() public view returns (bool) {
-        // In test environment, use the state variable
-        if (block.chainid == 31337) {
-            return distributionWindowOpen;
+        DistributionWindowOverride windowOverride = distributionWindowOverride;
+        if (windowOverride != DistributionWindowOverride.None) {
+            return windowOverride == DistributionWindowOverride.Open;
         }
-        // In production, use time-based window
-        return (block.timestamp % 1 days) < DISTRIBUTION_WINDOW;
+        return isScheduledDistributionWindow(block.timestamp);
+    }
+
+    /**
+     * @dev Checks if a timestamp falls within the scheduled daily window, using the parameters in effect today
+     * @param timestamp The time to check
+     * @return bool True if the window is scheduled to be open at `timestamp`
+     */
+    function isScheduledDistributionWindow(uint256 timestamp) public view returns (bool) {
+        PoolParameters storage p = _activeParameters();
+        uint256 timeOfDay = (timestamp + 1 days - dayOffset) % 1 days;
+        return timeOfDay >= p.distributionWindowStart && timeOfDay - p.distributionWindowStart < p.distributionWindow;
     }
 
     /**
@@ -651,40 +1441,46 @@ contract Pool is AccessControl {
      */
     function hasDistributedToday() public view returns (bool) {
         if (lastDistributionTime == 0) return false;
-        return (lastDistributionTime / 1 days) == (block.timestamp / 1 days);
+        return (lastDistributionTime - dayOffset) / 1 days == _today();
     }
 
     /**
-     * @dev Returns the next distribution time in UTC
+     * @dev Returns when the next scheduled distribution window opens
      * @return uint256 Timestamp of the next distribution window
      */
     function getNextDistributionTime() public view returns (uint256) {
-        if (lastDistributionTime == 0) {
-            // If no distribution has happened yet, next distribution is at next UTC midnight
-            return (block.timestamp / 1 days + 1) * 1 days;
-        }
-
-        uint256 lastDistDay = lastDistributionTime / 1 days;
-        uint256 today = block.timestamp / 1 days;
+        uint256 todayOpens = _today() * 1 days + dayOffset + _activeParameters().distributionWindowStart;
 
-        if (lastDistDay < today) {
-            // If we haven't distributed today, next distribution is at next UTC midnight
-            return (today + 1) * 1 days;
+        // Today's window still lies ahead unless the admin already opened it early
+        if (block.timestamp < todayOpens && !hasDistributedToday()) {
+            return todayOpens;
         }
-        return (today + 2) * 1 days;
+        return todayOpens + 1 days;
     }
 
-    // Test-only function to control distribution window
-    // This function should only be available in test environment
-    function setDistributionWindow(bool _isOpen) external {
-        // Only allow this in test environment
-        // Chain ID 31337 is the standard Hardhat test network ID
-        require(block.chainid == 31337, "Only available in test environment");
-        // Only allow admin to control the window
-        require(hasRole(DEFAULT_ADMIN_ROLE, msg.sender), "Not authorized");
+    /**
+     * @dev Forces the distribution window open or closed, or returns it to the schedule (only admin)
+     * @notice Lets operators recover from a missed window or pause distributions without changing parameters
+     * @param windowOverride None to follow the schedule, Open or Closed to ignore it
+     */
+    function setDistributionWindowOverride(
+        DistributionWindowOverride windowOverride
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        distributionWindowOverride = windowOverride;
+        emit DistributionWindowOverrideUpdated(windowOverride);
+    }
 
-        distributionWindowOpen = _isOpen;
-        emit DistributionWindowUpdated(_isOpen);
+    /**
+     * @dev Sets when each pool day starts, as seconds after UTC midnight (only admin)
+     * @notice Moves the daily reset, the distribution window and the per-user counters together.
+     * Only possible before the pool's first interaction, since moving the boundary later would renumber days.
+     * @param newDayOffset Seconds after UTC midnight, below 1 day
+     */
+    function setDayOffset(uint256 newDayOffset) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newDayOffset >= 1 days) revert InvalidParameters();
+        if (currentDay != 0) revert PoolAlreadyActive();
+        dayOffset = newDayOffset;
+        emit DayOffsetUpdated(newDayOffset);
     }
 
     /**
@@ -695,16 +1491,18 @@ contract Pool is AccessControl {
     function transferToReceiver(address receiver, uint256 amount) external {
         if (msg.sender != address(this)) revert NotSystem();
 
-        if (!payable(receiver).send(amount)) {
-            failedTransfers[receiver] = FailedTransfer({
-                receiver: receiver,
-                amount: amount,
-                timestamp: block.timestamp,
-                retryCount: 0
-            });
-            _addFailedReceiver(receiver);
-            revert TransferFailedErr();
-        }
+        // The caller records the failure, since this call's state changes are reverted
+        if (!_payReceiver(receiver, amount)) revert TransferFailedErr();
+    }
+
+    /**
+     * @dev Internal helper paying a receiver through transferToReceiver with a capped gas budget
+     * @return success False if the transfer failed, including by running out of gas
+     */
+    function _tryPayReceiver(address receiver, uint256 amount) internal returns (bool success) {
+        try this.transferToReceiver{ gas: _receiverTransferGas() }(receiver, amount) {
+            success = true;
+        } catch {}
     }
 
     /**
@@ -712,33 +1510,15 @@ contract Pool is AccessControl {
      * @param receiver The address of the failed transfer
      */
     function retryFailedTransfer(address receiver) external {
-        if (!hasRole(DISTRIBUTOR_ROLE, msg.sender)) revert NotDistributor();
+        if (!hasRole(DISTRIBUTOR_ROLE, _msgSender())) revert NotDistributor();
+        PoolParameters storage params = _activeParameters();
         FailedTransfer storage failed = failedTransfers[receiver];
         if (failed.amount == 0) revert NoFailedTransfer();
-        if (failed.retryCount >= MAX_RETRIES) revert MaxRetriesExceeded();
-        uint256 cooldown = RETRY_COOLDOWN * (1 << failed.retryCount);
+        if (failed.retryCount >= params.maxRetries) revert MaxRetriesExceeded();
+        uint256 cooldown = params.retryCooldown * (1 << failed.retryCount);
         if (block.timestamp < failed.timestamp + cooldown) revert TooEarlyToRetry();
 
-        uint256 amount = failed.amount;
-        delete failedTransfers[receiver];
-        _removeFailedReceiver(receiver);
-
-        try this.transferToReceiver{ gas: 21000 }(receiver, amount) {
-            emit TransferRetried(receiver, amount, true);
-            emit KindnessReceived(receiver, amount);
-            unchecked {
-                unclaimedFunds -= amount;
-            }
-        } catch {
-            failedTransfers[receiver] = FailedTransfer({
-                receiver: receiver, // Store the receiver address
-                amount: amount,
-                timestamp: block.timestamp,
-                retryCount: failed.retryCount + 1
-            });
-            _addFailedReceiver(receiver);
-            emit TransferRetried(receiver, amount, false);
-        }
+        _attemptTransferRetry(receiver);
     }
 
     /**
@@ -770,22 +1550,18 @@ contract Pool is AccessControl {
         if (failed.amount == 0) revert NoFailedTransfer();
 
         uint256 amount = failed.amount;
+        uint256 retryCount = failed.retryCount;
         delete failedTransfers[receiver];
         _removeFailedReceiver(receiver);
 
-        try this.transferToReceiver{ gas: 21000 }(receiver, amount) {
+        if (_tryPayReceiver(_payoutAddress(receiver), amount)) {
             emit EmergencyWithdrawalCompleted(receiver, amount);
+            _settlePayoutRedirect(receiver, amount);
             unchecked {
                 unclaimedFunds -= amount;
             }
-        } catch {
-            failedTransfers[receiver] = FailedTransfer({
-                receiver: receiver,
-                amount: amount,
-                timestamp: block.timestamp,
-                retryCount: failed.retryCount + 1
-            });
-            _addFailedReceiver(receiver);
+        } else {
+            _recordFailedTransfer(receiver, amount, retryCount + 1);
             emit TransferFailed(receiver, amount);
         }
     }
@@ -795,11 +1571,122 @@ contract Pool is AccessControl {
     }
 
     /**
-     * @dev Returns the current day number (days since epoch)
+     * @dev Returns the number of receivers with a pending failed transfer
+     */
+    function getFailedTransferCount() external view returns (uint256) {
+        return failedReceivers.length;
+    }
+
+    /**
+     * @notice Names a different address for the caller's failed transfer
+     * @dev The next retry or emergency withdrawal pays `payout` instead of the caller
+     * @param payout The address to receive the funds
+     */
+    function setPayoutRedirect(address payout) external {
+        _setPayoutRedirect(_msgSender(), payout);
+    }
+
+    /**
+     * @notice Names a different payout address on behalf of a receiver that signed it
+     * @dev Accepts EOA signatures and EIP-1271 signatures from contract wallets
+     * @param receiver The address with the failed transfer
+     * @param payout The address to receive the funds
+     * @param deadline Timestamp after which the signature is invalid
+     * @param signature EIP-712 PayoutRedirect signature by the receiver
+     */
+    function setPayoutRedirectWithSig(
+        address receiver,
+        address payout,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert SignatureExpired();
+        bytes32 structHash = keccak256(
+            abi.encode(PAYOUT_REDIRECT_TYPEHASH, receiver, payout, payoutRedirectNonces[receiver]++, deadline)
+        );
+        bytes32 digest = MessageHashUtils.toTypedDataHash(DOMAIN_SEPARATOR(), structHash);
+        if (!SignatureChecker.isValidSignatureNow(receiver, digest, signature)) revert InvalidSignature();
+
+        _setPayoutRedirect(receiver, payout);
+    }
+
+    /**
+     * @dev EIP-712 domain separator for signed payout redirects
+     */
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(DOMAIN_TYPEHASH, keccak256("KindnessPool"), keccak256("1"), block.chainid, address(this))
+            );
+    }
+
+    /**
+     * @dev Returns the failed transfers that will be paid to an alternate address
+     * @return redirectedReceivers Receivers with a pending redirection
+     * @return payouts The payout address for each receiver
+     * @return amounts The pending amount for each receiver
+     */
+    function getPendingRedirections()
+        external
+        view
+        returns (address[] memory redirectedReceivers, address[] memory payouts, uint256[] memory amounts)
+    {
+        uint256 count = 0;
+        for (uint256 i = 0; i < failedReceivers.length; i++) {
+            if (payoutRedirects[failedReceivers[i]] != address(0)) count++;
+        }
+
+        redirectedReceivers = new address[](count);
+        payouts = new address[](count);
+        amounts = new uint256[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < failedReceivers.length; i++) {
+            address receiver = failedReceivers[i];
+            address payout = payoutRedirects[receiver];
+            if (payout == address(0)) continue;
+            redirectedReceivers[index] = receiver;
+            payouts[index] = payout;
+            amounts[index] = failedTransfers[receiver].amount;
+            index++;
+        }
+    }
+
+    /**
+     * @dev Internal helper to record a payout redirection for a pending failed transfer
+     */
+    function _setPayoutRedirect(address receiver, address payout) internal {
+        if (payout == address(0)) revert ZeroAddress();
+        if (failedTransfers[receiver].amount == 0) revert NoFailedTransfer();
+
+        payoutRedirects[receiver] = payout;
+        emit PayoutRedirectSet(receiver, payout);
+    }
+
+    /**
+     * @dev Internal helper returning where a failed transfer should be paid
+     */
+    function _payoutAddress(address receiver) internal view returns (address) {
+        address payout = payoutRedirects[receiver];
+        return payout == address(0) ? receiver : payout;
+    }
+
+    /**
+     * @dev Internal helper that clears a redirection once its transfer succeeded
+     */
+    function _settlePayoutRedirect(address receiver, uint256 amount) internal {
+        address payout = payoutRedirects[receiver];
+        if (payout != address(0)) {
+            delete payoutRedirects[receiver];
+            emit PayoutRedirected(receiver, payout, amount);
+        }
+    }
+
+    /**
+     * @dev Returns the current day number (days since epoch, each starting dayOffset seconds after UTC midnight)
      * @return uint256 Current day number
      */
     function getCurrentDay() external view returns (uint256) {
-        return block.timestamp / 1 days;
+        return _today();
     }
 
     /**
@@ -828,26 +1715,21 @@ contract Pool is AccessControl {
             bool canLeaveReceiverPool
         )
     {
-        uint256 today = block.timestamp / 1 days;
+        PoolParameters storage params = _activeParameters();
+        lastResetDay = userLastDay[user];
+        bool inReceiverPool = userRegistry.isInReceiverPool(user);
 
         // If user's data is from a previous day, they haven't contributed or entered today
-        if (userLastDay[user] < today) {
-            contributionAmount = 0;
-            receiverEntries = 0;
-            receiverExits = 0;
-            lastResetDay = userLastDay[user];
-            canContribute = true;
-            canEnterReceiverPool = true;
-            canLeaveReceiverPool = userRegistry.isInReceiverPool(user);
-        } else {
-            contributionAmount = dailyContributions[user];
-            receiverEntries = dailyReceiverEntries[user];
-            receiverExits = dailyReceiverExits[user];
-            lastResetDay = userLastDay[user];
-            canContribute = contributionAmount < MAX_DAILY_CONTRIBUTION;
-            canEnterReceiverPool = receiverEntries < MAX_DAILY_RECEIVER_ENTRIES && contributionAmount == 0;
-            canLeaveReceiverPool = receiverExits < MAX_DAILY_RECEIVER_EXITS && userRegistry.isInReceiverPool(user);
+        if (lastResetDay < _today()) {
+            return (0, 0, 0, lastResetDay, true, true, inReceiverPool);
         }
+
+        contributionAmount = dailyContributions[user];
+        receiverEntries = dailyReceiverEntries[user];
+        receiverExits = dailyReceiverExits[user];
+        canContribute = contributionAmount < params.maxDailyContribution;
+        canEnterReceiverPool = receiverEntries < params.maxDailyReceiverEntries && contributionAmount == 0;
+        canLeaveReceiverPool = receiverExits < params.maxDailyReceiverExits && inReceiverPool;
     }
 
     /**
@@ -856,14 +1738,15 @@ contract Pool is AccessControl {
      * @return uint256 Remaining amount user can contribute today
      */
     function getRemainingDailyContribution(address user) external view returns (uint256) {
-        uint256 today = block.timestamp / 1 days;
+        uint256 today = _today();
+        uint256 maxDailyContribution = _activeParameters().maxDailyContribution;
 
         if (userLastDay[user] < today) {
-            return MAX_DAILY_CONTRIBUTION;
+            return maxDailyContribution;
         }
 
         uint256 used = dailyContributions[user];
-        return used >= MAX_DAILY_CONTRIBUTION ? 0 : MAX_DAILY_CONTRIBUTION - used;
+        return used >= maxDailyContribution ? 0 : maxDailyContribution - used;
     }
 
     /**
@@ -872,7 +1755,7 @@ contract Pool is AccessControl {
      * @return uint256 Amount user can withdraw from their current day's contributions
      */
     function getWithdrawableAmount(address user) external view returns (uint256) {
-        uint256 today = block.timestamp / 1 days;
+        uint256 today = _today();
 
         if (userLastDay[user] < today) {
             return 0; // No contributions today means nothing to withdraw
@@ -896,7 +1779,7 @@ contract Pool is AccessControl {
         view
         returns (uint256 withdrawalCount, bool canWithdraw, uint256 nextWithdrawalTime, uint256 withdrawableAmount)
     {
-        uint256 today = block.timestamp / 1 days;
+        uint256 today = _today();
 
         if (userLastDay[user] < today) {
             withdrawalCount = 0;
@@ -906,12 +1789,13 @@ contract Pool is AccessControl {
             withdrawableAmount = dailyContributions[user];
         }
 
-        bool cooldownPassed = block.timestamp >= lastWithdrawalTime[user] + WITHDRAWAL_COOLDOWN;
-        bool withinDailyLimit = withdrawalCount < MAX_DAILY_WITHDRAWALS;
+        PoolParameters storage params = _activeParameters();
+        bool cooldownPassed = block.timestamp >= lastWithdrawalTime[user] + params.withdrawalCooldown;
+        bool withinDailyLimit = withdrawalCount < params.maxDailyWithdrawals;
         bool hasContribution = withdrawableAmount > 0;
 
         canWithdraw = cooldownPassed && withinDailyLimit && hasContribution;
-        nextWithdrawalTime = lastWithdrawalTime[user] + WITHDRAWAL_COOLDOWN;
+        nextWithdrawalTime = lastWithdrawalTime[user] + params.withdrawalCooldown;
     }
 
     /**
@@ -922,9 +1806,104 @@ contract Pool is AccessControl {
      */
     function getWithdrawalLimits()
         external
-        pure
+        view
         returns (uint256 maxDailyWithdrawals, uint256 withdrawalCooldownPeriod, uint256 minWithdrawalAmount)
     {
-        return (MAX_DAILY_WITHDRAWALS, WITHDRAWAL_COOLDOWN, MIN_WITHDRAWAL_AMOUNT);
+        PoolParameters storage params = _activeParameters();
+        return (params.maxDailyWithdrawals, params.withdrawalCooldown, params.minWithdrawalAmount);
+    }
+
+    /**
+     * @dev Returns the parameters in effect today
+     */
+    function getParameters() external view returns (PoolParameters memory) {
+        return _activeParameters();
+    }
+
+    /**
+     * @dev Returns the scheduled parameter set and the day it takes effect (0 if none is pending)
+     */
+    function getPendingParameters() external view returns (PoolParameters memory, uint256 effectiveDay) {
+        PoolParameters storage scheduled = pendingParameters;
+        effectiveDay = pendingParametersDay;
+        if (effectiveDay == 0 || _today() >= effectiveDay) {
+            scheduled = _activeParameters();
+            effectiveDay = 0;
+        }
+        return (scheduled, effectiveDay);
+    }
+
+    // Getters kept for compatibility with integrations that read the former constants
+
+    function MIN_KINDNESS_AMOUNT() external view returns (uint256) {
+        return _activeParameters().minKindnessAmount;
+    }
+
+    function MAX_KINDNESS_AMOUNT() external view returns (uint256) {
+        return _activeParameters().maxKindnessAmount;
+    }
+
+    function MAX_DAILY_CONTRIBUTION() external view returns (uint256) {
+        return _activeParameters().maxDailyContribution;
+    }
+
+    function MIN_POOL_BALANCE() external view returns (uint256) {
+        return _activeParameters().minPoolBalance;
+    }
+
+    function MAX_RECEIVERS() external view returns (uint256) {
+        return _activeParameters().maxReceivers;
+    }
+
+    function DISTRIBUTION_BATCH_SIZE() external view returns (uint256) {
+        return _activeParameters().distributionBatchSize;
+    }
+
+    function DISTRIBUTION_WINDOW() external view returns (uint256) {
+        return _activeParameters().distributionWindow;
+    }
+
+    function MAX_RETRIES() external view returns (uint256) {
+        return _activeParameters().maxRetries;
+    }
+
+    function RETRY_COOLDOWN() external view returns (uint256) {
+        return _activeParameters().retryCooldown;
+    }
+
+    function MAX_AUTO_RETRIES_PER_TX() external view returns (uint256) {
+        return _activeParameters().maxAutoRetriesPerTx;
+    }
+
+    function ACTION_COOLDOWN() external view returns (uint256) {
+        return _activeParameters().actionCooldown;
+    }
+
+    function MAX_TRANSACTIONS_PER_DAY() external view returns (uint256) {
+        return _activeParameters().maxTransactionsPerDay;
+    }
+
+    function MAX_DAILY_RECEIVER_ENTRIES() external view returns (uint256) {
+        return _activeParameters().maxDailyReceiverEntries;
+    }
+
+    function MAX_DAILY_RECEIVER_EXITS() external view returns (uint256) {
+        return _activeParameters().maxDailyReceiverExits;
+    }
+
+    function RECEIVER_POOL_COOLDOWN() external view returns (uint256) {
+        return _activeParameters().receiverPoolCooldown;
+    }
+
+    function MAX_DAILY_WITHDRAWALS() external view returns (uint256) {
+        return _activeParameters().maxDailyWithdrawals;
+    }
+
+    function WITHDRAWAL_COOLDOWN() external view returns (uint256) {
+        return _activeParameters().withdrawalCooldown;
+    }
+
+    function MIN_WITHDRAWAL_AMOUNT() external view returns (uint256) {
+        return _activeParameters().minWithdrawalAmount;
     }
 }
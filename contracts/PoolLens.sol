@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./Pool.sol";
+import "./Errors.sol";
+
+/**
+ * @title PoolLens
+ * @dev Read-only batch views over a Pool, so frontends can render it in a few calls instead of
+ * one per entry: day records, receivers with their stats and pending failed transfers. Kept out
+ * of Pool because the pool contracts are close to the contract size limit.
+ */
+contract PoolLens {
+    struct ReceiverInfo {
+        address receiver;
+        string name; // UserRegistry display name
+        uint256 timesReceived;
+        uint256 totalReceived;
+    }
+
+    struct FailedTransferInfo {
+        address receiver;
+        uint256 amount;
+        uint256 retryCount;
+        uint256 nextRetryTime; // Earliest retryFailedTransfer, 0 once retries are exhausted
+    }
+
+    // Upper bound on the entries returned by one call
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    Pool public immutable pool;
+
+    constructor(address _pool) {
+        if (_pool == address(0)) revert ZeroAddress();
+        pool = Pool(payable(_pool));
+    }
+
+    /**
+     * @dev Returns the distribution records of `count` consecutive days starting at `fromDay`
+     * @notice Days without a distribution have an empty record (timestamp 0)
+     * @param fromDay First day number, see Pool.getCurrentDay
+     * @param count Number of days, at most MAX_PAGE_SIZE
+     */
+    function getDayRecords(uint256 fromDay, uint256 count) external view returns (Pool.DayRecord[] memory records) {
+        if (count > MAX_PAGE_SIZE) revert InvalidParameters();
+
+        records = new Pool.DayRecord[](count);
+        for (uint256 i = 0; i < count; i++) {
+            (
+                uint256 totalPool,
+                uint256 receiverCount,
+                uint256 amountPerReceiver,
+                uint256 failedCount,
+                uint256 timestamp
+            ) = pool.dayRecords(fromDay + i);
+            records[i] = Pool.DayRecord(totalPool, receiverCount, amountPerReceiver, failedCount, timestamp);
+        }
+    }
+
+    /**
+     * @dev Returns up to `limit` receivers from position `offset` with their UserRegistry stats
+     * @notice Removals move the last receiver into the freed slot, so pages read in separate
+     * calls can miss or repeat a receiver when the pool changes in between
+     * @param offset Index of the first receiver
+     * @param limit Maximum number of receivers, at most MAX_PAGE_SIZE
+     * @return page The receivers, empty if `offset` is past the end
+     * @return total Number of receivers in the pool
+     */
+    function getReceivers(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (ReceiverInfo[] memory page, uint256 total) {
+        total = pool.getReceiverCount();
+        page = new ReceiverInfo[](_pageLength(offset, limit, total));
+
+        UserRegistry userRegistry = pool.userRegistry();
+        for (uint256 i = 0; i < page.length; i++) {
+            address receiver = pool.receivers(offset + i);
+            UserRegistry.UserStats memory stats = userRegistry.getUserStats(receiver);
+            page[i] = ReceiverInfo(receiver, stats.name, stats.timesReceived, stats.totalReceived);
+        }
+    }
+
+    /**
+     * @dev Returns up to `limit` pending failed transfers from position `offset`
+     * @param offset Index of the first failed transfer
+     * @param limit Maximum number of failed transfers, at most MAX_PAGE_SIZE
+     * @return page The failed transfers, empty if `offset` is past the end
+     * @return total Number of pending failed transfers
+     */
+    function getFailedTransfers(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (FailedTransferInfo[] memory page, uint256 total) {
+        total = pool.getFailedTransferCount();
+        page = new FailedTransferInfo[](_pageLength(offset, limit, total));
+
+        uint256 maxRetries = pool.MAX_RETRIES();
+        uint256 retryCooldown = pool.RETRY_COOLDOWN();
+        for (uint256 i = 0; i < page.length; i++) {
+            address receiver = pool.failedReceivers(offset + i);
+            (, uint256 amount, uint256 timestamp, uint256 retryCount) = pool.failedTransfers(receiver);
+
+            // Same backoff as Pool.retryFailedTransfer
+            uint256 nextRetryTime = retryCount < maxRetries ? timestamp + retryCooldown * (1 << retryCount) : 0;
+            page[i] = FailedTransferInfo(receiver, amount, retryCount, nextRetryTime);
+        }
+    }
+
+    function _pageLength(uint256 offset, uint256 limit, uint256 total) internal pure returns (uint256) {
+        if (limit > MAX_PAGE_SIZE) revert InvalidParameters();
+        if (offset >= total) return 0;
+        return total - offset < limit ? total - offset : limit;
+    }
+}
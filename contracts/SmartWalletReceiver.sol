@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IPool.sol";
+
+/// @title SmartWalletReceiver
+/// @notice Helper contract that, like a Safe or smart wallet, needs more than
+/// the 2300 gas stipend to accept Ether
+contract SmartWalletReceiver {
+    IPool public immutable pool;
+    uint256 public receivedCount;
+    uint256 public totalReceived;
+
+    constructor(address _pool) {
+        pool = IPool(_pool);
+        pool.enterReceiverPool();
+    }
+
+    function claim() external {
+        pool.claim();
+    }
+
+    function claimTo(address to) external {
+        pool.claimTo(to);
+    }
+
+    receive() external payable {
+        // Storage writes cost far more than the stipend allows
+        receivedCount++;
+        totalReceived += msg.value;
+    }
+}
@@ -0,0 +1,309 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./IContributionMatcher.sol";
+import "./Pool.sol";
+import "./Errors.sol";
+
+/**
+ * @title SponsorMatching
+ * @dev Sponsors escrow funds that match contributions to the pool, e.g. 1:1 up to 10 ETH a day.
+ * Each sponsorship has a match ratio in basis points, a daily cap and an expiry; every active
+ * sponsorship matches each contribution independently. Withdrawn contributions take a pro-rata
+ * part of the giver's matches from the same pool day and round back out of the daily pool,
+ * restoring the sponsorships' escrow and daily capacity. Escrow is returned once the sponsorship has expired.
+ * Expired sponsorships, and those with less escrow left than the pool's minimum contribution,
+ * leave the active list on the next contribution or new sponsorship, so they cannot hold one of
+ * the few active slots. The admin can end a sponsorship early, e.g. one that squats a slot with
+ * a negligible ratio or cap.
+ */
+contract SponsorMatching is IContributionMatcher, AccessControl {
+    using SafeERC20 for IERC20;
+
+    struct Sponsorship {
+        address sponsor;
+        uint256 balance; // Escrowed funds not yet matched
+        uint256 ratioBps; // Match per contributed amount in basis points (10000 = 1:1)
+        uint256 dailyCap; // Maximum matched per pool day
+        uint256 expiry; // No matches after this timestamp
+        uint256 matchedDay; // Pool day matchedToday refers to
+        uint256 matchedToday; // Matched on matchedDay, net of reversals
+    }
+
+    uint256 public constant BPS = 10000;
+    // Bounds the work every contribution and withdrawal does
+    uint256 public constant MAX_ACTIVE_SPONSORSHIPS = 5;
+    // Bounds how long a sponsorship can hold an active slot
+    uint256 public constant MAX_SPONSORSHIP_DURATION = 90 days;
+
+    Pool public immutable pool;
+    IERC20 public immutable token; // address(0) for an ETH pool
+
+    mapping(uint256 => Sponsorship) public sponsorships; // Ids start at 1
+    uint256 public sponsorshipCount;
+    uint256[] internal activeSponsorships; // Ids not yet closed
+
+    // Per pool day, pool round and giver: contributions seen, and what each sponsorship matched of
+    // them. A distribution ends the round within the day, and its matches must not be reversed.
+    mapping(uint256 => mapping(uint256 => mapping(address => uint256))) public contributedOn;
+    mapping(uint256 => mapping(uint256 => mapping(address => mapping(uint256 => uint256)))) public matchedFor;
+
+    event SponsorshipCreated(
+        uint256 indexed id,
+        address indexed sponsor,
+        uint256 amount,
+        uint256 ratioBps,
+        uint256 dailyCap,
+        uint256 expiry
+    );
+    event ContributionMatched(uint256 indexed id, address indexed giver, uint256 amount);
+    event MatchReversed(uint256 indexed id, address indexed giver, uint256 amount);
+    event SponsorshipClosed(uint256 indexed id, uint256 refund);
+    event SponsorshipEnded(uint256 indexed id);
+
+    /**
+     * @param admin Account that can end sponsorships early
+     * @param _pool The pool whose contributions are matched
+     * @param _token The pool's token for a TokenPool, address(0) for an ETH pool
+     */
+    constructor(address admin, address _pool, address _token) {
+        if (admin == address(0) || _pool == address(0)) revert ZeroAddress();
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        pool = Pool(payable(_pool));
+        token = IERC20(_token);
+    }
+
+    modifier onlyPool() {
+        if (msg.sender != address(pool)) revert NotPool();
+        _;
+    }
+
+    /**
+     * @dev Escrows `amount` (sent as value for ETH, pulled with an approval for tokens) to match
+     * contributions until `expiry`
+     * @param amount Funds to escrow, at least the pool's maximum single contribution
+     * @param ratioBps Match per contributed amount in basis points, e.g. 10000 for 1:1
+     * @param dailyCap Maximum matched per pool day
+     * @param expiry Timestamp after which nothing is matched and the escrow can be reclaimed, at
+     * most MAX_SPONSORSHIP_DURATION from now
+     * @return id The new sponsorship's id
+     */
+    function createSponsorship(
+        uint256 amount,
+        uint256 ratioBps,
+        uint256 dailyCap,
+        uint256 expiry
+    ) external payable returns (uint256 id) {
+        if (
+            amount < pool.MAX_KINDNESS_AMOUNT() ||
+            ratioBps == 0 ||
+            dailyCap == 0 ||
+            expiry <= block.timestamp ||
+            expiry > block.timestamp + MAX_SPONSORSHIP_DURATION
+        ) {
+            revert InvalidParameters();
+        }
+        _pruneInactive(pool.getCurrentDay());
+        if (activeSponsorships.length >= MAX_ACTIVE_SPONSORSHIPS) revert TooManySponsorships();
+
+        if (address(token) == address(0)) {
+            if (msg.value != amount) revert ValueMismatch();
+        } else {
+            if (msg.value != 0) revert ValueMismatch();
+            token.safeTransferFrom(msg.sender, address(this), amount);
+        }
+
+        id = ++sponsorshipCount;
+        Sponsorship storage sponsorship = sponsorships[id];
+        sponsorship.sponsor = msg.sender;
+        sponsorship.balance = amount;
+        sponsorship.ratioBps = ratioBps;
+        sponsorship.dailyCap = dailyCap;
+        sponsorship.expiry = expiry;
+        activeSponsorships.push(id);
+
+        emit SponsorshipCreated(id, msg.sender, amount, ratioBps, dailyCap, expiry);
+    }
+
+    /**
+     * @dev Returns the unused escrow of an expired or spent sponsorship to its sponsor (only the
+     * sponsor)
+     * @notice Not possible on a pool day the sponsorship matched, since withdrawals that day
+     * may still reverse matches into it
+     * @param id The sponsorship to close
+     */
+    function closeSponsorship(uint256 id) external {
+        Sponsorship storage sponsorship = sponsorships[id];
+        if (msg.sender != sponsorship.sponsor) revert NotSponsor();
+        if (
+            (block.timestamp <= sponsorship.expiry && sponsorship.balance >= pool.MIN_KINDNESS_AMOUNT()) ||
+            sponsorship.matchedDay >= pool.getCurrentDay()
+        ) {
+            revert SponsorshipActive();
+        }
+
+        uint256 refund = sponsorship.balance;
+        sponsorship.balance = 0;
+        sponsorship.sponsor = address(0);
+        // Already gone if it was pruned
+        for (uint256 i = 0; i < activeSponsorships.length; i++) {
+            if (activeSponsorships[i] == id) {
+                _removeActive(i);
+                break;
+            }
+        }
+
+        emit SponsorshipClosed(id, refund);
+        _send(msg.sender, refund);
+    }
+
+    /**
+     * @dev Expires a sponsorship now (only admin), e.g. one holding a slot with a negligible ratio
+     * or cap. It leaves the active list once its last matching day is over, and the sponsor closes
+     * it as usual to get the escrow back.
+     * @param id The sponsorship to end
+     */
+    function endSponsorship(uint256 id) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        Sponsorship storage sponsorship = sponsorships[id];
+        if (sponsorship.sponsor == address(0)) revert InvalidParameters();
+        if (sponsorship.expiry >= block.timestamp) sponsorship.expiry = block.timestamp - 1;
+
+        emit SponsorshipEnded(id);
+        _pruneInactive(pool.getCurrentDay());
+    }
+
+    /**
+     * @dev Matches a contribution from every active sponsorship and sends the total to the pool
+     */
+    function matchContribution(address giver, uint256 amount) external onlyPool returns (uint256 matched) {
+        uint256 day = pool.getCurrentDay();
+        uint256 round = pool.poolRound();
+        contributedOn[day][round][giver] += amount;
+        _pruneInactive(day);
+
+        for (uint256 i = 0; i < activeSponsorships.length; i++) {
+            uint256 id = activeSponsorships[i];
+            Sponsorship storage sponsorship = sponsorships[id];
+            uint256 matchAmount = (amount * sponsorship.ratioBps) / BPS;
+            uint256 capacity = _remainingCapacity(sponsorship, day);
+            if (matchAmount > capacity) matchAmount = capacity;
+            if (matchAmount == 0) continue;
+
+            if (sponsorship.matchedDay != day) {
+                sponsorship.matchedDay = day;
+                sponsorship.matchedToday = 0;
+            }
+            sponsorship.balance -= matchAmount;
+            sponsorship.matchedToday += matchAmount;
+            matchedFor[day][round][giver][id] += matchAmount;
+            matched += matchAmount;
+            emit ContributionMatched(id, giver, matchAmount);
+        }
+
+        if (matched != 0) _send(address(pool), matched);
+    }
+
+    /**
+     * @dev Takes back the part of the matches for `giver` in today's current round that
+     * corresponds to the withdrawn share of their contributions; the pool sends the returned
+     * amount back
+     */
+    function reverseMatch(address giver, uint256 amount) external onlyPool returns (uint256 reversed) {
+        uint256 day = pool.getCurrentDay();
+        uint256 round = pool.poolRound();
+        uint256 contributed = contributedOn[day][round][giver];
+        if (contributed == 0) return 0;
+        bool all = amount >= contributed;
+        contributedOn[day][round][giver] = all ? 0 : contributed - amount;
+
+        for (uint256 i = 0; i < activeSponsorships.length; i++) {
+            uint256 id = activeSponsorships[i];
+            uint256 matched = matchedFor[day][round][giver][id];
+            if (matched == 0) continue;
+
+            uint256 reverse = all ? matched : (matched * amount) / contributed;
+            if (reverse == 0) continue;
+            Sponsorship storage sponsorship = sponsorships[id];
+            matchedFor[day][round][giver][id] = matched - reverse;
+            sponsorship.balance += reverse;
+            sponsorship.matchedToday -= reverse;
+            reversed += reverse;
+            emit MatchReversed(id, giver, reverse);
+        }
+    }
+
+    /**
+     * @dev Returns how much a sponsorship can still match today
+     */
+    function getRemainingCapacity(uint256 id) public view returns (uint256) {
+        return _remainingCapacity(sponsorships[id], pool.getCurrentDay());
+    }
+
+    /**
+     * @dev Returns how much all active sponsorships together can still match today
+     */
+    function getTotalRemainingCapacity() external view returns (uint256 total) {
+        uint256 day = pool.getCurrentDay();
+        for (uint256 i = 0; i < activeSponsorships.length; i++) {
+            total += _remainingCapacity(sponsorships[activeSponsorships[i]], day);
+        }
+    }
+
+    /**
+     * @dev Returns the ids of sponsorships holding an active slot, including expired or spent
+     * ones not yet pruned
+     */
+    function getActiveSponsorships() external view returns (uint256[] memory) {
+        return activeSponsorships;
+    }
+
+    /**
+     * @dev Accepts reversed ETH matches from the pool only
+     */
+    receive() external payable {
+        if (msg.sender != address(pool)) revert NotPool();
+    }
+
+    /**
+     * @dev Drops expired sponsorships and those with less escrow than the pool's minimum
+     * contribution from the active list; one that matched on `day` stays until the day is over,
+     * as withdrawals may still reverse matches into it
+     */
+    function _pruneInactive(uint256 day) internal {
+        uint256 minBalance = pool.MIN_KINDNESS_AMOUNT();
+        uint256 i = 0;
+        while (i < activeSponsorships.length) {
+            Sponsorship storage sponsorship = sponsorships[activeSponsorships[i]];
+            bool inactive = block.timestamp > sponsorship.expiry || sponsorship.balance < minBalance;
+            if (inactive && sponsorship.matchedDay < day) {
+                _removeActive(i);
+            } else {
+                i++;
+            }
+        }
+    }
+
+    function _removeActive(uint256 index) internal {
+        activeSponsorships[index] = activeSponsorships[activeSponsorships.length - 1];
+        activeSponsorships.pop();
+    }
+
+    function _remainingCapacity(Sponsorship storage sponsorship, uint256 day) internal view returns (uint256) {
+        if (block.timestamp > sponsorship.expiry) return 0;
+        uint256 capacity = sponsorship.dailyCap;
+        if (sponsorship.matchedDay == day) capacity -= sponsorship.matchedToday;
+        return capacity < sponsorship.balance ? capacity : sponsorship.balance;
+    }
+
+    function _send(address to, uint256 amount) internal {
+        if (address(token) == address(0)) {
+            (bool success, ) = payable(to).call{ value: amount }("");
+            if (!success) revert TransferFailedErr();
+        } else {
+            token.safeTransfer(to, amount);
+        }
+    }
+}
@@ -1,23 +1,45 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-interface IPool {
-    function enterReceiverPool() external;
-}
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./IPool.sol";
 
 /// @title TestReceiver
-/// @notice Helper contract that can fail to receive Ether
-contract TestReceiver {
+/// @notice Helper contract that can fail to receive Ether. Accepts EIP-1271
+/// signatures from its deployer, like a smart wallet with a single owner.
+contract TestReceiver is IERC1271 {
     bool public fail = true;
+    address public immutable owner;
+    IPool private immutable pool;
 
-    constructor(address pool) {
-        IPool(pool).enterReceiverPool();
+    constructor(address _pool) {
+        owner = msg.sender;
+        pool = IPool(_pool);
+        pool.enterReceiverPool();
     }
 
     function setFail(bool _fail) external {
         fail = _fail;
     }
 
+    function enterReceiverPool() external {
+        pool.enterReceiverPool();
+    }
+
+    function leaveReceiverPool() external {
+        pool.leaveReceiverPool();
+    }
+
+    function setPayoutRedirect(address payout) external {
+        pool.setPayoutRedirect(payout);
+    }
+
+    function isValidSignature(bytes32 hash, bytes memory signature) external view returns (bytes4) {
+        (address signer, , ) = ECDSA.tryRecover(hash, signature);
+        return signer == owner ? IERC1271.isValidSignature.selector : bytes4(0xffffffff);
+    }
+
     receive() external payable {
         if (fail) {
             revert("fail");
@@ -8,8 +8,8 @@ import "./Errors.sol";
 /**
  * @title TimeBasedDistributor
  * @dev Contract that handles the time-based distribution of the pool
- * This contract is responsible for calling the distributePool function
- * only during the designated distribution window
+ * This contract is responsible for starting the batched distribution
+ * only during the designated distribution window and driving it to completion
  */
 contract TimeBasedDistributor is AccessControl {
     // Rename for clarity
@@ -49,6 +49,9 @@ contract TimeBasedDistributor is AccessControl {
     event FailedTransfersAttempted(address[] failedTransfers);
     event TransferRetried(address receiver, uint256 amount, bool success);
     event EmergencyWithdrawalRequested(address receiver, uint256 amount);
+    event DistributionContinued(uint256 timestamp, bool complete);
+    event BatchesProcessed(uint256 batchCount, bool complete);
+    event DistributionBatchFailed(bytes4 reason);
 
     /**
      * @dev Constructor sets the initial pool address
@@ -56,7 +59,7 @@ contract TimeBasedDistributor is AccessControl {
      */
     constructor(address _pool) {
         if (_pool == address(0)) revert ZeroAddress();
-        pool = Pool(_pool);
+        pool = Pool(payable(_pool));
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
     }
 
@@ -72,15 +75,55 @@ contract TimeBasedDistributor is AccessControl {
         if (!pool.isWithinDistributionWindow()) revert NotInDistributionWindow();
         if (pool.hasDistributedToday()) revert AlreadyDistributedToday();
 
-        // Attempt to distribute the pool
-        try pool.distributePool() {
+        // Start the batched distribution (processes the first batch)
+        try pool.startDistribution() {
             emit DistributionAttempted(block.timestamp, true);
-        } catch {
-            emit DistributionAttempted(block.timestamp, false);
-            revert DistributionFailed();
+        } catch (bytes memory reason) {
+            // No DistributionAttempted(false) here, the revert would roll it back
+            revert DistributionFailed(_errorSelector(reason));
         }
     }
 
+    /**
+     * @dev Processes the next batch of an in-progress distribution
+     */
+    function continueDistribution() external {
+        if (!hasRole(DISTRIBUTOR_ROLE, msg.sender)) revert NotDistributor();
+
+        try pool.continueDistribution() {
+            emit DistributionContinued(block.timestamp, !pool.distributionInProgress());
+        } catch (bytes memory reason) {
+            revert DistributionFailed(_errorSelector(reason));
+        }
+    }
+
+    /**
+     * @dev Processes remaining batches until the distribution completes or
+     * less than `gasPerBatch` gas is left. A batch that reverts after earlier
+     * batches succeeded stops the loop and emits DistributionBatchFailed.
+     * @param gasPerBatch Gas that must be left before starting another batch
+     * @return complete True if the distribution finished
+     */
+    function completeDistribution(uint256 gasPerBatch) external returns (bool complete) {
+        if (!hasRole(DISTRIBUTOR_ROLE, msg.sender)) revert NotDistributor();
+        if (!pool.distributionInProgress()) revert NoDistributionInProgress();
+
+        uint256 batchCount = 0;
+        while (pool.distributionInProgress() && gasleft() >= gasPerBatch) {
+            try pool.continueDistribution() {
+                batchCount++;
+            } catch (bytes memory reason) {
+                bytes4 selector = _errorSelector(reason);
+                if (batchCount == 0) revert DistributionFailed(selector);
+                emit DistributionBatchFailed(selector);
+                break;
+            }
+        }
+
+        complete = !pool.distributionInProgress();
+        emit BatchesProcessed(batchCount, complete);
+    }
+
     /**
      * @dev Updates the pool address (only owner)
      * @param _newPool Address of the new Pool contract
@@ -88,7 +131,7 @@ contract TimeBasedDistributor is AccessControl {
     function setPool(address _newPool) external onlyRole(DEFAULT_ADMIN_ROLE) {
         if (_newPool == address(0)) revert ZeroAddress();
         address oldPool = address(pool);
-        pool = Pool(_newPool);
+        pool = Pool(payable(_newPool));
         emit PoolAddressUpdated(oldPool, _newPool);
     }
 
@@ -111,4 +154,15 @@ contract TimeBasedDistributor is AccessControl {
         // Log results
         emit FailedTransfersAttempted(failedAddresses);
     }
+
+    /**
+     * @dev Extracts the custom error selector from revert data
+     * @return selector The first 4 bytes of the revert data, or 0 if there is none
+     */
+    function _errorSelector(bytes memory reason) internal pure returns (bytes4 selector) {
+        if (reason.length < 4) return bytes4(0);
+        assembly {
+            selector := mload(add(reason, 32))
+        }
+    }
 }
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./Pool.sol";
+import "./Errors.sol";
+
+/**
+ * @title TokenPool
+ * @dev Kindness pool that collects and distributes a single ERC-20 token (e.g. USDC)
+ * instead of native ETH. Daily limits, withdrawals, batched distribution and
+ * failed-transfer tracking are inherited from Pool; amounts are in token units.
+ */
+contract TokenPool is Pool {
+    using SafeERC20 for IERC20;
+
+    // The token contributed to and distributed by this pool
+    IERC20 public immutable token;
+
+    /**
+     * @dev Constructor sets the token and the initial parameters, since the ETH
+     * defaults are meaningless for tokens with different decimals
+     * @param _system Address that receives the admin role
+     * @param _token Address of the ERC-20 token
+     * @param _parameters Initial pool parameters in token units
+     */
+    constructor(address _system, address _token, PoolParameters memory _parameters) Pool(_system) {
+        if (_token == address(0)) revert ZeroAddress();
+        _validateParameters(_parameters);
+        token = IERC20(_token);
+        parameters = _parameters;
+    }
+
+    /**
+     * @dev Contributes tokens using an EIP-2612 permit instead of a prior approval
+     * @notice A permit that fails (e.g. already used by a front-runner) is ignored
+     * as long as the allowance covers the contribution.
+     * @param amount The amount to contribute
+     * @param deadline Permit deadline
+     * @param v Signature v
+     * @param r Signature r
+     * @param s Signature s
+     */
+    function giveKindnessWithPermit(
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external dailyReset transactionLimited {
+        try IERC20Permit(address(token)).permit(_msgSender(), address(this), amount, deadline, v, r, s) {} catch {}
+        _giveKindness(_msgSender(), amount);
+    }
+
+    function _collectContribution(uint256 amount) internal override {
+        if (msg.value != 0) revert ValueMismatch();
+
+        // Reject fee-on-transfer tokens, the pool must hold exactly what it records
+        uint256 balanceBefore = _poolBalance();
+        token.safeTransferFrom(_msgSender(), address(this), amount);
+        if (_poolBalance() - balanceBefore != amount) revert ValueMismatch();
+    }
+
+    function _payReceiver(address receiver, uint256 amount) internal override returns (bool) {
+        return token.trySafeTransfer(receiver, amount);
+    }
+
+    function _sendFunds(address to, uint256 amount) internal override returns (bool) {
+        return token.trySafeTransfer(to, amount);
+    }
+
+    function _poolBalance() internal view override returns (uint256) {
+        return token.balanceOf(address(this));
+    }
+
+    /**
+     * @dev Token transfers do not call into the receiver, so the budget only has
+     * to cover the token's own bookkeeping
+     */
+    function _receiverTransferGas() internal pure override returns (uint256) {
+        return 100000;
+    }
+}
@@ -2,13 +2,15 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 import "./Errors.sol";
 
 /**
  * @title UserRegistry
  * @dev Manages user statistics and emits events for leaderboard tracking
+ * @notice setName accepts ERC-2771 meta-transactions from the trusted forwarder
  */
-contract UserRegistry is Ownable {
+contract UserRegistry is Ownable, ERC2771Context {
     // Struct to store user statistics
     struct UserStats {
         uint256 totalGiven; // Total amount given by user
@@ -22,6 +24,7 @@ contract UserRegistry is Ownable {
     // State variables
     address public system; // Address of the KindnessSystem contract
     mapping(address => UserStats) public userStats; // User statistics
+    address internal forwarder; // ERC-2771 forwarder trusted to relay setName; address(0) disables relaying
 
     // Events
     event UserStatsUpdated(
@@ -35,11 +38,13 @@ contract UserRegistry is Ownable {
     event UserNameUpdated(address indexed user, string name);
     event ReceiverPoolStatusUpdated(address indexed user, bool isInReceiverPool);
     event SystemUpdated(address indexed newSystem);
+    event TrustedForwarderUpdated(address indexed forwarder);
+
     /**
      * @dev Constructor sets the UserRegistry contract address
      * @param _system Address of the UserRegistry contract
      */
-    constructor(address _system) Ownable(_system) {
+    constructor(address _system) Ownable(_system) ERC2771Context(address(0)) {
         system = _system;
     }
 
@@ -119,8 +124,9 @@ contract UserRegistry is Ownable {
         if (nameLength == 0) revert EmptyName();
         if (nameLength > 32) revert NameTooLong();
 
-        userStats[msg.sender].name = name;
-        emit UserNameUpdated(msg.sender, name);
+        address user = _msgSender();
+        userStats[user].name = name;
+        emit UserNameUpdated(user, name);
     }
 
     /**
@@ -173,4 +179,32 @@ contract UserRegistry is Ownable {
         system = _newSystem;
         emit SystemUpdated(_newSystem);
     }
+
+    /**
+     * @dev Sets the ERC-2771 forwarder that may relay setName on behalf of users (only owner)
+     * @param newForwarder The forwarder contract, address(0) to disable relaying
+     */
+    function setTrustedForwarder(address newForwarder) external onlyOwner {
+        forwarder = newForwarder;
+        emit TrustedForwarderUpdated(newForwarder);
+    }
+
+    /**
+     * @dev Returns the forwarder set by setTrustedForwarder, replacing ERC2771Context's immutable one
+     */
+    function trustedForwarder() public view override returns (address) {
+        return forwarder;
+    }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
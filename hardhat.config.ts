@@ -4,16 +4,35 @@ import "@typechain/hardhat";
 import "@nomicfoundation/hardhat-ethers";
 import "@nomicfoundation/hardhat-chai-matchers";
 import * as dotenv from "dotenv";
+import "./tasks/eligibility";
+import "./tasks/keeper";
+import "./tasks/relayer";
+import "./tasks/timelock";
 
 dotenv.config();
 
 const config: HardhatUserConfig = {
   solidity: {
-    version: "0.8.20",
-    settings: {
-      optimizer: {
-        enabled: true,
-        runs: 200
+    compilers: [
+      {
+        version: "0.8.20",
+        settings: {
+          // The IR pipeline keeps Pool and TokenPool under the 24KB contract size limit
+          viaIR: true,
+          // PUSH0 shortens the bytecode further; every configured network supports shanghai
+          evmVersion: "shanghai",
+          optimizer: {
+            enabled: true,
+            runs: 200
+          }
+        }
+      }
+    ],
+    overrides: {
+      // TokenPool is closest to the limit; optimizing for size costs a little gas per call
+      "contracts/TokenPool.sol": {
+        version: "0.8.20",
+        settings: { viaIR: true, evmVersion: "shanghai", optimizer: { enabled: true, runs: 1 } }
       }
     }
   },
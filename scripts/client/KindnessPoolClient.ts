@@ -0,0 +1,299 @@
+import { ContractTransactionResponse, Signer } from "ethers";
+import {
+  Pool,
+  Pool__factory,
+  PoolLens,
+  PoolLens__factory,
+  TimeBasedDistributor,
+  TimeBasedDistributor__factory,
+  UserRegistry,
+  UserRegistry__factory,
+} from "../../typechain-types";
+import { KindnessPoolError, decodeKindnessPoolError } from "./errors";
+
+export interface UserDailyStats {
+  contributionAmount: bigint;
+  receiverEntries: bigint;
+  receiverExits: bigint;
+  lastResetDay: bigint;
+  canContribute: boolean;
+  canEnterReceiverPool: boolean;
+  canLeaveReceiverPool: boolean;
+}
+
+export interface UserWithdrawalStats {
+  withdrawalCount: bigint;
+  canWithdraw: boolean;
+  nextWithdrawalTime: bigint;
+  withdrawableAmount: bigint;
+}
+
+export interface ContributionLimits {
+  minKindnessAmount: bigint;
+  maxKindnessAmount: bigint;
+  maxDailyContribution: bigint;
+}
+
+export interface DayRecord {
+  totalPool: bigint;
+  receiverCount: bigint;
+  amountPerReceiver: bigint;
+  failedCount: bigint;
+  timestamp: bigint; // 0 if nothing was distributed that day
+}
+
+export interface ReceiverInfo {
+  receiver: string;
+  name: string;
+  timesReceived: bigint;
+  totalReceived: bigint;
+}
+
+export interface FailedTransferInfo {
+  receiver: string;
+  amount: bigint;
+  retryCount: bigint;
+  nextRetryTime: bigint; // 0 once retries are exhausted
+}
+
+// One page of a paginated view, with the size of the whole list
+export interface Page<T> {
+  items: T[];
+  total: bigint;
+}
+
+export interface KindnessPoolClientOptions {
+  // Optional TimeBasedDistributor, required for distribution helpers
+  distributorAddress?: string;
+  // Optional PoolLens, required for batch views
+  lensAddress?: string;
+}
+
+/**
+ * Typed wrapper around the Pool, UserRegistry, TimeBasedDistributor and PoolLens contracts.
+ * Validates inputs before sending transactions and decodes reverts into KindnessPoolError.
+ */
+export class KindnessPoolClient {
+  readonly pool: Pool;
+  readonly userRegistry: UserRegistry;
+  readonly distributor?: TimeBasedDistributor;
+  readonly lens?: PoolLens;
+  readonly signer: Signer;
+
+  private constructor(
+    signer: Signer,
+    pool: Pool,
+    userRegistry: UserRegistry,
+    distributor?: TimeBasedDistributor,
+    lens?: PoolLens
+  ) {
+    this.signer = signer;
+    this.pool = pool;
+    this.userRegistry = userRegistry;
+    this.distributor = distributor;
+    this.lens = lens;
+  }
+
+  /**
+   * Connects a client to a deployed Pool, resolving its UserRegistry on-chain
+   */
+  static async connect(
+    poolAddress: string,
+    signer: Signer,
+    options: KindnessPoolClientOptions = {}
+  ): Promise<KindnessPoolClient> {
+    const pool = Pool__factory.connect(poolAddress, signer);
+    const userRegistry = UserRegistry__factory.connect(await pool.userRegistry(), signer);
+    const distributor = options.distributorAddress
+      ? TimeBasedDistributor__factory.connect(options.distributorAddress, signer)
+      : undefined;
+    const lens = options.lensAddress ? PoolLens__factory.connect(options.lensAddress, signer) : undefined;
+    return new KindnessPoolClient(signer, pool, userRegistry, distributor, lens);
+  }
+
+  // ===== Giving =====
+
+  /**
+   * Contributes `amount` wei to the daily pool after checking the contribution limits
+   */
+  async giveKindness(amount: bigint): Promise<ContractTransactionResponse> {
+    const limits = await this.getContributionLimits();
+    if (amount < limits.minKindnessAmount) throw new KindnessPoolError("AmountTooLow", [amount]);
+    if (amount > limits.maxKindnessAmount) throw new KindnessPoolError("AmountTooHigh", [amount]);
+
+    const remaining = await this.pool.getRemainingDailyContribution(await this.signer.getAddress());
+    if (amount > remaining) {
+      throw new KindnessPoolError("DailyContributionLimitExceeded", [amount, remaining]);
+    }
+
+    return this.send(() => this.pool.giveKindness(amount, { value: amount }));
+  }
+
+  /**
+   * Withdraws `amount` wei of today's contribution after checking the withdrawal limits
+   */
+  async withdrawContribution(amount: bigint): Promise<ContractTransactionResponse> {
+    const [, , minWithdrawalAmount] = await this.pool.getWithdrawalLimits();
+    if (amount < minWithdrawalAmount) throw new KindnessPoolError("WithdrawalAmountTooLow", [amount]);
+
+    const stats = await this.getUserWithdrawalStats(await this.signer.getAddress());
+    if (amount > stats.withdrawableAmount) {
+      throw new KindnessPoolError("InsufficientContribution", [amount, stats.withdrawableAmount]);
+    }
+
+    return this.send(() => this.pool.withdrawContribution(amount));
+  }
+
+  // ===== Receiving =====
+
+  async enterReceiverPool(): Promise<ContractTransactionResponse> {
+    return this.send(() => this.pool.enterReceiverPool());
+  }
+
+  async leaveReceiverPool(): Promise<ContractTransactionResponse> {
+    return this.send(() => this.pool.leaveReceiverPool());
+  }
+
+  async setName(name: string): Promise<ContractTransactionResponse> {
+    if (name.length === 0) throw new KindnessPoolError("EmptyName");
+    if (new TextEncoder().encode(name).length > 32) throw new KindnessPoolError("NameTooLong");
+    return this.send(() => this.userRegistry.setName(name));
+  }
+
+  /**
+   * Withdraws the signer's credited shares (claim mode) to `to`, defaulting to the signer
+   */
+  async claim(to?: string): Promise<ContractTransactionResponse> {
+    const claimable = await this.getClaimableBalance(await this.signer.getAddress());
+    if (claimable === 0n) throw new KindnessPoolError("NothingToClaim");
+    return this.send(() => (to === undefined ? this.pool.claim() : this.pool.claimTo(to)));
+  }
+
+  // ===== Distribution =====
+
+  /**
+   * Asks the TimeBasedDistributor to distribute the pool
+   */
+  async attemptDistribution(): Promise<ContractTransactionResponse> {
+    const distributor = this.requireDistributor();
+    return this.send(() => distributor.attemptDistribution());
+  }
+
+  async autoRetryFailedTransfers(): Promise<ContractTransactionResponse> {
+    return this.send(() => this.pool.autoRetryFailedTransfers());
+  }
+
+  // ===== Views =====
+
+  async getContributionLimits(): Promise<ContributionLimits> {
+    const [minKindnessAmount, maxKindnessAmount, maxDailyContribution] = await Promise.all([
+      this.pool.MIN_KINDNESS_AMOUNT(),
+      this.pool.MAX_KINDNESS_AMOUNT(),
+      this.pool.MAX_DAILY_CONTRIBUTION(),
+    ]);
+    return { minKindnessAmount, maxKindnessAmount, maxDailyContribution };
+  }
+
+  async getUserDailyStats(user: string): Promise<UserDailyStats> {
+    const stats = await this.pool.getUserDailyStats(user);
+    return {
+      contributionAmount: stats.contributionAmount,
+      receiverEntries: stats.receiverEntries,
+      receiverExits: stats.receiverExits,
+      lastResetDay: stats.lastResetDay,
+      canContribute: stats.canContribute,
+      canEnterReceiverPool: stats.canEnterReceiverPool,
+      canLeaveReceiverPool: stats.canLeaveReceiverPool,
+    };
+  }
+
+  async getUserWithdrawalStats(user: string): Promise<UserWithdrawalStats> {
+    const stats = await this.pool.getUserWithdrawalStats(user);
+    return {
+      withdrawalCount: stats.withdrawalCount,
+      canWithdraw: stats.canWithdraw,
+      nextWithdrawalTime: stats.nextWithdrawalTime,
+      withdrawableAmount: stats.withdrawableAmount,
+    };
+  }
+
+  async getRemainingDailyContribution(user: string): Promise<bigint> {
+    return this.pool.getRemainingDailyContribution(user);
+  }
+
+  async isInReceiverPool(user: string): Promise<boolean> {
+    return this.userRegistry.isInReceiverPool(user);
+  }
+
+  async getClaimableBalance(user: string): Promise<bigint> {
+    return this.pool.claimableBalance(user);
+  }
+
+  /**
+   * Returns the distribution records of `count` consecutive days from `fromDay`, oldest first
+   */
+  async getDayRecords(fromDay: bigint, count: number): Promise<DayRecord[]> {
+    const records = await this.requireLens().getDayRecords(fromDay, count);
+    return records.map((record) => ({
+      totalPool: record.totalPool,
+      receiverCount: record.receiverCount,
+      amountPerReceiver: record.amountPerReceiver,
+      failedCount: record.failedCount,
+      timestamp: record.timestamp,
+    }));
+  }
+
+  /**
+   * Returns up to `limit` receivers from position `offset`, with their names and stats
+   */
+  async getReceivers(offset: bigint, limit: number): Promise<Page<ReceiverInfo>> {
+    const [page, total] = await this.requireLens().getReceivers(offset, limit);
+    const items = page.map((info) => ({
+      receiver: info.receiver,
+      name: info.name,
+      timesReceived: info.timesReceived,
+      totalReceived: info.totalReceived,
+    }));
+    return { items, total };
+  }
+
+  /**
+   * Returns up to `limit` pending failed transfers from position `offset`
+   */
+  async getFailedTransfers(offset: bigint, limit: number): Promise<Page<FailedTransferInfo>> {
+    const [page, total] = await this.requireLens().getFailedTransfers(offset, limit);
+    const items = page.map((info) => ({
+      receiver: info.receiver,
+      amount: info.amount,
+      retryCount: info.retryCount,
+      nextRetryTime: info.nextRetryTime,
+    }));
+    return { items, total };
+  }
+
+  // ===== Internal =====
+
+  private requireDistributor(): TimeBasedDistributor {
+    if (!this.distributor) {
+      throw new Error("KindnessPoolClient was created without a distributorAddress");
+    }
+    return this.distributor;
+  }
+
+  private requireLens(): PoolLens {
+    if (!this.lens) {
+      throw new Error("KindnessPoolClient was created without a lensAddress");
+    }
+    return this.lens;
+  }
+
+  private async send(
+    action: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionResponse> {
+    try {
+      return await action();
+    } catch (error) {
+      throw decodeKindnessPoolError(error);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { Interface } from "ethers";
+import {
+  KindnessForwarder__factory,
+  KindnessSubscriptions__factory,
+  Pool__factory,
+  SponsorMatching__factory,
+  TimeBasedDistributor__factory,
+  UserRegistry__factory,
+} from "../../typechain-types";
+
+// Interfaces used to decode custom errors from Errors.sol and OpenZeppelin
+const interfaces: Interface[] = [
+  Pool__factory.createInterface(),
+  UserRegistry__factory.createInterface(),
+  TimeBasedDistributor__factory.createInterface(),
+  KindnessForwarder__factory.createInterface(),
+  KindnessSubscriptions__factory.createInterface(),
+  SponsorMatching__factory.createInterface(),
+];
+
+/**
+ * Error thrown by the client when a call is rejected, either by local
+ * validation or by a contract revert. `errorName` matches the custom error
+ * name from Errors.sol (e.g. "DailyContributionLimitExceeded").
+ */
+export class KindnessPoolError extends Error {
+  readonly errorName: string;
+  readonly args: readonly unknown[];
+  readonly reverted: boolean;
+
+  constructor(errorName: string, args: readonly unknown[] = [], reverted = false, cause?: unknown) {
+    super(reverted ? `Transaction reverted with ${errorName}` : `Rejected before sending: ${errorName}`);
+    this.name = "KindnessPoolError";
+    this.errorName = errorName;
+    this.args = args;
+    this.reverted = reverted;
+    if (cause !== undefined) {
+      (this as { cause?: unknown }).cause = cause;
+    }
+  }
+}
+
+/**
+ * Returns true if `error` is a KindnessPoolError, optionally with the given name
+ */
+export function isKindnessPoolError(error: unknown, errorName?: string): error is KindnessPoolError {
+  if (!(error instanceof KindnessPoolError)) return false;
+  return errorName === undefined || error.errorName === errorName;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Finds the revert data of an ethers error, walking nested `error`/`info` fields
+ */
+function findRevertData(error: unknown): string | undefined {
+  let current = error;
+  for (let depth = 0; isRecord(current) && depth < 5; depth++) {
+    // JSON-RPC errors carry the data either directly or as `{ data }`
+    const data = isRecord(current.data) ? current.data.data : current.data;
+    if (typeof data === "string" && data.startsWith("0x") && data.length >= 10) {
+      return data;
+    }
+    current = current.error ?? (isRecord(current.info) ? current.info.error : undefined);
+  }
+  return undefined;
+}
+
+/**
+ * Decodes a revert into a KindnessPoolError. Errors that are not contract
+ * reverts (network failures, user rejections, ...) are returned unchanged.
+ */
+export function decodeKindnessPoolError(error: unknown): unknown {
+  if (error instanceof KindnessPoolError) return error;
+
+  const revert = isRecord(error) ? error.revert : undefined;
+  if (isRecord(revert) && typeof revert.name === "string") {
+    const args = Array.isArray(revert.args) ? Array.from(revert.args) : [];
+    return new KindnessPoolError(revert.name, args, true, error);
+  }
+
+  const data = findRevertData(error);
+  if (data) {
+    for (const iface of interfaces) {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return new KindnessPoolError(parsed.name, Array.from(parsed.args), true, error);
+      }
+    }
+  }
+
+  return error;
+}
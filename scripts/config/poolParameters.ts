@@ -0,0 +1,94 @@
+import { Result, parseEther } from "ethers";
+import { Pool } from "../../typechain-types";
+
+export type PoolParameters = Pool.PoolParametersStruct;
+
+/**
+ * Values of Pool.DistributionWindowOverride, for setDistributionWindowOverride()
+ */
+export enum DistributionWindowOverride {
+  None,
+  Open,
+  Closed,
+}
+
+/**
+ * Values of Pool.EmptyDayPolicy, for setEmptyDayPolicy()
+ */
+export enum EmptyDayPolicy {
+  Rollover,
+  Refund,
+  Hold,
+}
+
+/**
+ * Per-network overrides applied on top of the values the Pool is deployed with.
+ * Networks that are not listed keep the contract defaults.
+ */
+export const poolParameters: Record<string, Partial<PoolParameters>> = {
+  // Cheap gas, so allow smaller gifts and bigger receiver pools
+  base: {
+    minKindnessAmount: parseEther("0.0001"),
+    minPoolBalance: parseEther("0.001"),
+    minWithdrawalAmount: parseEther("0.0001"),
+    maxReceivers: 250,
+    distributionBatchSize: 50,
+  },
+  "base-sepolia": {
+    minKindnessAmount: parseEther("0.0001"),
+    minPoolBalance: parseEther("0.001"),
+    minWithdrawalAmount: parseEther("0.0001"),
+    maxReceivers: 250,
+    distributionBatchSize: 50,
+  },
+  // Expensive gas, so keep batches small and gifts meaningful
+  mainnet: {
+    minKindnessAmount: parseEther("0.01"),
+    minPoolBalance: parseEther("0.1"),
+    minWithdrawalAmount: parseEther("0.01"),
+    distributionBatchSize: 10,
+  },
+};
+
+/**
+ * Returns the overrides configured for a network, if any
+ */
+export function getPoolParameterOverrides(network: string): Partial<PoolParameters> | undefined {
+  return poolParameters[network];
+}
+
+/**
+ * Converts the tuple returned by pool.getParameters() into a plain struct for updateParameters
+ */
+export function toPoolParameters(output: Pool.PoolParametersStructOutput): PoolParameters {
+  return (output as unknown as Result).toObject() as PoolParameters;
+}
+
+/**
+ * Parameters for a TokenPool holding a dollar stablecoin with the given decimals
+ * (e.g. 6 for USDC): gifts of $1-$100, up to $500 per day, $10 minimum pool
+ */
+export function stablecoinPoolParameters(decimals: number): PoolParameters {
+  const usd = (amount: number) => BigInt(amount) * 10n ** BigInt(decimals);
+  return {
+    minKindnessAmount: usd(1),
+    maxKindnessAmount: usd(100),
+    maxDailyContribution: usd(500),
+    minPoolBalance: usd(10),
+    maxReceivers: 100,
+    distributionBatchSize: 25,
+    distributionWindow: 5 * 60,
+    distributionWindowStart: 0,
+    maxRetries: 3,
+    retryCooldown: 60 * 60,
+    maxAutoRetriesPerTx: 5,
+    actionCooldown: 60 * 60,
+    maxTransactionsPerDay: 10,
+    maxDailyReceiverEntries: 1,
+    maxDailyReceiverExits: 1,
+    receiverPoolCooldown: 30 * 60,
+    maxDailyWithdrawals: 3,
+    withdrawalCooldown: 2 * 60 * 60,
+    minWithdrawalAmount: usd(1),
+  };
+}
@@ -1,6 +1,9 @@
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 import { verify } from "./utils/verify";
-import { UserRegistry__factory } from "../typechain-types";
+import { getPoolParameterOverrides, stablecoinPoolParameters, toPoolParameters } from "./config/poolParameters";
+import { SECONDS_PER_DAY } from "./utils/days";
+import { transferAdminToTimelock } from "./governance/timelock";
+import { Pool__factory, UserRegistry__factory } from "../typechain-types";
 
 async function main() {
   try {
@@ -30,12 +33,30 @@ async function main() {
       throw new Error("UserRegistry deployment failed - no code at address");
     }
 
-    // Deploy Pool contract
-    console.log("\nDeploying Pool...");
-    const Pool = await ethers.getContractFactory("Pool");
-    const pool = await Pool.deploy(deployer.address);
-    await pool.waitForDeployment();
-    const poolAddress = await pool.getAddress();
+    // Deploy Pool contract, or a TokenPool for the ERC-20 in POOL_TOKEN (e.g. USDC)
+    const poolToken = process.env.POOL_TOKEN;
+    let poolConstructorArgs: unknown[];
+    let poolAddress: string;
+    if (poolToken) {
+      const erc20 = new ethers.Contract(poolToken, ["function decimals() view returns (uint8)"], deployer);
+      const decimals = Number(await erc20.decimals());
+      poolConstructorArgs = [deployer.address, poolToken, stablecoinPoolParameters(decimals)];
+
+      console.log(`\nDeploying TokenPool for ${poolToken} (${decimals} decimals)...`);
+      const TokenPool = await ethers.getContractFactory("TokenPool");
+      const tokenPool = await TokenPool.deploy(deployer.address, poolToken, stablecoinPoolParameters(decimals));
+      await tokenPool.waitForDeployment();
+      poolAddress = await tokenPool.getAddress();
+    } else {
+      poolConstructorArgs = [deployer.address];
+
+      console.log("\nDeploying Pool...");
+      const Pool = await ethers.getContractFactory("Pool");
+      const ethPool = await Pool.deploy(deployer.address);
+      await ethPool.waitForDeployment();
+      poolAddress = await ethPool.getAddress();
+    }
+    const pool = Pool__factory.connect(poolAddress, deployer);
     console.log("Pool deployed to:", poolAddress);
 
     // Verify Pool deployment
@@ -45,6 +66,33 @@ async function main() {
       throw new Error("Pool deployment failed - no code at address");
     }
 
+    // Apply per-network parameters from scripts/config/poolParameters.ts
+    // TokenPools are configured in their constructor, these overrides are in ETH
+    const overrides = poolToken ? undefined : getPoolParameterOverrides(network.name);
+    if (overrides) {
+      console.log(`\nApplying ${network.name} pool parameters...`);
+      const current = toPoolParameters(await pool.getParameters());
+      const tx = await pool.updateParameters({ ...current, ...overrides });
+      await tx.wait();
+      console.log("Pool parameters updated:", Object.keys(overrides).join(", "));
+    } else {
+      console.log(`\nNo pool parameter overrides for ${network.name}, keeping constructor parameters`);
+    }
+
+    // Start each pool day POOL_DAY_OFFSET seconds after UTC midnight, or at the
+    // deployment hour with POOL_DAY_OFFSET=deployment (default: UTC midnight)
+    const dayOffsetSetting = process.env.POOL_DAY_OFFSET;
+    if (dayOffsetSetting) {
+      const latest = await ethers.provider.getBlock("latest");
+      const dayOffset =
+        dayOffsetSetting === "deployment"
+          ? Math.floor((latest!.timestamp % SECONDS_PER_DAY) / 3600) * 3600
+          : Number(dayOffsetSetting);
+      const tx = await pool.setDayOffset(dayOffset);
+      await tx.wait();
+      console.log(`Pool days start ${dayOffset} seconds after UTC midnight`);
+    }
+
     // Transfer UserRegistry ownership to Pool
     console.log("\nTransferring UserRegistry ownership to Pool...");
     try {
@@ -96,13 +144,76 @@ async function main() {
       throw new Error("Critical: Failed to grant DISTRIBUTOR_ROLE");
     }
 
+    // Deploy recurring giving for ETH pools and let it contribute on givers' behalf
+    let subscriptionsAddress: string | undefined;
+    if (!poolToken) {
+      console.log("\nDeploying KindnessSubscriptions...");
+      const KindnessSubscriptions = await ethers.getContractFactory("KindnessSubscriptions");
+      const subscriptions = await KindnessSubscriptions.deploy(poolAddress);
+      await subscriptions.waitForDeployment();
+      subscriptionsAddress = await subscriptions.getAddress();
+      await (await pool.grantRole(await pool.SUBSCRIPTION_ROLE(), subscriptionsAddress)).wait();
+      console.log("KindnessSubscriptions deployed to:", subscriptionsAddress);
+    }
+
+    // Deploy sponsor matching in the pool's asset and route contributions through it
+    console.log("\nDeploying SponsorMatching...");
+    const matchingToken = poolToken || ethers.ZeroAddress;
+    const SponsorMatching = await ethers.getContractFactory("SponsorMatching");
+    const sponsorMatching = await SponsorMatching.deploy(deployer.address, poolAddress, matchingToken);
+    await sponsorMatching.waitForDeployment();
+    const matchingAddress = await sponsorMatching.getAddress();
+    await (await pool.setContributionMatcher(matchingAddress)).wait();
+    console.log("SponsorMatching deployed to:", matchingAddress);
+
+    // Deploy the batch views frontends use to render the pool
+    console.log("\nDeploying PoolLens...");
+    const PoolLens = await ethers.getContractFactory("PoolLens");
+    const poolLens = await PoolLens.deploy(poolAddress);
+    await poolLens.waitForDeployment();
+    const lensAddress = await poolLens.getAddress();
+    console.log("PoolLens deployed to:", lensAddress);
+
+    // Point the Pool's own UserRegistry at the Pool
+    console.log("\nConnecting the Pool's UserRegistry...");
+    const poolRegistry = UserRegistry.attach(await pool.userRegistry()) as typeof userRegistry;
+    await (await poolRegistry.updateSystem(poolAddress)).wait();
+    console.log("Pool UserRegistry:", await poolRegistry.getAddress());
+
+    // Deploy the timelock and hand every admin permission over to it
+    const minDelay = BigInt(process.env.TIMELOCK_MIN_DELAY || 2 * 24 * 60 * 60);
+    const proposers = process.env.TIMELOCK_PROPOSERS
+      ? process.env.TIMELOCK_PROPOSERS.split(",").map((address) => address.trim())
+      : [deployer.address];
+    console.log(`\nDeploying KindnessTimelock (min delay ${minDelay}s)...`);
+    const KindnessTimelock = await ethers.getContractFactory("KindnessTimelock");
+    const timelock = await KindnessTimelock.deploy(minDelay, proposers, proposers, ethers.ZeroAddress);
+    await timelock.waitForDeployment();
+    const timelockAddress = await timelock.getAddress();
+    console.log("KindnessTimelock deployed to:", timelockAddress);
+
+    console.log("\nTransferring admin roles to KindnessTimelock...");
+    await transferAdminToTimelock(
+      { pool, distributor: timeBasedDistributor, userRegistry: poolRegistry, sponsorMatching },
+      timelockAddress,
+      deployer.address
+    );
+    if (!(await pool.hasRole(await pool.DEFAULT_ADMIN_ROLE(), timelockAddress))) {
+      throw new Error("Critical: Pool admin role was not transferred to the timelock");
+    }
+    console.log("Admin actions now require a timelock proposal");
+
     // Verify contracts on Etherscan (if not on a local network)
     if (process.env.ETHERSCAN_API_KEY) {
       console.log("\nVerifying contracts on Etherscan...");
       try {
         await verify(userRegistryAddress, [deployer.address]);
-        await verify(poolAddress, [deployer.address]);
+        await verify(poolAddress, poolConstructorArgs);
         await verify(distributorAddress, [poolAddress]);
+        if (subscriptionsAddress) await verify(subscriptionsAddress, [poolAddress]);
+        await verify(matchingAddress, [deployer.address, poolAddress, matchingToken]);
+        await verify(lensAddress, [poolAddress]);
+        await verify(timelockAddress, [minDelay, proposers, proposers, ethers.ZeroAddress]);
       } catch (error) {
         console.error("Failed to verify contracts on Etherscan:", error);
         // Continue as verification is not critical
@@ -115,6 +226,10 @@ async function main() {
     console.log("UserRegistry:", userRegistryAddress);
     console.log("Pool:", poolAddress);
     console.log("TimeBasedDistributor:", distributorAddress);
+    if (subscriptionsAddress) console.log("KindnessSubscriptions:", subscriptionsAddress);
+    console.log("SponsorMatching:", matchingAddress);
+    console.log("PoolLens:", lensAddress);
+    console.log("KindnessTimelock:", timelockAddress);
     console.log("\nDeployment completed successfully!");
 
   } catch (error) {
@@ -0,0 +1,68 @@
+import { AbiCoder, Signer, TypedDataDomain, hexlify, randomBytes } from "ethers";
+import { AttestationEligibility, Pool__factory } from "../../typechain-types";
+
+export const RECEIVER_PERMIT_TYPES = {
+  ReceiverPermit: [
+    { name: "account", type: "address" },
+    { name: "day", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface ReceiverPermit {
+  account: string;
+  // Pool day the permit is valid on, see pool.getCurrentDay()
+  day: bigint;
+  nonce: bigint;
+  // Last timestamp at which the permit can be used
+  deadline: bigint;
+}
+
+/**
+ * EIP-712 typed data for a permit, ready for signer.signTypedData or an external signer
+ */
+export async function receiverPermitTypedData(gate: AttestationEligibility, permit: ReceiverPermit) {
+  const { name, version, chainId, verifyingContract } = await gate.eip712Domain();
+  const domain: TypedDataDomain = { name, version, chainId, verifyingContract };
+  return { domain, types: RECEIVER_PERMIT_TYPES, message: permit };
+}
+
+/**
+ * Encodes a signed permit as the proof for pool.enterReceiverPoolWithProof()
+ */
+export function encodeReceiverPermit(permit: ReceiverPermit, signature: string): string {
+  return AbiCoder.defaultAbiCoder().encode(
+    ["uint256", "uint256", "uint256", "bytes"],
+    [permit.day, permit.nonce, permit.deadline, signature]
+  );
+}
+
+/**
+ * Signs a permit for `account` on the pool's current day, usable for `validForSeconds`
+ * or until the day ends, and returns it with its encoded proof. The attester must be
+ * the gate's attester key and connected to a provider.
+ */
+export async function signReceiverPermit(
+  attester: Signer,
+  gate: AttestationEligibility,
+  account: string,
+  validForSeconds = 15 * 60
+): Promise<{ permit: ReceiverPermit; proof: string }> {
+  const provider = attester.provider;
+  if (!provider) throw new Error("Attester is not connected to a provider");
+  const block = await provider.getBlock("latest");
+  if (!block) throw new Error("Latest block not found");
+
+  const pool = Pool__factory.connect(await gate.pool(), provider);
+  const permit: ReceiverPermit = {
+    account,
+    day: await pool.getCurrentDay(),
+    nonce: BigInt(hexlify(randomBytes(16))),
+    deadline: BigInt(block.timestamp + validForSeconds),
+  };
+
+  const { domain, types, message } = await receiverPermitTypedData(gate, permit);
+  const signature = await attester.signTypedData(domain, types, message);
+  return { permit, proof: encodeReceiverPermit(permit, signature) };
+}
@@ -0,0 +1,120 @@
+import { readFileSync } from "fs";
+import { AbiCoder, concat, getAddress, isAddress, keccak256 } from "ethers";
+
+/**
+ * Leaf of `account`, matching MerkleEligibility.leaf()
+ */
+export function allowlistLeaf(account: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [account])));
+}
+
+// Sorted-pair hashing, as in OpenZeppelin's MerkleProof
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Merkle tree over an allowlist of addresses, verifiable by MerkleEligibility.
+ * Duplicates are ignored and leaves are sorted, so the same list always gives the same root.
+ */
+export class AllowlistTree {
+  readonly root: string;
+  readonly accounts: string[];
+  private readonly layers: string[][];
+  private readonly leafIndex = new Map<string, number>();
+
+  constructor(accounts: string[]) {
+    const unique = [...new Set(accounts.map((account) => getAddress(account)))];
+    if (unique.length === 0) throw new Error("Allowlist is empty");
+
+    const leaves = unique.map((account) => ({ account, leaf: allowlistLeaf(account) }));
+    leaves.sort((a, b) => (BigInt(a.leaf) < BigInt(b.leaf) ? -1 : 1));
+    leaves.forEach(({ account }, i) => this.leafIndex.set(account, i));
+    this.accounts = leaves.map(({ account }) => account);
+
+    // An odd node at the end of a layer moves up unchanged
+    this.layers = [leaves.map(({ leaf }) => leaf)];
+    for (let layer = this.layers[0]; layer.length > 1; ) {
+      const next: string[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+      }
+      this.layers.push(next);
+      layer = next;
+    }
+    this.root = this.layers[this.layers.length - 1][0];
+  }
+
+  has(account: string): boolean {
+    return this.leafIndex.has(getAddress(account));
+  }
+
+  /**
+   * Sibling hashes from the account's leaf up to the root
+   */
+  getProof(account: string): string[] {
+    let index = this.leafIndex.get(getAddress(account));
+    if (index === undefined) throw new Error(`${account} is not in the allowlist`);
+
+    const proof: string[] = [];
+    for (const layer of this.layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  }
+
+  /**
+   * Proof encoded for pool.enterReceiverPoolWithProof()
+   */
+  encodeProof(account: string): string {
+    return AbiCoder.defaultAbiCoder().encode(["bytes32[]"], [this.getProof(account)]);
+  }
+
+  /**
+   * Root plus every account's proof, for publishing alongside a root rotation
+   */
+  toJSON(): { root: string; proofs: Record<string, string> } {
+    const proofs: Record<string, string> = {};
+    for (const account of this.accounts) proofs[account] = this.encodeProof(account);
+    return { root: this.root, proofs };
+  }
+}
+
+/**
+ * Reads addresses from a JSON array (of addresses or of objects with an `address` field)
+ * or from a CSV whose `address` column, or first column, holds the addresses. Other
+ * columns, such as a Farcaster FID, are ignored.
+ */
+export function parseAllowlist(content: string, format: "csv" | "json"): string[] {
+  if (format === "json") {
+    const entries = JSON.parse(content);
+    if (!Array.isArray(entries)) throw new Error("Allowlist JSON must be an array");
+    return entries.map((entry) => getAddress(typeof entry === "string" ? entry : entry.address));
+  }
+
+  const rows = content
+    .split(/\r?\n/)
+    .map((line) => line.split(",").map((cell) => cell.trim()))
+    .filter((row) => row[0] !== "");
+  if (rows.length === 0) return [];
+
+  // A header row names the columns instead of holding an address
+  let column = 0;
+  if (!rows[0].some((cell) => isAddress(cell))) {
+    const header = rows.shift()!.map((cell) => cell.toLowerCase());
+    column = Math.max(header.indexOf("address"), 0);
+  }
+  return rows.map((row, i) => {
+    if (!isAddress(row[column])) throw new Error(`Row ${i + 1}: "${row[column]}" is not an address`);
+    return getAddress(row[column]);
+  });
+}
+
+/**
+ * Reads an allowlist file, choosing the format from its extension
+ */
+export function readAllowlist(path: string): string[] {
+  return parseAllowlist(readFileSync(path, "utf8"), path.toLowerCase().endsWith(".json") ? "json" : "csv");
+}
@@ -0,0 +1,137 @@
+import { BytesLike, ContractTransactionReceipt, Interface, ZeroHash, id } from "ethers";
+import { KindnessTimelock, Pool, SponsorMatching, TimeBasedDistributor, UserRegistry } from "../../typechain-types";
+
+// Mirrors TimelockController.OperationState
+export enum OperationState {
+  Unset,
+  Waiting,
+  Ready,
+  Done,
+}
+
+export interface TimelockAction {
+  target: string;
+  data: BytesLike;
+  value?: bigint;
+  // Operation that must be executed first, ZeroHash for none
+  predecessor?: BytesLike;
+  // Distinguishes otherwise identical operations
+  salt?: BytesLike;
+}
+
+export interface OperationStatus {
+  id: string;
+  state: OperationState;
+  // Timestamp from which the operation can be executed, 0 if it is not scheduled
+  readyAt: bigint;
+}
+
+/**
+ * Encodes a call for a timelock action, e.g. encodeCall(pool.interface, "emergencyStopDistribution")
+ */
+export function encodeCall(iface: Interface, method: string, args: readonly unknown[] = []): string {
+  return iface.encodeFunctionData(method, args);
+}
+
+/**
+ * Converts a free-form label into a salt so operators can schedule the same call twice
+ */
+export function saltFromLabel(label?: string): string {
+  return label ? id(label) : ZeroHash;
+}
+
+/**
+ * Queues, executes and cancels single-call operations on a KindnessTimelock.
+ * The signer needs PROPOSER_ROLE to queue, CANCELLER_ROLE to cancel and EXECUTOR_ROLE to execute.
+ */
+export class TimelockOperator {
+  constructor(readonly timelock: KindnessTimelock) {}
+
+  async getOperationId(action: TimelockAction): Promise<string> {
+    return this.timelock.hashOperation(
+      action.target,
+      action.value ?? 0n,
+      action.data,
+      action.predecessor ?? ZeroHash,
+      action.salt ?? ZeroHash
+    );
+  }
+
+  async getStatus(action: TimelockAction): Promise<OperationStatus> {
+    const operationId = await this.getOperationId(action);
+    const [state, timestamp] = await Promise.all([
+      this.timelock.getOperationState(operationId),
+      this.timelock.getTimestamp(operationId),
+    ]);
+    // A done operation stores timestamp 1, which is not meaningful to callers
+    return { id: operationId, state: Number(state), readyAt: Number(state) === OperationState.Done ? 0n : timestamp };
+  }
+
+  /**
+   * Schedules the action after `delay` seconds (defaults to the timelock's minimum delay)
+   */
+  async queue(action: TimelockAction, delay?: bigint): Promise<ContractTransactionReceipt | null> {
+    const tx = await this.timelock.schedule(
+      action.target,
+      action.value ?? 0n,
+      action.data,
+      action.predecessor ?? ZeroHash,
+      action.salt ?? ZeroHash,
+      delay ?? (await this.timelock.getMinDelay())
+    );
+    return tx.wait();
+  }
+
+  async execute(action: TimelockAction): Promise<ContractTransactionReceipt | null> {
+    const tx = await this.timelock.execute(
+      action.target,
+      action.value ?? 0n,
+      action.data,
+      action.predecessor ?? ZeroHash,
+      action.salt ?? ZeroHash,
+      { value: action.value ?? 0n }
+    );
+    return tx.wait();
+  }
+
+  async cancel(action: TimelockAction): Promise<ContractTransactionReceipt | null> {
+    const tx = await this.timelock.cancel(await this.getOperationId(action));
+    return tx.wait();
+  }
+}
+
+/**
+ * Hands every admin permission held by `admin` over to the timelock:
+ * DEFAULT_ADMIN_ROLE on Pool, TimeBasedDistributor and SponsorMatching (if deployed) and
+ * ownership of UserRegistry.
+ * After this, admin actions (emergency stops, setPool, updateSystem, role grants)
+ * can only be performed through timelock operations.
+ */
+export async function transferAdminToTimelock(
+  contracts: {
+    pool: Pool;
+    distributor: TimeBasedDistributor;
+    userRegistry: UserRegistry;
+    sponsorMatching?: SponsorMatching;
+  },
+  timelockAddress: string,
+  admin: string
+) {
+  const { pool, distributor, userRegistry, sponsorMatching } = contracts;
+
+  const poolAdminRole = await pool.DEFAULT_ADMIN_ROLE();
+  await (await pool.grantRole(poolAdminRole, timelockAddress)).wait();
+  await (await pool.renounceRole(poolAdminRole, admin)).wait();
+
+  const distributorAdminRole = await distributor.DEFAULT_ADMIN_ROLE();
+  await (await distributor.grantRole(distributorAdminRole, timelockAddress)).wait();
+  await (await distributor.renounceRole(distributorAdminRole, admin)).wait();
+
+  if (sponsorMatching) {
+    const matchingAdminRole = await sponsorMatching.DEFAULT_ADMIN_ROLE();
+    await (await sponsorMatching.grantRole(matchingAdminRole, timelockAddress)).wait();
+    await (await sponsorMatching.renounceRole(matchingAdminRole, admin)).wait();
+  }
+
+  await (await userRegistry.transferOwnership(timelockAddress)).wait();
+}
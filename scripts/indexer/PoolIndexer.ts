@@ -0,0 +1,457 @@
+import { Interface, Log, Provider, ZeroAddress, getAddress } from "ethers";
+import { Pool__factory, SponsorMatching__factory, UserRegistry__factory } from "../../typechain-types";
+import { poolDay } from "../utils/days";
+import { DayRecord, IndexState, IndexedEvent, IndexerStore, UserRecord } from "./store";
+
+// Events replayed into the index
+export const INDEXED_EVENTS = [
+  "KindnessGiven",
+  "ContributionWithdrawn",
+  "EnteredReceiverPool",
+  "LeftReceiverPool",
+  "KindnessReceived",
+  "TransferFailed",
+  "TransferRetried",
+  "KindnessCredited",
+  "KindnessClaimed",
+  "FailedTransferRedistributed",
+  "EmergencyWithdrawalCompleted",
+  "PayoutRedirected",
+  "PoolRefundable",
+  "RefundClaimed",
+  "BatchDistributed",
+  "UserStatsUpdated",
+  "ContributionMatched",
+  "MatchReversed",
+  // Only used to find the matchers to index
+  "ContributionMatcherUpdated",
+] as const;
+
+export interface PoolIndexerOptions {
+  poolAddress: string;
+  // Defaults to pool.userRegistry()
+  userRegistryAddress?: string;
+  // SponsorMatching contract set before startBlock. pool.contributionMatcher() and every matcher
+  // set by a ContributionMatcherUpdated event are indexed as well.
+  matcherAddress?: string;
+  // Defaults to pool.dayOffset(); fixed once the pool is in use
+  dayOffset?: number;
+  // First block to index when the store is empty
+  startBlock?: number;
+  // Number of blocks rolled back when a reorg is detected
+  reorgDepth?: number;
+  // Maximum block range per eth_getLogs request
+  batchSize?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  rolledBackTo?: number;
+}
+
+/**
+ * Replays Pool, UserRegistry and SponsorMatching events into per-day and per-user records.
+ * The store keeps a block cursor so syncing resumes where it stopped.
+ */
+export class PoolIndexer {
+  private readonly poolInterface = Pool__factory.createInterface();
+  private readonly interfaces: Interface[] = [
+    this.poolInterface,
+    UserRegistry__factory.createInterface(),
+    SponsorMatching__factory.createInterface(),
+  ];
+  private readonly reorgDepth: number;
+  private readonly batchSize: number;
+  private userRegistryAddress?: string;
+  private dayOffset?: number;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly store: IndexerStore,
+    private readonly options: PoolIndexerOptions
+  ) {
+    this.reorgDepth = options.reorgDepth ?? 12;
+    this.batchSize = options.batchSize ?? 2000;
+    this.userRegistryAddress = options.userRegistryAddress;
+    this.dayOffset = options.dayOffset;
+    if (this.reorgDepth < 1) throw new Error("reorgDepth must be at least 1");
+  }
+
+  /**
+   * Returns the stored state, or an empty state positioned before startBlock
+   */
+  async getState(): Promise<IndexState> {
+    return (await this.store.load()) ?? emptyState((this.options.startBlock ?? 0) - 1);
+  }
+
+  /**
+   * Indexes all blocks after the stored cursor up to `toBlock` (default: latest)
+   */
+  async sync(toBlock?: number): Promise<SyncResult> {
+    let state = await this.getState();
+    const rolledBackTo = await this.rollbackReorgs(state);
+
+    const target = toBlock ?? (await this.provider.getBlockNumber());
+    const fromBlock = state.cursor + 1;
+    if (target < fromBlock) {
+      if (rolledBackTo !== undefined) await this.store.save(rebuild(state));
+      return { fromBlock, toBlock: state.cursor, newEvents: 0, rolledBackTo };
+    }
+
+    const addresses = [this.options.poolAddress, await this.getUserRegistryAddress()];
+    const matchers = await this.getKnownMatchers(state);
+    const timestamps = new Map<number, number>();
+    let newEvents = 0;
+
+    for (let start = fromBlock; start <= target; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, target);
+      const logs = await this.provider.getLogs({ address: addresses, fromBlock: start, toBlock: end });
+
+      // A matcher set in this batch may already match contributions in it
+      for (const log of logs) {
+        const matcher = this.matcherSetBy(log);
+        if (matcher) matchers.add(matcher);
+      }
+      if (matchers.size > 0) {
+        logs.push(...(await this.provider.getLogs({ address: [...matchers], fromBlock: start, toBlock: end })));
+        logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      }
+
+      for (const log of logs) {
+        const event = await this.decode(log, timestamps);
+        if (!event) continue;
+        state.events.push(event);
+        rememberBlock(state, event.blockNumber, event.blockHash);
+        newEvents++;
+      }
+    }
+
+    const tip = await this.provider.getBlock(target);
+    if (!tip?.hash) throw new Error(`Block ${target} not found`);
+    rememberBlock(state, target, tip.hash);
+    state.cursor = target;
+    state.recentBlocks = state.recentBlocks.filter((block) => block.number > target - this.reorgDepth * 2);
+
+    state = rebuild(state);
+    await this.store.save(state);
+    return { fromBlock, toBlock: target, newEvents, rolledBackTo };
+  }
+
+  /**
+   * Compares stored block hashes with the chain and rolls the state back by
+   * `reorgDepth` blocks until the newest remembered block matches again
+   */
+  private async rollbackReorgs(state: IndexState): Promise<number | undefined> {
+    let rolledBackTo: number | undefined;
+
+    for (;;) {
+      const latestKnown = state.recentBlocks[state.recentBlocks.length - 1];
+      if (!latestKnown) return rolledBackTo;
+
+      const block = await this.provider.getBlock(latestKnown.number);
+      if (block?.hash === latestKnown.hash) return rolledBackTo;
+
+      const target = Math.max(Math.min(state.cursor, latestKnown.number) - this.reorgDepth, (this.options.startBlock ?? 0) - 1);
+      state.cursor = target;
+      state.events = state.events.filter((event) => event.blockNumber <= target);
+      state.recentBlocks = state.recentBlocks.filter((known) => known.number <= target);
+      rolledBackTo = target;
+    }
+  }
+
+  private async decode(log: Log, timestamps: Map<number, number>): Promise<IndexedEvent | undefined> {
+    for (const iface of this.interfaces) {
+      const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+      if (!(INDEXED_EVENTS as readonly string[]).includes(parsed.name)) return undefined;
+
+      const args: Record<string, string | boolean> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        const value = parsed.args[i];
+        args[input.name] = typeof value === "boolean" ? value : value.toString();
+      });
+
+      let timestamp = timestamps.get(log.blockNumber);
+      if (timestamp === undefined) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        if (!block) throw new Error(`Block ${log.blockNumber} not found`);
+        timestamp = block.timestamp;
+        timestamps.set(log.blockNumber, timestamp);
+      }
+
+      return {
+        name: parsed.name,
+        address: log.address,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        timestamp,
+        day: poolDay(timestamp, await this.getDayOffset()),
+        args,
+      };
+    }
+    return undefined;
+  }
+
+  private async getUserRegistryAddress(): Promise<string> {
+    if (!this.userRegistryAddress) {
+      this.userRegistryAddress = await Pool__factory.connect(this.options.poolAddress, this.provider).userRegistry();
+    }
+    return this.userRegistryAddress;
+  }
+
+  /**
+   * Every matcher the pool has used: the configured one, those set by indexed
+   * ContributionMatcherUpdated events and the current one, re-read on each sync
+   */
+  private async getKnownMatchers(state: IndexState): Promise<Set<string>> {
+    const current = await Pool__factory.connect(this.options.poolAddress, this.provider).contributionMatcher();
+    const candidates = [
+      this.options.matcherAddress,
+      current,
+      ...state.events
+        .filter((event) => event.name === "ContributionMatcherUpdated")
+        .map((event) => event.args.matcher as string),
+    ];
+    const matchers = candidates.filter((address): address is string => !!address && address !== ZeroAddress);
+    return new Set(matchers.map((address) => getAddress(address)));
+  }
+
+  private matcherSetBy(log: Log): string | undefined {
+    if (log.topics[0] !== this.poolInterface.getEvent("ContributionMatcherUpdated")!.topicHash) return undefined;
+    const matcher = this.poolInterface.parseLog({ topics: [...log.topics], data: log.data })!.args.matcher as string;
+    return matcher === ZeroAddress ? undefined : getAddress(matcher);
+  }
+
+  private async getDayOffset(): Promise<number> {
+    if (this.dayOffset === undefined) {
+      this.dayOffset = Number(await Pool__factory.connect(this.options.poolAddress, this.provider).dayOffset());
+    }
+    return this.dayOffset;
+  }
+}
+
+function emptyState(cursor: number): IndexState {
+  return { cursor, recentBlocks: [], events: [], days: {}, users: {} };
+}
+
+function rememberBlock(state: IndexState, number: number, hash: string) {
+  const last = state.recentBlocks[state.recentBlocks.length - 1];
+  if (last?.number === number) return;
+  state.recentBlocks.push({ number, hash });
+}
+
+/**
+ * Rebuilds the day and user records from the raw event list
+ */
+export function rebuild(state: IndexState): IndexState {
+  const days: Record<string, DayRecord> = {};
+  const users: Record<string, UserRecord> = {};
+
+  const dayOf = (day: number): DayRecord =>
+    (days[day] ??= {
+      day,
+      totalGiven: "0",
+      totalWithdrawn: "0",
+      totalReceived: "0",
+      totalFailed: "0",
+      totalRetried: "0",
+      totalClaimed: "0",
+      totalRedistributed: "0",
+      totalEmergencyWithdrawn: "0",
+      totalRedirected: "0",
+      totalMatched: "0",
+      totalRefundable: "0",
+      totalRefunded: "0",
+      givers: [],
+      receivers: [],
+      failedReceivers: [],
+      receiverPoolEntries: 0,
+      receiverPoolExits: 0,
+      batches: 0,
+      distributionCompleted: false,
+    });
+
+  const userOf = (address: string, day: number): UserRecord => {
+    const user = (users[address] ??= {
+      address,
+      totalGiven: "0",
+      totalWithdrawn: "0",
+      totalReceived: "0",
+      pendingFailedAmount: "0",
+      claimableAmount: "0",
+      totalRedirected: "0",
+      totalMatched: "0",
+      totalRefunded: "0",
+      timesReceived: 0,
+      receiverPoolEntries: 0,
+      receiverPoolExits: 0,
+      inReceiverPool: false,
+      lastActiveDay: day,
+      registryTotalGiven: "0",
+      registryTotalReceived: "0",
+      registryNetAmount: "0",
+    });
+    user.lastActiveDay = day;
+    return user;
+  };
+
+  const sorted = [...state.events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  const distributionTxs = new Set(
+    sorted.filter((event) => event.name === "BatchDistributed").map((event) => event.transactionHash)
+  );
+
+  for (const event of sorted) {
+    // Admin changes that do not belong to any day's activity
+    if (event.name === "ContributionMatcherUpdated") continue;
+    const day = dayOf(event.day);
+    const { args } = event;
+
+    switch (event.name) {
+      case "KindnessGiven": {
+        const user = userOf(args.giver as string, event.day);
+        day.totalGiven = add(day.totalGiven, args.amount);
+        user.totalGiven = add(user.totalGiven, args.amount);
+        addUnique(day.givers, user.address);
+        break;
+      }
+      case "ContributionWithdrawn": {
+        const user = userOf(args.user as string, event.day);
+        day.totalWithdrawn = add(day.totalWithdrawn, args.amount);
+        user.totalWithdrawn = add(user.totalWithdrawn, args.amount);
+        break;
+      }
+      case "EnteredReceiverPool": {
+        const user = userOf(args.receiver as string, event.day);
+        day.receiverPoolEntries++;
+        user.receiverPoolEntries++;
+        user.inReceiverPool = true;
+        break;
+      }
+      case "LeftReceiverPool": {
+        const user = userOf(args.receiver as string, event.day);
+        day.receiverPoolExits++;
+        user.receiverPoolExits++;
+        user.inReceiverPool = false;
+        break;
+      }
+      case "KindnessReceived": {
+        const user = userOf(args.receiver as string, event.day);
+        day.totalReceived = add(day.totalReceived, args.amount);
+        user.totalReceived = add(user.totalReceived, args.amount);
+        user.timesReceived++;
+        user.inReceiverPool = false;
+        addUnique(day.receivers, user.address);
+        break;
+      }
+      case "TransferFailed": {
+        const user = userOf(args.receiver as string, event.day);
+        day.totalFailed = add(day.totalFailed, args.amount);
+        // Failures during a distribution add to the pending entry; a failed emergency
+        // withdrawal re-records the whole pending amount
+        user.pendingFailedAmount = distributionTxs.has(event.transactionHash)
+          ? add(user.pendingFailedAmount, args.amount)
+          : (args.amount as string);
+        user.inReceiverPool = false;
+        addUnique(day.failedReceivers, user.address);
+        break;
+      }
+      case "TransferRetried": {
+        const user = userOf(args.receiver as string, event.day);
+        if (args.success === true) {
+          day.totalRetried = add(day.totalRetried, args.amount);
+          user.pendingFailedAmount = "0";
+        }
+        break;
+      }
+      case "KindnessCredited": {
+        // Claim-mode share: counted as received when credited, paid out on claim
+        const user = userOf(args.receiver as string, event.day);
+        day.totalReceived = add(day.totalReceived, args.amount);
+        user.totalReceived = add(user.totalReceived, args.amount);
+        user.claimableAmount = add(user.claimableAmount, args.amount);
+        user.timesReceived++;
+        user.inReceiverPool = false;
+        addUnique(day.receivers, user.address);
+        break;
+      }
+      case "KindnessClaimed": {
+        const user = userOf(args.receiver as string, event.day);
+        day.totalClaimed = add(day.totalClaimed, args.amount);
+        user.claimableAmount = subtract(user.claimableAmount, args.amount);
+        break;
+      }
+      case "FailedTransferRedistributed": {
+        const user = userOf(args.receiver as string, event.day);
+        day.totalRedistributed = add(day.totalRedistributed, args.amount);
+        user.pendingFailedAmount = "0";
+        break;
+      }
+      case "EmergencyWithdrawalCompleted": {
+        const user = userOf(args.receiver as string, event.day);
+        day.totalEmergencyWithdrawn = add(day.totalEmergencyWithdrawn, args.amount);
+        user.pendingFailedAmount = "0";
+        break;
+      }
+      case "PayoutRedirected": {
+        // Follows the TransferRetried or EmergencyWithdrawalCompleted that paid the redirect
+        const user = userOf(args.receiver as string, event.day);
+        day.totalRedirected = add(day.totalRedirected, args.amount);
+        user.totalRedirected = add(user.totalRedirected, args.amount);
+        break;
+      }
+      case "PoolRefundable": {
+        day.totalRefundable = add(day.totalRefundable, args.amount);
+        break;
+      }
+      case "RefundClaimed": {
+        const user = userOf(args.giver as string, event.day);
+        day.totalRefunded = add(day.totalRefunded, args.amount);
+        user.totalRefunded = add(user.totalRefunded, args.amount);
+        break;
+      }
+      case "ContributionMatched": {
+        const user = userOf(args.giver as string, event.day);
+        day.totalMatched = add(day.totalMatched, args.amount);
+        user.totalMatched = add(user.totalMatched, args.amount);
+        break;
+      }
+      case "MatchReversed": {
+        // Reversals only take back matches from the same pool day
+        const user = userOf(args.giver as string, event.day);
+        day.totalMatched = subtract(day.totalMatched, args.amount);
+        user.totalMatched = subtract(user.totalMatched, args.amount);
+        break;
+      }
+      case "BatchDistributed": {
+        day.batches++;
+        if (args.processedCount === args.totalReceivers) day.distributionCompleted = true;
+        break;
+      }
+      case "UserStatsUpdated": {
+        const user = userOf(args.user as string, event.day);
+        user.registryTotalGiven = args.totalGiven as string;
+        user.registryTotalReceived = args.totalReceived as string;
+        user.registryNetAmount = args.netAmount as string;
+        break;
+      }
+    }
+  }
+
+  return { ...state, days, users };
+}
+
+function add(a: string, b: string | boolean): string {
+  return (BigInt(a) + BigInt(b as string)).toString();
+}
+
+function subtract(a: string, b: string | boolean): string {
+  return (BigInt(a) - BigInt(b as string)).toString();
+}
+
+function addUnique(list: string[], value: string) {
+  if (!list.includes(value)) list.push(value);
+}
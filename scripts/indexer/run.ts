@@ -0,0 +1,44 @@
+import { ethers } from "hardhat";
+import { PoolIndexer } from "./PoolIndexer";
+import { JsonFileIndexerStore } from "./store";
+
+/**
+ * Indexes Pool events into a JSON file.
+ *
+ * POOL_ADDRESS=0x... npx hardhat run scripts/indexer/run.ts --network base-sepolia
+ *
+ * Optional: INDEXER_STORE (default ./indexer/pool-index.json), INDEXER_START_BLOCK,
+ * INDEXER_REORG_DEPTH, INDEXER_POLL_INTERVAL (seconds, keeps running when set)
+ */
+async function main() {
+  const poolAddress = process.env.POOL_ADDRESS;
+  if (!poolAddress) {
+    throw new Error("POOL_ADDRESS is required");
+  }
+
+  const store = new JsonFileIndexerStore(process.env.INDEXER_STORE || "./indexer/pool-index.json");
+  const indexer = new PoolIndexer(ethers.provider, store, {
+    poolAddress,
+    startBlock: process.env.INDEXER_START_BLOCK ? Number(process.env.INDEXER_START_BLOCK) : undefined,
+    reorgDepth: process.env.INDEXER_REORG_DEPTH ? Number(process.env.INDEXER_REORG_DEPTH) : undefined,
+  });
+
+  const pollInterval = Number(process.env.INDEXER_POLL_INTERVAL || 0);
+
+  do {
+    const result = await indexer.sync();
+    if (result.rolledBackTo !== undefined) {
+      console.log(`Reorg detected, rolled back to block ${result.rolledBackTo}`);
+    }
+    console.log(`Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.newEvents} new events`);
+
+    if (pollInterval > 0) {
+      await new Promise((resolve) => setTimeout(resolve, pollInterval * 1000));
+    }
+  } while (pollInterval > 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,130 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * A decoded Pool, UserRegistry or SponsorMatching event. Numeric arguments are stored as
+ * decimal strings so the state can round-trip through JSON.
+ */
+export interface IndexedEvent {
+  name: string;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  day: number;
+  args: Record<string, string | boolean>;
+}
+
+export interface DayRecord {
+  day: number;
+  totalGiven: string;
+  totalWithdrawn: string;
+  totalReceived: string;
+  totalFailed: string;
+  totalRetried: string;
+  // Claim-mode shares withdrawn with claim()/claimTo()
+  totalClaimed: string;
+  // Failed transfers moved back into the daily pool after exhausting their retries
+  totalRedistributed: string;
+  // Failed transfers paid out with completeEmergencyWithdrawal
+  totalEmergencyWithdrawn: string;
+  // Retries and emergency withdrawals paid to a payout redirect instead of the receiver
+  totalRedirected: string;
+  // Sponsor matches added to the daily pool, net of reversals on withdrawal
+  totalMatched: string;
+  // Contributions made claimable with claimRefund under the refund empty-day policy
+  totalRefundable: string;
+  totalRefunded: string;
+  givers: string[];
+  receivers: string[];
+  failedReceivers: string[];
+  receiverPoolEntries: number;
+  receiverPoolExits: number;
+  batches: number;
+  distributionCompleted: boolean;
+}
+
+export interface UserRecord {
+  address: string;
+  totalGiven: string;
+  totalWithdrawn: string;
+  totalReceived: string;
+  pendingFailedAmount: string;
+  // Claim-mode shares credited but not yet claimed
+  claimableAmount: string;
+  // Failed transfers paid to the user's payout redirect
+  totalRedirected: string;
+  // Sponsor matches of the user's contributions, net of reversals
+  totalMatched: string;
+  totalRefunded: string;
+  timesReceived: number;
+  receiverPoolEntries: number;
+  receiverPoolExits: number;
+  inReceiverPool: boolean;
+  lastActiveDay: number;
+  // Latest totals reported by UserRegistry.UserStatsUpdated
+  registryTotalGiven: string;
+  registryTotalReceived: string;
+  registryNetAmount: string;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+export interface IndexState {
+  // Last block whose events are included in the state
+  cursor: number;
+  // Hashes of recently indexed blocks, used to detect reorgs
+  recentBlocks: IndexedBlock[];
+  events: IndexedEvent[];
+  days: Record<string, DayRecord>;
+  users: Record<string, UserRecord>;
+}
+
+export interface IndexerStore {
+  load(): Promise<IndexState | undefined>;
+  save(state: IndexState): Promise<void>;
+}
+
+/**
+ * Keeps the index in memory (useful for tests and short-lived processes)
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private state?: IndexState;
+
+  async load(): Promise<IndexState | undefined> {
+    return this.state ? structuredClone(this.state) : undefined;
+  }
+
+  async save(state: IndexState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Persists the index as a single JSON file
+ */
+export class JsonFileIndexerStore implements IndexerStore {
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<IndexState | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8")) as IndexState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async save(state: IndexState): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temporary file first so a crash never leaves a truncated index
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(state, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
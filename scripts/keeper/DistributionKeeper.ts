@@ -0,0 +1,294 @@
+import { ContractTransactionReceipt } from "ethers";
+import { KindnessSubscriptions, Pool } from "../../typechain-types";
+
+export interface KeeperOptions {
+  // Upper bound on the time between passes in long-running mode
+  pollIntervalSeconds?: number;
+  // Maximum waitlisted users promoted per transaction
+  promoteBatchSize?: number;
+  // Recurring giving contract whose due subscriptions are executed before distributing
+  subscriptions?: KindnessSubscriptions;
+  // Maximum subscriptions executed per transaction
+  subscriptionBatchSize?: number;
+  // Injected for tests; defaults to setTimeout
+  sleep?: (seconds: number) => Promise<void>;
+  log?: (message: string) => void;
+}
+
+export interface KeeperPassResult {
+  subscriptionsExecuted: number;
+  promoted: number;
+  started: boolean;
+  batches: number;
+  completed: boolean;
+  rolledOver: boolean;
+  retried: boolean;
+}
+
+export interface BatchProgress {
+  batchSize: bigint;
+  processedCount: bigint;
+  totalReceivers: bigint;
+}
+
+/**
+ * Drives the daily batched distribution to completion and retries failed
+ * transfers once their cooldown has expired. The signer needs DISTRIBUTOR_ROLE on the pool.
+ */
+export class DistributionKeeper {
+  private readonly pollIntervalSeconds: number;
+  private readonly promoteBatchSize: number;
+  private readonly subscriptions?: KindnessSubscriptions;
+  private readonly subscriptionBatchSize: number;
+  private readonly sleep: (seconds: number) => Promise<void>;
+  private readonly log: (message: string) => void;
+  private stopped = false;
+
+  constructor(
+    readonly pool: Pool,
+    options: KeeperOptions = {}
+  ) {
+    this.pollIntervalSeconds = options.pollIntervalSeconds ?? 60;
+    this.promoteBatchSize = options.promoteBatchSize ?? 50;
+    this.subscriptions = options.subscriptions;
+    this.subscriptionBatchSize = options.subscriptionBatchSize ?? 50;
+    this.sleep = options.sleep ?? ((seconds) => new Promise((resolve) => setTimeout(resolve, seconds * 1000)));
+    this.log = options.log ?? console.log;
+  }
+
+  /**
+   * Runs a single keeper pass: executes due subscriptions, promotes waitlisted users, finishes
+   * or starts the distribution, then retries failed transfers
+   */
+  async runOnce(): Promise<KeeperPassResult> {
+    const result: KeeperPassResult = {
+      subscriptionsExecuted: await this.executeSubscriptions(),
+      promoted: await this.promoteWaitlist(),
+      started: false,
+      batches: 0,
+      completed: false,
+      rolledOver: false,
+      retried: false,
+    };
+
+    if (await this.pool.distributionInProgress()) {
+      this.log("Resuming distribution in progress");
+      result.batches += await this.finishDistribution();
+      result.completed = true;
+    } else if (await this.canStartDistribution()) {
+      this.log("Starting distribution");
+      const receipt = await (await this.pool.startDistribution()).wait();
+      result.started = true;
+      result.batches++;
+
+      const progress = this.getBatchProgress(receipt);
+      if (progress && progress.processedCount !== progress.totalReceivers) {
+        result.batches += await this.finishDistribution();
+      }
+      result.completed = true;
+    } else if (await this.canRollOverPool()) {
+      this.log("Pool cannot be distributed today, applying the empty-day policy");
+      await (await this.pool.rollOverPool()).wait();
+      result.rolledOver = true;
+    }
+
+    // autoRetryFailedTransfers also moves exhausted transfers back into the daily pool
+    const redistributable = (await this.pool.distributionInProgress()) ? [] : await this.getExhaustedReceivers();
+    if ((await this.getRetryableReceivers()).length > 0 || redistributable.length > 0) {
+      this.log("Retrying failed transfers");
+      await (await this.pool.autoRetryFailedTransfers()).wait();
+      result.retried = true;
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs passes until stop() is called, sleeping until the next distribution
+   * time or retry deadline (capped by the polling interval)
+   */
+  async run(): Promise<void> {
+    this.stopped = false;
+    while (!this.stopped) {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        this.log(`Keeper pass failed: ${error}`);
+      }
+      if (this.stopped) break;
+      await this.sleep(await this.getSecondsUntilNextAction());
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+
+  /**
+   * Seconds until the distribution window opens or a failed transfer becomes retryable
+   */
+  async getSecondsUntilNextAction(): Promise<number> {
+    const now = await this.getBlockTimestamp();
+    let wakeAt = now + BigInt(this.pollIntervalSeconds);
+
+    const nextDistribution = await this.pool.getNextDistributionTime();
+    if (nextDistribution > now && nextDistribution < wakeAt) wakeAt = nextDistribution;
+
+    const nextRetry = await this.getNextRetryTime();
+    if (nextRetry !== undefined && nextRetry > now && nextRetry < wakeAt) wakeAt = nextRetry;
+
+    return Math.max(Number(wakeAt - now), 1);
+  }
+
+  /**
+   * Moves users waitlisted on earlier days into free receiver slots, returning how many moved
+   */
+  async promoteWaitlist(): Promise<number> {
+    let promoted = 0;
+    while ((await this.pool.waitlistLength()) > 0n) {
+      const count = await this.pool.promoteWaitlist.staticCall(this.promoteBatchSize);
+      if (count === 0n) {
+        // Entries of users who left count against the batch; clear them only if someone behind them can be promoted
+        const entries = await this.pool.getWaitlistEntryCount();
+        if ((await this.pool.promoteWaitlist.staticCall(entries)) === 0n) break;
+        this.log(`Clearing ${this.promoteBatchSize} waitlist entries of users who left`);
+      } else {
+        this.log(`Promoting ${count} waitlisted receivers`);
+      }
+      await (await this.pool.promoteWaitlist(this.promoteBatchSize)).wait();
+      promoted += Number(count);
+    }
+    return promoted;
+  }
+
+  /**
+   * Visits every subscriber not yet visited today, contributing for the due subscriptions and
+   * returning how many were processed
+   */
+  async executeSubscriptions(): Promise<number> {
+    if (!this.subscriptions) return 0;
+    let processed = 0;
+    let unvisited = await this.subscriptions.getUnvisitedCount();
+    while (unvisited > 0n) {
+      const count = await this.subscriptions.executeSubscriptions.staticCall(this.subscriptionBatchSize);
+      if (count > 0n) this.log(`Executing ${count} subscriptions`);
+      await (await this.subscriptions.executeSubscriptions(this.subscriptionBatchSize)).wait();
+      processed += Number(count);
+
+      // Stop if the transaction ran out of gas before visiting anyone
+      const remaining = await this.subscriptions.getUnvisitedCount();
+      if (remaining >= unvisited) break;
+      unvisited = remaining;
+    }
+    return processed;
+  }
+
+  /**
+   * Addresses whose failed transfer can be retried now
+   */
+  async getRetryableReceivers(): Promise<string[]> {
+    const now = await this.getBlockTimestamp();
+    const retryable: string[] = [];
+    for (const { receiver, eligibleAt } of await this.getPendingRetries()) {
+      if (eligibleAt <= now) retryable.push(receiver);
+    }
+    return retryable;
+  }
+
+  /**
+   * Addresses whose failed transfer used up all retries and can be redistributed
+   */
+  async getExhaustedReceivers(): Promise<string[]> {
+    const [maxRetries, receivers] = await Promise.all([this.pool.MAX_RETRIES(), this.pool.getFailedTransfers()]);
+    const exhausted: string[] = [];
+    for (const receiver of receivers) {
+      const failed = await this.pool.failedTransfers(receiver);
+      if (failed.amount > 0n && failed.retryCount >= maxRetries) exhausted.push(receiver);
+    }
+    return exhausted;
+  }
+
+  private async getNextRetryTime(): Promise<bigint | undefined> {
+    let next: bigint | undefined;
+    for (const { eligibleAt } of await this.getPendingRetries()) {
+      if (next === undefined || eligibleAt < next) next = eligibleAt;
+    }
+    return next;
+  }
+
+  private async getPendingRetries(): Promise<{ receiver: string; eligibleAt: bigint }[]> {
+    const [maxRetries, retryCooldown, receivers] = await Promise.all([
+      this.pool.MAX_RETRIES(),
+      this.pool.RETRY_COOLDOWN(),
+      this.pool.getFailedTransfers(),
+    ]);
+
+    const pending: { receiver: string; eligibleAt: bigint }[] = [];
+    for (const receiver of receivers) {
+      const failed = await this.pool.failedTransfers(receiver);
+      if (failed.amount === 0n || failed.retryCount >= maxRetries) continue;
+      // Same exponential backoff as Pool.autoRetryFailedTransfers
+      pending.push({ receiver, eligibleAt: failed.timestamp + retryCooldown * (1n << failed.retryCount) });
+    }
+    return pending;
+  }
+
+  private async canStartDistribution(): Promise<boolean> {
+    const { open, dailyPool, carryOver, receiverCount, minPoolBalance } = await this.getWindowState();
+    return open && dailyPool + carryOver >= minPoolBalance && receiverCount > 0n;
+  }
+
+  /**
+   * A pool that cannot be distributed (no receivers, or below the minimum) is moved to carryOver
+   */
+  private async canRollOverPool(): Promise<boolean> {
+    const { open, dailyPool, carryOver, receiverCount, minPoolBalance } = await this.getWindowState();
+    return open && dailyPool > 0n && (receiverCount === 0n || dailyPool + carryOver < minPoolBalance);
+  }
+
+  private async getWindowState() {
+    const [inWindow, distributedToday, dailyPool, carryOver, receiverCount, minPoolBalance] = await Promise.all([
+      this.pool.isWithinDistributionWindow(),
+      this.pool.hasDistributedToday(),
+      this.pool.dailyPool(),
+      this.pool.carryOver(),
+      this.pool.getReceiverCount(),
+      this.pool.MIN_POOL_BALANCE(),
+    ]);
+    return { open: inWindow && !distributedToday, dailyPool, carryOver, receiverCount, minPoolBalance };
+  }
+
+  /**
+   * Calls continueDistribution until BatchDistributed reports the run as complete
+   */
+  private async finishDistribution(): Promise<number> {
+    let batches = 0;
+    while (await this.pool.distributionInProgress()) {
+      const receipt = await (await this.pool.continueDistribution()).wait();
+      batches++;
+
+      const progress = this.getBatchProgress(receipt);
+      if (progress) {
+        this.log(`Processed batch of ${progress.batchSize} (${progress.processedCount}/${progress.totalReceivers})`);
+        if (progress.processedCount === progress.totalReceivers) break;
+      }
+    }
+    return batches;
+  }
+
+  private getBatchProgress(receipt: ContractTransactionReceipt | null): BatchProgress | undefined {
+    for (const log of receipt?.logs ?? []) {
+      const parsed = this.pool.interface.parseLog(log);
+      if (parsed?.name === "BatchDistributed") {
+        const [batchSize, processedCount, totalReceivers] = parsed.args;
+        return { batchSize, processedCount, totalReceivers };
+      }
+    }
+    return undefined;
+  }
+
+  private async getBlockTimestamp(): Promise<bigint> {
+    const block = await this.pool.runner!.provider!.getBlock("latest");
+    return BigInt(block!.timestamp);
+  }
+}
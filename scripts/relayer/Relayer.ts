@@ -0,0 +1,119 @@
+import { ContractTransactionResponse, Interface, Provider, concat, dataSlice, getAddress } from "ethers";
+import { KindnessForwarder, Pool, Pool__factory, UserRegistry__factory } from "../../typechain-types";
+import { decodeKindnessPoolError } from "../client/errors";
+import { ForwardRequestData } from "./forwardRequest";
+
+// User actions the relayer pays gas for by default. giveKindness is only gasless on a
+// TokenPool, since ETH contributions need value and the relayer never forwards value.
+export const POOL_RELAYED_FUNCTIONS = [
+  "giveKindness",
+  "enterReceiverPool",
+  "enterReceiverPoolWithProof",
+  "leaveReceiverPool",
+  "withdrawContribution",
+  "claim",
+  "claimTo",
+  "setPayoutRedirect",
+];
+export const USER_REGISTRY_RELAYED_FUNCTIONS = ["setName"];
+
+/**
+ * Thrown when the relayer refuses a request before submitting it
+ */
+export class RelayRejectedError extends Error {
+  constructor(readonly reason: "CallNotAllowed" | "ValueNotAllowed" | "GasLimitTooHigh" | "InvalidRequest") {
+    super(`Relayer rejected request: ${reason}`);
+    this.name = "RelayRejectedError";
+  }
+}
+
+export interface RelayerOptions {
+  // Target address => function selectors the relayer forwards
+  allowedCalls: Map<string, Set<string>>;
+  // Upper bound on the gas a request may ask for
+  maxGas?: bigint;
+}
+
+/**
+ * Submits signed ERC-2771 requests through the KindnessForwarder, paying their gas.
+ * Only allowlisted functions are relayed, and never with value, so the relayer cannot
+ * be used to fund contributions or make arbitrary calls. The call is simulated first so
+ * reverts surface as KindnessPoolError instead of the forwarder's generic FailedCall.
+ */
+export class Relayer {
+  private readonly allowedCalls: Map<string, Set<string>>;
+  private readonly maxGas: bigint;
+  private readonly provider: Provider;
+
+  constructor(
+    readonly forwarder: KindnessForwarder,
+    options: RelayerOptions
+  ) {
+    const provider = forwarder.runner?.provider;
+    if (!provider) throw new Error("Forwarder is not connected to a provider");
+    this.provider = provider;
+    this.allowedCalls = new Map([...options.allowedCalls].map(([target, selectors]) => [getAddress(target), selectors]));
+    this.maxGas = options.maxGas ?? 1_000_000n;
+  }
+
+  /**
+   * Creates a relayer for a pool's user actions and its UserRegistry's setName
+   */
+  static async forPool(forwarder: KindnessForwarder, pool: Pool, maxGas?: bigint): Promise<Relayer> {
+    const allowedCalls = new Map([
+      [await pool.getAddress(), selectors(Pool__factory.createInterface(), POOL_RELAYED_FUNCTIONS)],
+      [await pool.userRegistry(), selectors(UserRegistry__factory.createInterface(), USER_REGISTRY_RELAYED_FUNCTIONS)],
+    ]);
+    return new Relayer(forwarder, { allowedCalls, maxGas });
+  }
+
+  /**
+   * Checks a request against the allowlist and the forwarder without sending it
+   * @throws RelayRejectedError, or KindnessPoolError if the target call would revert
+   */
+  async check(request: ForwardRequestData): Promise<void> {
+    const allowed = this.allowedCalls.get(getAddress(request.to));
+    if (!allowed || request.data.length < 10 || !allowed.has(dataSlice(request.data, 0, 4))) {
+      throw new RelayRejectedError("CallNotAllowed");
+    }
+    if (BigInt(request.value) !== 0n) throw new RelayRejectedError("ValueNotAllowed");
+    if (BigInt(request.gas) > this.maxGas) throw new RelayRejectedError("GasLimitTooHigh");
+
+    // Rejects bad signatures, used nonces, expired requests and targets that do not trust the forwarder
+    if (!(await this.forwarder.verify(request))) throw new RelayRejectedError("InvalidRequest");
+
+    // Runs the call as the forwarder would, so the target's own revert reason is reported
+    try {
+      await this.provider.call({
+        from: await this.forwarder.getAddress(),
+        to: request.to,
+        data: concat([request.data, request.from]),
+        gasLimit: request.gas,
+      });
+    } catch (error) {
+      throw decodeKindnessPoolError(error);
+    }
+  }
+
+  /**
+   * Checks and submits a request, returning the relayer's transaction
+   */
+  async relay(request: ForwardRequestData): Promise<ContractTransactionResponse> {
+    await this.check(request);
+    try {
+      return await this.forwarder.execute(request);
+    } catch (error) {
+      throw decodeKindnessPoolError(error);
+    }
+  }
+}
+
+function selectors(iface: Interface, functions: string[]): Set<string> {
+  return new Set(
+    functions.map((name) => {
+      const fragment = iface.getFunction(name);
+      if (!fragment) throw new Error(`Unknown function ${name}`);
+      return fragment.selector;
+    })
+  );
+}
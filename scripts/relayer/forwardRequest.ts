@@ -0,0 +1,78 @@
+import { Signer, TypedDataDomain } from "ethers";
+import { KindnessForwarder } from "../../typechain-types";
+
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+// Signed request as accepted by forwarder.execute()
+export interface ForwardRequestData {
+  from: string;
+  to: string;
+  value: bigint;
+  // Gas forwarded to the target call
+  gas: bigint;
+  // Last timestamp at which the request can be executed
+  deadline: bigint;
+  data: string;
+  signature: string;
+}
+
+export interface ForwardCall {
+  to: string;
+  data: string;
+  value?: bigint;
+  gas?: bigint;
+}
+
+/**
+ * EIP-712 typed data for a request, ready for signer.signTypedData or an external signer.
+ * `nonce` is the signer's next nonce on the forwarder, see forwarder.nonces().
+ */
+export async function forwardRequestTypedData(
+  forwarder: KindnessForwarder,
+  request: Omit<ForwardRequestData, "signature">,
+  nonce: bigint
+) {
+  const { name, version, chainId, verifyingContract } = await forwarder.eip712Domain();
+  const domain: TypedDataDomain = { name, version, chainId, verifyingContract };
+  return { domain, types: FORWARD_REQUEST_TYPES, message: { ...request, nonce } };
+}
+
+/**
+ * Signs `call` as a request from `signer`, executable through `forwarder` for
+ * `validForSeconds`. The signer needs no ETH; whoever submits the request pays the gas.
+ */
+export async function signForwardRequest(
+  signer: Signer,
+  forwarder: KindnessForwarder,
+  call: ForwardCall,
+  validForSeconds = 15 * 60
+): Promise<ForwardRequestData> {
+  const provider = signer.provider;
+  if (!provider) throw new Error("Signer is not connected to a provider");
+  const block = await provider.getBlock("latest");
+  if (!block) throw new Error("Latest block not found");
+
+  const from = await signer.getAddress();
+  const request = {
+    from,
+    to: call.to,
+    value: call.value ?? 0n,
+    gas: call.gas ?? 300_000n,
+    deadline: BigInt(block.timestamp + validForSeconds),
+    data: call.data,
+  };
+
+  const { domain, types, message } = await forwardRequestTypedData(forwarder, request, await forwarder.nonces(from));
+  const signature = await signer.signTypedData(domain, types, message);
+  return { ...request, signature };
+}
@@ -0,0 +1,23 @@
+export const SECONDS_PER_DAY = 86400;
+
+/**
+ * Day number the Pool assigns to a timestamp: days since the epoch, each starting
+ * `dayOffset` seconds after UTC midnight. Matches pool.getCurrentDay().
+ */
+export function poolDay(timestamp: number | bigint, dayOffset: number | bigint = 0): number {
+  return Math.floor((Number(timestamp) - Number(dayOffset)) / SECONDS_PER_DAY);
+}
+
+/**
+ * Timestamp at which a pool day starts
+ */
+export function poolDayStart(day: number, dayOffset: number | bigint = 0): number {
+  return day * SECONDS_PER_DAY + Number(dayOffset);
+}
+
+/**
+ * Timestamp at which the pool day containing `timestamp` ends and the next one starts
+ */
+export function nextPoolDayStart(timestamp: number | bigint, dayOffset: number | bigint = 0): number {
+  return poolDayStart(poolDay(timestamp, dayOffset) + 1, dayOffset);
+}
@@ -0,0 +1,16 @@
+import { writeFileSync } from "fs";
+import { task } from "hardhat/config";
+
+task("eligibility:build", "Builds the Merkle allowlist for MerkleEligibility from a CSV or JSON list")
+  .addParam("input", "CSV (address column) or JSON array of addresses")
+  .addOptionalParam("output", "File to write the root and every address's encoded proof to")
+  .setAction(async ({ input, output }) => {
+    const { AllowlistTree, readAllowlist } = await import("../scripts/eligibility/merkle");
+
+    const tree = new AllowlistTree(readAllowlist(input));
+    console.log(`${tree.accounts.length} addresses, root ${tree.root}`);
+    if (output) {
+      writeFileSync(output, JSON.stringify(tree.toJSON(), null, 2));
+      console.log(`Proofs written to ${output}`);
+    }
+  });
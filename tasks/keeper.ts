@@ -0,0 +1,35 @@
+import { task, types } from "hardhat/config";
+
+task("keeper", "Drives daily distributions to completion and retries failed transfers")
+  .addParam("pool", "Address of the Pool contract")
+  .addOptionalParam("subscriptions", "Address of a KindnessSubscriptions contract whose due subscriptions are executed")
+  .addFlag("once", "Run a single pass and exit")
+  .addOptionalParam("interval", "Maximum seconds between passes in long-running mode", 60, types.int)
+  .setAction(async ({ pool, subscriptions, once, interval }, hre) => {
+    // Imported lazily so the config can load before typechain-types are generated
+    const { DistributionKeeper } = await import("../scripts/keeper/DistributionKeeper");
+    const { KindnessSubscriptions__factory, Pool__factory } = await import("../typechain-types");
+
+    const [signer] = await hre.ethers.getSigners();
+    const poolContract = Pool__factory.connect(pool, signer);
+
+    const hasRole = await poolContract.hasRole(await poolContract.DISTRIBUTOR_ROLE(), signer.address);
+    if (!hasRole) {
+      throw new Error(`${signer.address} does not have DISTRIBUTOR_ROLE on ${pool}`);
+    }
+
+    const keeper = new DistributionKeeper(poolContract, {
+      pollIntervalSeconds: interval,
+      subscriptions: subscriptions ? KindnessSubscriptions__factory.connect(subscriptions, signer) : undefined,
+    });
+    if (once) {
+      const result = await keeper.runOnce();
+      console.log("Keeper pass:", result);
+      return;
+    }
+
+    process.once("SIGINT", () => keeper.stop());
+    process.once("SIGTERM", () => keeper.stop());
+    console.log(`Keeper running for ${pool} (interval ${interval}s)`);
+    await keeper.run();
+  });
@@ -0,0 +1,51 @@
+import { createServer } from "http";
+import { task, types } from "hardhat/config";
+
+task("relayer", "Serves a local HTTP relayer that submits signed requests through the KindnessForwarder")
+  .addParam("forwarder", "Address of the KindnessForwarder contract")
+  .addParam("pool", "Address of the Pool contract whose user actions are relayed")
+  .addOptionalParam("port", "Port to listen on", 8787, types.int)
+  .setAction(async ({ forwarder, pool, port }, hre) => {
+    // Imported lazily so the config can load before typechain-types are generated
+    const { Relayer, RelayRejectedError } = await import("../scripts/relayer/Relayer");
+    const { KindnessPoolError } = await import("../scripts/client/errors");
+    const { KindnessForwarder__factory, Pool__factory } = await import("../typechain-types");
+
+    const [signer] = await hre.ethers.getSigners();
+    const poolContract = Pool__factory.connect(pool, signer);
+    if (!(await poolContract.isTrustedForwarder(forwarder))) {
+      throw new Error(`${pool} does not trust forwarder ${forwarder}, see setTrustedForwarder`);
+    }
+    const relayer = await Relayer.forPool(KindnessForwarder__factory.connect(forwarder, signer), poolContract);
+
+    // POST /relay with a JSON ForwardRequestData (numbers as strings), answers { hash }
+    const server = createServer(async (req, res) => {
+      const respond = (status: number, body: object) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+      if (req.method !== "POST" || req.url !== "/relay") {
+        return respond(404, { error: "Not found" });
+      }
+
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      try {
+        const tx = await relayer.relay(JSON.parse(body));
+        console.log(`Relayed ${tx.hash}`);
+        respond(200, { hash: tx.hash });
+      } catch (error) {
+        if (error instanceof RelayRejectedError) return respond(400, { error: error.reason });
+        if (error instanceof KindnessPoolError) return respond(400, { error: error.errorName });
+        console.error(error);
+        respond(500, { error: "Relay failed" });
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+    console.log(`Relayer ${signer.address} listening on http://127.0.0.1:${port}/relay`);
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", () => server.close(() => resolve()));
+      process.once("SIGTERM", () => server.close(() => resolve()));
+    });
+  });
@@ -0,0 +1,79 @@
+import { task, types } from "hardhat/config";
+import { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+
+interface ActionArgs {
+  timelock: string;
+  target: string;
+  contract: string;
+  method: string;
+  args: string;
+  value: string;
+  salt?: string;
+}
+
+function addActionParams(definition: ConfigurableTaskDefinition) {
+  return definition
+    .addParam("timelock", "Address of the KindnessTimelock contract")
+    .addParam("target", "Address of the contract the action calls")
+    .addParam("contract", "Artifact name of the target, e.g. Pool, TimeBasedDistributor or UserRegistry")
+    .addParam("method", "Function to call, e.g. emergencyStopDistribution")
+    .addOptionalParam("args", "Function arguments as a JSON array", "[]")
+    .addOptionalParam("value", "ETH sent with the call", "0")
+    .addOptionalParam("salt", "Label that distinguishes repeated operations");
+}
+
+async function loadAction(hre: HardhatRuntimeEnvironment, params: ActionArgs) {
+  // Imported lazily so the config can load before typechain-types are generated
+  const { TimelockOperator, encodeCall, saltFromLabel } = await import("../scripts/governance/timelock");
+  const { KindnessTimelock__factory } = await import("../typechain-types");
+
+  const [signer] = await hre.ethers.getSigners();
+  const operator = new TimelockOperator(KindnessTimelock__factory.connect(params.timelock, signer));
+
+  const artifact = await hre.artifacts.readArtifact(params.contract);
+  const action = {
+    target: params.target,
+    data: encodeCall(new hre.ethers.Interface(artifact.abi), params.method, JSON.parse(params.args)),
+    value: hre.ethers.parseEther(params.value),
+    salt: saltFromLabel(params.salt),
+  };
+  return { operator, action };
+}
+
+addActionParams(task("timelock:queue", "Schedules an admin action on the timelock"))
+  .addOptionalParam("delay", "Delay in seconds (defaults to the timelock's minimum delay)", undefined, types.int)
+  .setAction(async (params: ActionArgs & { delay?: number }, hre) => {
+    const { operator, action } = await loadAction(hre, params);
+    await operator.queue(action, params.delay === undefined ? undefined : BigInt(params.delay));
+    const status = await operator.getStatus(action);
+    console.log(`Queued ${params.contract}.${params.method} as ${status.id}`);
+    console.log(`Executable after ${new Date(Number(status.readyAt) * 1000).toISOString()}`);
+  });
+
+addActionParams(task("timelock:execute", "Executes a ready admin action")).setAction(
+  async (params: ActionArgs, hre) => {
+    const { operator, action } = await loadAction(hre, params);
+    const receipt = await operator.execute(action);
+    console.log(`Executed ${params.contract}.${params.method} in ${receipt?.hash}`);
+  }
+);
+
+addActionParams(task("timelock:cancel", "Cancels a pending admin action")).setAction(
+  async (params: ActionArgs, hre) => {
+    const { operator, action } = await loadAction(hre, params);
+    await operator.cancel(action);
+    console.log(`Cancelled ${params.contract}.${params.method}`);
+  }
+);
+
+addActionParams(task("timelock:status", "Shows the state of an admin action")).setAction(
+  async (params: ActionArgs, hre) => {
+    const { operator, action } = await loadAction(hre, params);
+    const { OperationState } = await import("../scripts/governance/timelock");
+    const status = await operator.getStatus(action);
+    console.log(`Operation ${status.id}: ${OperationState[status.state]}`);
+    if (status.readyAt > 1n) {
+      console.log(`Executable after ${new Date(Number(status.readyAt) * 1000).toISOString()}`);
+    }
+  }
+);
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { AttestationEligibility } from "../typechain-types";
+import { toPoolParameters } from "../scripts/config/poolParameters";
+import {
+  ReceiverPermit,
+  encodeReceiverPermit,
+  receiverPermitTypedData,
+  signReceiverPermit,
+} from "../scripts/eligibility/attestation";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Attestation Receiver Eligibility", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let gate: AttestationEligibility;
+  let owner: any;
+  let attester: any;
+  let user: any;
+  let impostor: any;
+
+  beforeEach(async function () {
+    [owner, attester, user, impostor] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Two entries and exits per day, so a permit can be replayed after leaving
+    const params = toPoolParameters(await pool.getParameters());
+    await pool.connect(owner).updateParameters({ ...params, maxDailyReceiverEntries: 2, maxDailyReceiverExits: 2 });
+
+    const AttestationEligibility = await ethers.getContractFactory("AttestationEligibility");
+    gate = await AttestationEligibility.deploy(owner.address, await pool.getAddress(), attester.address);
+    await gate.waitForDeployment();
+    await pool.connect(owner).setReceiverEligibility(gate.target);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function signPermit(signer: any, permit: ReceiverPermit): Promise<string> {
+    const { domain, types, message } = await receiverPermitTypedData(gate, permit);
+    return encodeReceiverPermit(permit, await signer.signTypedData(domain, types, message));
+  }
+
+  async function todayPermit(overrides: Partial<ReceiverPermit> = {}): Promise<ReceiverPermit> {
+    return {
+      account: user.address,
+      day: await pool.getCurrentDay(),
+      nonce: 1n,
+      deadline: BigInt(await time.latest()) + 3600n,
+      ...overrides,
+    };
+  }
+
+  async function leaveAfterCooldown() {
+    await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+    await pool.connect(user).leaveReceiverPool();
+    await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+  }
+
+  it("Should let a user enter with a permit from the attester", async function () {
+    const { permit, proof } = await signReceiverPermit(attester, gate, user.address);
+    expect(await gate.isEligible(user.address, proof)).to.be.true;
+
+    await expect(pool.connect(user).enterReceiverPoolWithProof(proof))
+      .to.emit(gate, "PermitUsed")
+      .withArgs(user.address, permit.day, permit.nonce)
+      .and.to.emit(pool, "EnteredReceiverPool")
+      .withArgs(user.address);
+    expect(await gate.usedNonces(user.address, permit.day, permit.nonce)).to.be.true;
+  });
+
+  it("Should reject expired permits and permits for another day", async function () {
+    const expired = await todayPermit({ deadline: BigInt(await time.latest()) });
+    await expect(
+      pool.connect(user).enterReceiverPoolWithProof(await signPermit(attester, expired))
+    ).to.be.revertedWithCustomError(pool, "NotEligible");
+
+    // Signed for today with a long deadline, used tomorrow
+    const deadline = BigInt(await time.latest()) + 3n * 86400n;
+    const yesterday = await signPermit(attester, await todayPermit({ deadline }));
+    await time.increase(24 * 60 * 60);
+    await expect(pool.connect(user).enterReceiverPoolWithProof(yesterday)).to.be.revertedWithCustomError(
+      pool,
+      "NotEligible"
+    );
+  });
+
+  it("Should reject a replayed permit on the same day", async function () {
+    const proof = await signPermit(attester, await todayPermit());
+    await pool.connect(user).enterReceiverPoolWithProof(proof);
+    await leaveAfterCooldown();
+
+    expect(await gate.isEligible(user.address, proof)).to.be.false;
+    await expect(pool.connect(user).enterReceiverPoolWithProof(proof)).to.be.revertedWithCustomError(
+      pool,
+      "NotEligible"
+    );
+
+    const fresh = await signPermit(attester, await todayPermit({ nonce: 2n }));
+    await pool.connect(user).enterReceiverPoolWithProof(fresh);
+    expect(await userRegistry.isInReceiverPool(user.address)).to.be.true;
+  });
+
+  it("Should scope nonces to the day", async function () {
+    await pool.connect(user).enterReceiverPoolWithProof(await signPermit(attester, await todayPermit()));
+    await time.increase(24 * 60 * 60);
+    await pool.connect(user).leaveReceiverPool();
+    await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+
+    // Nonce 1 again, on the new day
+    await pool.connect(user).enterReceiverPoolWithProof(await signPermit(attester, await todayPermit()));
+    expect(await userRegistry.isInReceiverPool(user.address)).to.be.true;
+  });
+
+  it("Should reject permits from a key that is not the attester", async function () {
+    const forged = await signPermit(impostor, await todayPermit());
+    await expect(pool.connect(user).enterReceiverPoolWithProof(forged)).to.be.revertedWithCustomError(
+      pool,
+      "NotEligible"
+    );
+    await expect(pool.connect(user).enterReceiverPool()).to.be.revertedWithCustomError(pool, "NotEligible");
+
+    // A permit for someone else does not work either
+    const others = await signPermit(attester, await todayPermit({ account: impostor.address }));
+    await expect(pool.connect(user).enterReceiverPoolWithProof(others)).to.be.revertedWithCustomError(
+      pool,
+      "NotEligible"
+    );
+
+    // After a key rotation only the new attester's permits are accepted
+    await expect(gate.connect(owner).setAttester(impostor.address))
+      .to.emit(gate, "AttesterUpdated")
+      .withArgs(attester.address, impostor.address);
+    expect(await gate.isEligible(user.address, await signPermit(attester, await todayPermit()))).to.be.false;
+    await pool.connect(user).enterReceiverPoolWithProof(forged);
+  });
+
+  it("Should only let the pool use permits and the admin rotate the attester", async function () {
+    const { proof } = await signReceiverPermit(attester, gate, user.address);
+    await expect(gate.connect(user).admit(user.address, proof)).to.be.revertedWithCustomError(gate, "NotPool");
+    await expect(gate.connect(user).setAttester(user.address)).to.be.revertedWithCustomError(
+      gate,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(gate.connect(owner).setAttester(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+      gate,
+      "ZeroAddress"
+    );
+  });
+});
@@ -4,6 +4,8 @@ import { Pool } from "../typechain-types/contracts/Pool";
 import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
 import { TestReceiver } from "../typechain-types/contracts/TestReceiver";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
 
 describe("Automatic Failed Transfer Retry", function () {
   let pool: Pool;
@@ -40,7 +42,11 @@ describe("Automatic Failed Transfer Retry", function () {
     await testReceiver.waitForDeployment();
 
     // Set distribution window to open for testing
-    await pool.connect(owner).setDistributionWindow(true);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
   });
 
   describe("Public Auto-Retry Function", function () {
@@ -2,6 +2,8 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Pool } from "../typechain-types/contracts/Pool";
 import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
 
 describe("Batch Distribution Gas Optimization", function () {
   let pool: Pool;
@@ -32,7 +34,11 @@ describe("Batch Distribution Gas Optimization", function () {
     await pool.connect(owner).grantRole(DISTRIBUTOR_ROLE, owner.address);
 
     // Set distribution window to open for testing
-    await pool.connect(owner).setDistributionWindow(true);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
   });
 
   describe("Batch Processing", function () {
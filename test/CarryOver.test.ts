@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Carry-over Accounting", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let giver: any;
+  let receiver1: any;
+  let receiver2: any;
+  let receiver3: any;
+
+  beforeEach(async function () {
+    [owner, giver, receiver1, receiver2, receiver3] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner and open the window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  it("Should carry division dust over instead of dropping it", async function () {
+    await pool.connect(receiver1).enterReceiverPool();
+    await pool.connect(receiver2).enterReceiverPool();
+    await pool.connect(receiver3).enterReceiverPool();
+
+    const amount = ethers.parseEther("0.1") + 1n;
+    await pool.connect(giver).giveKindness(amount, { value: amount });
+
+    const dust = amount % 3n;
+    await expect(pool.connect(owner).distributePool())
+      .to.emit(pool, "DistributionRollover")
+      .withArgs(dust)
+      .and.to.emit(pool, "CarryOverUpdated")
+      .withArgs(dust);
+
+    expect(await pool.dailyPool()).to.equal(0);
+    expect(await pool.getCarryOver()).to.equal(dust);
+    expect((await userRegistry.getUserStats(receiver1.address)).totalReceived).to.equal(amount / 3n);
+  });
+
+  it("Should add the carry-over to the next distribution", async function () {
+    await pool.connect(receiver1).enterReceiverPool();
+    await pool.connect(receiver2).enterReceiverPool();
+    await pool.connect(receiver3).enterReceiverPool();
+    const first = ethers.parseEther("0.1") + 1n;
+    await pool.connect(giver).giveKindness(first, { value: first });
+    await pool.connect(owner).distributePool();
+    const dust = await pool.carryOver();
+
+    await time.increase(24 * 60 * 60);
+    await pool.connect(receiver1).enterReceiverPool();
+    const second = ethers.parseEther("0.05");
+    await pool.connect(giver).giveKindness(second, { value: second });
+    await pool.connect(owner).distributePool();
+
+    expect(await pool.carryOver()).to.equal(0);
+    expect((await userRegistry.getUserStats(receiver1.address)).totalReceived).to.equal(first / 3n + second + dust);
+  });
+
+  it("Should roll over a day without receivers", async function () {
+    const amount = ethers.parseEther("0.5");
+    await pool.connect(giver).giveKindness(amount, { value: amount });
+
+    await expect(pool.connect(owner).distributePool()).to.be.revertedWithCustomError(pool, "NoReceivers");
+    await expect(pool.connect(owner).rollOverPool())
+      .to.emit(pool, "DistributionRollover")
+      .withArgs(amount)
+      .and.to.emit(pool, "CarryOverUpdated")
+      .withArgs(amount);
+
+    expect(await pool.dailyPool()).to.equal(0);
+    expect(await pool.carryOver()).to.equal(amount);
+    expect(await pool.hasDistributedToday()).to.be.true;
+  });
+
+  it("Should roll over a pool below the minimum until it is large enough", async function () {
+    await pool.connect(receiver1).enterReceiverPool();
+    const amount = ethers.parseEther("0.005");
+    await pool.connect(giver).giveKindness(amount, { value: amount });
+
+    await expect(pool.connect(owner).distributePool()).to.be.revertedWithCustomError(pool, "PoolBalanceBelowMinimum");
+    await pool.connect(owner).rollOverPool();
+
+    // Tomorrow's contributions plus the carry-over reach minPoolBalance
+    await time.increase(24 * 60 * 60);
+    await pool.connect(giver).giveKindness(amount, { value: amount });
+    await pool.connect(owner).distributePool();
+
+    expect((await userRegistry.getUserStats(receiver1.address)).totalReceived).to.equal(amount * 2n);
+    expect(await pool.carryOver()).to.equal(0);
+  });
+
+  it("Should only roll over a pool that cannot be distributed", async function () {
+    await expect(pool.connect(owner).rollOverPool()).to.be.revertedWithCustomError(pool, "EmptyPool");
+
+    await pool.connect(receiver1).enterReceiverPool();
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+    await expect(pool.connect(owner).rollOverPool()).to.be.revertedWithCustomError(pool, "PoolDistributable");
+    await expect(pool.connect(giver).rollOverPool()).to.be.revertedWithCustomError(
+      pool,
+      "AccessControlUnauthorizedAccount"
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { SmartWalletReceiver, TestReceiver } from "../typechain-types";
+import { toPoolParameters, DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Claim Mode", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let wallet: SmartWalletReceiver;
+  let owner: any;
+  let giver: any;
+  let receiver: any;
+  let beneficiary: any;
+
+  beforeEach(async function () {
+    [owner, giver, receiver, beneficiary] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner and open the window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+    // Smart wallet enters the receiver pool in its constructor
+    const SmartWalletReceiver = await ethers.getContractFactory("SmartWalletReceiver");
+    wallet = await SmartWalletReceiver.deploy(await pool.getAddress());
+    await wallet.waitForDeployment();
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function fundAndDistribute(amount = "1") {
+    await pool.connect(giver).giveKindness(ethers.parseEther(amount), { value: ethers.parseEther(amount) });
+    await pool.connect(receiver).enterReceiverPool();
+    return pool.connect(owner).startDistribution();
+  }
+
+  describe("Push mode", function () {
+    it("Should fail to pay a smart wallet within the gas stipend", async function () {
+      await expect(fundAndDistribute())
+        .to.emit(pool, "TransferFailed")
+        .withArgs(await wallet.getAddress(), ethers.parseEther("0.5"));
+
+      expect(await pool.getUnclaimedFunds()).to.equal(ethers.parseEther("0.5"));
+      expect(await wallet.receivedCount()).to.equal(0);
+    });
+  });
+
+  describe("Claim mode", function () {
+    beforeEach(async function () {
+      await expect(pool.connect(owner).setClaimMode(true))
+        .to.emit(pool, "ClaimModeUpdated")
+        .withArgs(true);
+    });
+
+    it("Should credit shares instead of transferring them", async function () {
+      await expect(fundAndDistribute())
+        .to.emit(pool, "KindnessCredited")
+        .withArgs(await wallet.getAddress(), ethers.parseEther("0.5"))
+        .and.to.emit(pool, "KindnessCredited")
+        .withArgs(receiver.address, ethers.parseEther("0.5"))
+        .and.not.to.emit(pool, "TransferFailed");
+
+      expect(await pool.claimableBalance(await wallet.getAddress())).to.equal(ethers.parseEther("0.5"));
+      expect(await pool.claimableBalance(receiver.address)).to.equal(ethers.parseEther("0.5"));
+      expect(await pool.totalClaimable()).to.equal(ethers.parseEther("1"));
+      expect(await pool.getUnclaimedFunds()).to.equal(0);
+      expect(await ethers.provider.getBalance(await pool.getAddress())).to.equal(ethers.parseEther("1"));
+
+      // Stats are recorded at distribution time, as in push mode
+      const stats = await userRegistry.getUserStats(await wallet.getAddress());
+      expect(stats.totalReceived).to.equal(ethers.parseEther("0.5"));
+      expect(stats.isInReceiverPool).to.be.false;
+    });
+
+    it("Should let a smart wallet claim with full gas", async function () {
+      await fundAndDistribute();
+
+      await expect(wallet.claim())
+        .to.emit(pool, "KindnessClaimed")
+        .withArgs(await wallet.getAddress(), await wallet.getAddress(), ethers.parseEther("0.5"));
+
+      expect(await wallet.receivedCount()).to.equal(1);
+      expect(await wallet.totalReceived()).to.equal(ethers.parseEther("0.5"));
+      expect(await pool.claimableBalance(await wallet.getAddress())).to.equal(0);
+      expect(await pool.totalClaimable()).to.equal(ethers.parseEther("0.5"));
+
+      await expect(wallet.claim()).to.be.revertedWithCustomError(pool, "NothingToClaim");
+    });
+
+    it("Should claim to another address", async function () {
+      await fundAndDistribute();
+
+      await expect(pool.connect(receiver).claimTo(beneficiary.address)).to.changeEtherBalances(
+        [beneficiary, pool],
+        [ethers.parseEther("0.5"), -ethers.parseEther("0.5")]
+      );
+      await expect(pool.connect(receiver).claimTo(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(pool, "ZeroAddress");
+    });
+
+    it("Should keep the balance when the claim transfer fails", async function () {
+      await fundAndDistribute();
+
+      // TestReceiver rejects Ether by default
+      const TestReceiver = await ethers.getContractFactory("TestReceiver");
+      const rejecting = (await TestReceiver.deploy(await pool.getAddress())) as unknown as TestReceiver;
+
+      await expect(wallet.claimTo(await rejecting.getAddress()))
+        .to.be.revertedWithCustomError(pool, "TransferFailedErr");
+      expect(await pool.claimableBalance(await wallet.getAddress())).to.equal(ethers.parseEther("0.5"));
+    });
+
+    it("Should accumulate credits across days", async function () {
+      await fundAndDistribute();
+
+      // Next day the receiver is the only one in the pool
+      await time.increase(24 * 60 * 60);
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.4"), { value: ethers.parseEther("0.4") });
+      await pool.connect(receiver).enterReceiverPool();
+      await pool.connect(owner).startDistribution();
+
+      expect(await pool.claimableBalance(receiver.address)).to.equal(ethers.parseEther("0.9"));
+      await expect(pool.connect(receiver).claim()).to.changeEtherBalance(receiver, ethers.parseEther("0.9"));
+    });
+
+    it("Should not switch modes while a distribution is running", async function () {
+      // Process one receiver per batch so the run stays in progress (applies from tomorrow)
+      const params = toPoolParameters(await pool.getParameters());
+      await pool.connect(owner).updateParameters({ ...params, distributionBatchSize: 1 });
+      await time.increase(24 * 60 * 60);
+      await fundAndDistribute();
+      expect(await pool.distributionInProgress()).to.be.true;
+
+      await expect(pool.connect(owner).setClaimMode(false))
+        .to.be.revertedWithCustomError(pool, "DistributionInProgress");
+
+      await pool.connect(owner).continueDistribution();
+      await pool.connect(owner).setClaimMode(false);
+      expect(await pool.claimMode()).to.be.false;
+    });
+
+    it("Should only allow the admin to change the mode", async function () {
+      await expect(pool.connect(giver).setClaimMode(false))
+        .to.be.revertedWithCustomError(pool, "AccessControlUnauthorizedAccount");
+    });
+  });
+});
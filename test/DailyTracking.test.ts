@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Pool, UserRegistry } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
 
 describe("Daily Contribution Tracking", function () {
   let pool: Pool;
@@ -26,6 +27,10 @@ describe("Daily Contribution Tracking", function () {
     await pool.grantRole(await pool.DISTRIBUTOR_ROLE(), distributor.address);
   });
 
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
   describe("Daily Reset Mechanism", function () {
     it("should reset daily data when user interacts on a new day", async function () {
       // User contributes today
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { toPoolParameters } from "../scripts/config/poolParameters";
+import { SECONDS_PER_DAY, nextPoolDayStart, poolDay, poolDayStart } from "../scripts/utils/days";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+const DAY_OFFSET = 6 * 60 * 60; // Days start at 06:00 UTC
+
+describe("Day Boundary", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let giver: any;
+  let receiver: any;
+
+  beforeEach(async function () {
+    [owner, giver, receiver] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner; the window follows the schedule
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+
+    await expect(pool.connect(owner).setDayOffset(DAY_OFFSET)).to.emit(pool, "DayOffsetUpdated").withArgs(DAY_OFFSET);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  // Start of the next pool day that is at least a few hours away
+  async function upcomingDayStart(): Promise<number> {
+    return nextPoolDayStart((await time.latest()) + 4 * 60 * 60, DAY_OFFSET);
+  }
+
+  it("Should number days from the offset", async function () {
+    const dayStart = await upcomingDayStart();
+    const amount = ethers.parseEther("0.1");
+
+    await time.setNextBlockTimestamp(dayStart - 1);
+    await pool.connect(giver).giveKindness(amount, { value: amount });
+    expect(await pool.currentDay()).to.equal(poolDay(dayStart - 1, DAY_OFFSET));
+
+    await time.setNextBlockTimestamp(dayStart);
+    await pool.connect(receiver).giveKindness(amount, { value: amount });
+    expect(await pool.currentDay()).to.equal(poolDay(dayStart, DAY_OFFSET));
+    expect(await pool.currentDay()).to.equal(poolDay(dayStart - 1, DAY_OFFSET) + 1);
+    expect(poolDayStart(Number(await pool.currentDay()), DAY_OFFSET)).to.equal(dayStart);
+  });
+
+  it("Should reset the per-user limits at the offset instead of UTC midnight", async function () {
+    // One contribution fills the daily limit; applies immediately because the pool has not been used yet
+    const params = toPoolParameters(await pool.getParameters());
+    await pool.connect(owner).updateParameters({ ...params, maxDailyContribution: params.maxKindnessAmount });
+    const amount = ethers.parseEther("1");
+
+    const dayStart = await upcomingDayStart();
+    await time.increaseTo(dayStart + 60 * 60);
+    await pool.connect(giver).giveKindness(amount, { value: amount });
+
+    // UTC midnight is not a new day
+    const nextDayStart = dayStart + SECONDS_PER_DAY;
+    await time.increaseTo(nextDayStart - DAY_OFFSET + 60 * 60);
+    await expect(pool.connect(giver).giveKindness(amount, { value: amount })).to.be.revertedWithCustomError(
+      pool,
+      "DailyContributionLimitExceeded"
+    );
+
+    await time.setNextBlockTimestamp(nextDayStart - 1);
+    await expect(pool.connect(giver).giveKindness(amount, { value: amount })).to.be.revertedWithCustomError(
+      pool,
+      "DailyContributionLimitExceeded"
+    );
+
+    await time.setNextBlockTimestamp(nextDayStart);
+    await expect(pool.connect(giver).giveKindness(amount, { value: amount })).to.emit(pool, "KindnessGiven");
+    expect(await pool.userLastDay(giver.address)).to.equal(poolDay(nextDayStart, DAY_OFFSET));
+  });
+
+  it("Should open the distribution window relative to the offset", async function () {
+    const dayStart = await upcomingDayStart();
+    await time.increaseTo(dayStart - 2 * 60 * 60);
+    await pool.connect(receiver).enterReceiverPool();
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+    expect(await pool.getNextDistributionTime()).to.equal(dayStart);
+
+    await time.setNextBlockTimestamp(dayStart - 1);
+    await expect(pool.connect(owner).distributePool()).to.be.revertedWithCustomError(pool, "NotInDistributionWindow");
+
+    await time.setNextBlockTimestamp(dayStart);
+    await expect(pool.connect(owner).distributePool()).to.emit(pool, "PoolDistributed");
+
+    // Distributed today until the next offset, not until UTC midnight
+    expect(await pool.getNextDistributionTime()).to.equal(dayStart + SECONDS_PER_DAY);
+    expect(await pool.isScheduledDistributionWindow(dayStart + SECONDS_PER_DAY - DAY_OFFSET)).to.be.false;
+    expect(await pool.isScheduledDistributionWindow(dayStart + SECONDS_PER_DAY)).to.be.true;
+  });
+
+  it("Should only count today's distribution until the next offset", async function () {
+    const dayStart = await upcomingDayStart();
+    await time.increaseTo(dayStart + 60);
+    await pool.connect(receiver).enterReceiverPool();
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+    await pool.connect(owner).distributePool();
+
+    await time.increaseTo(dayStart + SECONDS_PER_DAY - 60);
+    expect(await pool.hasDistributedToday()).to.be.true;
+    await time.increaseTo(dayStart + SECONDS_PER_DAY);
+    expect(await pool.hasDistributedToday()).to.be.false;
+  });
+
+  it("Should only set the offset before the pool is used", async function () {
+    await expect(pool.connect(giver).setDayOffset(0)).to.be.revertedWithCustomError(
+      pool,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(pool.connect(owner).setDayOffset(SECONDS_PER_DAY)).to.be.revertedWithCustomError(
+      pool,
+      "InvalidParameters"
+    );
+
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.1"), { value: ethers.parseEther("0.1") });
+    await expect(pool.connect(owner).setDayOffset(0)).to.be.revertedWithCustomError(pool, "PoolAlreadyActive");
+    expect(await pool.dayOffset()).to.equal(DAY_OFFSET);
+  });
+});
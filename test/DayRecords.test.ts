@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { PoolLens, TestReceiver } from "../typechain-types";
+import { KindnessPoolClient } from "../scripts/client/KindnessPoolClient";
+import { DistributionWindowOverride, toPoolParameters } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Day Records", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let lens: PoolLens;
+  let testReceiver: TestReceiver;
+  let owner: any;
+  let giver: any;
+  let receiver1: any;
+  let receiver2: any;
+
+  const eth = (amount: string) => ethers.parseEther(amount);
+
+  beforeEach(async function () {
+    [owner, giver, receiver1, receiver2] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    const PoolLens = await ethers.getContractFactory("PoolLens");
+    lens = await PoolLens.deploy(await pool.getAddress());
+    await lens.waitForDeployment();
+
+    // Two receivers per batch; applies immediately because the pool has not been used yet
+    const params = toPoolParameters(await pool.getParameters());
+    await pool.connect(owner).updateParameters({ ...params, distributionBatchSize: 2 });
+
+    // Grant distributor role to owner and open the window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+    // A receiver whose wallet rejects ETH, entering the pool on deployment
+    const TestReceiver = await ethers.getContractFactory("TestReceiver");
+    testReceiver = await TestReceiver.deploy(await pool.getAddress());
+    await testReceiver.waitForDeployment();
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  it("Should record each day's distribution across several days", async function () {
+    // Day 1: three receivers in two batches, one transfer fails
+    const firstDay = await pool.getCurrentDay();
+    await pool.connect(receiver1).enterReceiverPool();
+    await pool.connect(receiver2).enterReceiverPool();
+    await pool.connect(giver).giveKindness(eth("0.3"), { value: eth("0.3") });
+
+    await pool.connect(owner).startDistribution();
+    let record = await pool.dayRecords(firstDay);
+    expect(record.totalPool).to.equal(eth("0.3"));
+    expect(record.receiverCount).to.equal(3);
+    expect(record.amountPerReceiver).to.equal(eth("0.1"));
+    expect(record.timestamp).to.equal(0);
+
+    await expect(pool.connect(owner).continueDistribution())
+      .to.emit(pool, "PoolDistributed")
+      .withArgs(eth("0.3"), 3);
+    record = await pool.dayRecords(firstDay);
+    expect(record.failedCount).to.equal(1);
+    expect(record.timestamp).to.equal(await time.latest());
+
+    // Day 2: nothing distributed
+    await time.increase(24 * 60 * 60);
+
+    // Day 3: one receiver gets the day's pool
+    await time.increase(24 * 60 * 60);
+    await pool.connect(receiver1).enterReceiverPool();
+    await pool.connect(giver).giveKindness(eth("0.5"), { value: eth("0.5") });
+    await expect(pool.connect(owner).distributePool()).to.emit(pool, "PoolDistributed").withArgs(eth("0.5"), 1);
+
+    const records = await lens.getDayRecords(firstDay, 3);
+    expect(records.length).to.equal(3);
+    expect(records[0].totalPool).to.equal(eth("0.3"));
+    expect(records[0].failedCount).to.equal(1);
+    expect(records[1].timestamp).to.equal(0);
+    expect(records[1].receiverCount).to.equal(0);
+    expect(records[2].totalPool).to.equal(eth("0.5"));
+    expect(records[2].receiverCount).to.equal(1);
+    expect(records[2].amountPerReceiver).to.equal(eth("0.5"));
+    expect(records[2].failedCount).to.equal(0);
+    expect(records[2].timestamp).to.equal(await time.latest());
+  });
+
+  it("Should include the carry-over and leave the record of a stopped distribution incomplete", async function () {
+    const firstDay = await pool.getCurrentDay();
+    await pool.connect(receiver1).enterReceiverPool();
+    await pool.connect(receiver2).enterReceiverPool();
+    await pool.connect(giver).giveKindness(eth("0.3"), { value: eth("0.3") });
+
+    // Two of three receivers are paid before the admin stops the distribution
+    await pool.connect(owner).startDistribution();
+    await pool.connect(owner).emergencyStopDistribution();
+    expect((await pool.dayRecords(firstDay)).timestamp).to.equal(0);
+
+    // Restarting the same day would overwrite the stopped distribution's record
+    await expect(pool.connect(owner).startDistribution()).to.be.revertedWithCustomError(
+      pool,
+      "AlreadyDistributedToday"
+    );
+    const stopped = await pool.dayRecords(firstDay);
+    expect(stopped.totalPool).to.equal(eth("0.3"));
+    expect(stopped.receiverCount).to.equal(3);
+
+    // The next day's record includes the unpaid share carried over
+    await time.increase(24 * 60 * 60);
+    await pool.connect(receiver1).enterReceiverPool();
+    await pool.connect(giver).giveKindness(eth("0.2"), { value: eth("0.2") });
+    await pool.connect(owner).distributePool();
+
+    const record = await pool.dayRecords(firstDay + 1n);
+    expect(record.totalPool).to.equal(eth("0.3"));
+    expect(record.receiverCount).to.equal(1);
+    expect(record.amountPerReceiver).to.equal(eth("0.3"));
+  });
+
+  it("Should page through day records with the client", async function () {
+    const firstDay = await pool.getCurrentDay();
+    await pool.connect(receiver1).enterReceiverPool();
+    await pool.connect(giver).giveKindness(eth("0.3"), { value: eth("0.3") });
+    await pool.connect(owner).startDistribution();
+
+    const client = await KindnessPoolClient.connect(await pool.getAddress(), giver, {
+      lensAddress: await lens.getAddress(),
+    });
+    const records = await client.getDayRecords(firstDay - 1n, 2);
+    expect(records.map((r) => r.receiverCount)).to.deep.equal([0n, 2n]);
+    expect(records[1].amountPerReceiver).to.equal(eth("0.15"));
+    expect(await client.getDayRecords(firstDay, 0)).to.deep.equal([]);
+
+    const maxPageSize = await lens.MAX_PAGE_SIZE();
+    expect((await client.getDayRecords(firstDay, Number(maxPageSize))).length).to.equal(maxPageSize);
+    await expect(lens.getDayRecords(firstDay, maxPageSize + 1n)).to.be.revertedWithCustomError(
+      lens,
+      "InvalidParameters"
+    );
+  });
+});
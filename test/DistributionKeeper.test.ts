@@ -0,0 +1,210 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { TestReceiver } from "../typechain-types";
+import { DistributionKeeper } from "../scripts/keeper/DistributionKeeper";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { createFundedWallets } from "./helpers/wallets";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Distribution Keeper", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let giver: any;
+  let keeper: DistributionKeeper;
+
+  beforeEach(async function () {
+    [owner, giver] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // The keeper signs with owner, which needs DISTRIBUTOR_ROLE
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+
+    keeper = new DistributionKeeper(pool.connect(owner), { log: () => {} });
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function addReceivers(count: number) {
+    const wallets = await createFundedWallets(count);
+    for (const wallet of wallets) {
+      await pool.connect(wallet).enterReceiverPool();
+    }
+    return wallets;
+  }
+
+  describe("Single pass", function () {
+    it("Should do nothing while the distribution window is closed", async function () {
+      await pool.connect(giver).giveKindness(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+      await addReceivers(2);
+
+      const result = await keeper.runOnce();
+      expect(result).to.deep.equal({
+        subscriptionsExecuted: 0,
+        promoted: 0,
+        started: false,
+        batches: 0,
+        completed: false,
+        rolledOver: false,
+        retried: false,
+      });
+      expect(await pool.dailyPool()).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should drive a multi-batch distribution to completion", async function () {
+      const receivers = await addReceivers(30);
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.6"), { value: ethers.parseEther("0.6") });
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+      const result = await keeper.runOnce();
+
+      expect(result.started).to.be.true;
+      expect(result.completed).to.be.true;
+      expect(result.batches).to.equal(2); // 25 + 5 receivers
+      expect(await pool.distributionInProgress()).to.be.false;
+      expect(await pool.dailyPool()).to.equal(0);
+      for (const receiver of receivers) {
+        expect((await userRegistry.getUserStats(receiver.address)).totalReceived).to.equal(ethers.parseEther("0.02"));
+      }
+
+      // Already distributed today, so a second pass is a no-op
+      const second = await keeper.runOnce();
+      expect(second.started).to.be.false;
+    });
+
+    it("Should finish a distribution that was left in progress", async function () {
+      await addReceivers(60);
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.6"), { value: ethers.parseEther("0.6") });
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+      // Someone started the run but never continued it
+      await pool.connect(owner).startDistribution();
+      expect(await pool.distributionInProgress()).to.be.true;
+
+      const result = await keeper.runOnce();
+      expect(result.started).to.be.false;
+      expect(result.batches).to.equal(2); // 25 were already processed, 35 left
+      expect(await pool.distributionInProgress()).to.be.false;
+    });
+
+    it("Should retry failed transfers only after the cooldown expires", async function () {
+      const TestReceiver = await ethers.getContractFactory("TestReceiver");
+      const testReceiver = (await TestReceiver.deploy(await pool.getAddress())) as unknown as TestReceiver;
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+      await keeper.runOnce();
+      expect(await pool.getFailedTransferAmount(await testReceiver.getAddress())).to.equal(ethers.parseEther("0.5"));
+
+      await testReceiver.setFail(false);
+
+      // Cooldown has not passed yet
+      expect(await keeper.getRetryableReceivers()).to.deep.equal([]);
+      expect((await keeper.runOnce()).retried).to.be.false;
+
+      await time.increase(await pool.RETRY_COOLDOWN());
+
+      expect(await keeper.getRetryableReceivers()).to.deep.equal([await testReceiver.getAddress()]);
+      expect((await keeper.runOnce()).retried).to.be.true;
+      expect(await pool.getFailedTransferAmount(await testReceiver.getAddress())).to.equal(0);
+      expect(await pool.getUnclaimedFunds()).to.equal(0);
+    });
+
+    it("Should carry the pool over on a day without receivers", async function () {
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+      const result = await keeper.runOnce();
+      expect(result.rolledOver).to.be.true;
+      expect(await pool.carryOver()).to.equal(ethers.parseEther("0.5"));
+
+      // The next day's distribution pays out the carried-over pool
+      const [receiver] = await addReceivers(1);
+      await time.increase(24 * 60 * 60);
+      expect((await keeper.runOnce()).completed).to.be.true;
+      expect((await userRegistry.getUserStats(receiver.address)).totalReceived).to.equal(ethers.parseEther("0.5"));
+      expect(await pool.carryOver()).to.equal(0);
+    });
+  });
+
+  describe("Exhausted transfers", function () {
+    it("Should redistribute transfers that used up their retries", async function () {
+      const TestReceiver = await ethers.getContractFactory("TestReceiver");
+      const testReceiver = (await TestReceiver.deploy(await pool.getAddress())) as unknown as TestReceiver;
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+      await keeper.runOnce();
+
+      const retryCooldown = await pool.RETRY_COOLDOWN();
+      for (let attempt = 0n; attempt < (await pool.MAX_RETRIES()); attempt++) {
+        await time.increase(retryCooldown * (1n << attempt));
+        expect((await keeper.runOnce()).retried).to.be.true;
+      }
+      expect(await keeper.getExhaustedReceivers()).to.deep.equal([await testReceiver.getAddress()]);
+
+      expect((await keeper.runOnce()).retried).to.be.true;
+      expect(await keeper.getExhaustedReceivers()).to.deep.equal([]);
+      expect(await pool.getUnclaimedFunds()).to.equal(0);
+      expect(await pool.dailyPool()).to.equal(ethers.parseEther("0.5"));
+    });
+  });
+
+  describe("Long-running mode", function () {
+    it("Should sleep until the next retry deadline in long-running mode", async function () {
+      const TestReceiver = await ethers.getContractFactory("TestReceiver");
+      const testReceiver = (await TestReceiver.deploy(await pool.getAddress())) as unknown as TestReceiver;
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+      const sleeps: number[] = [];
+      const longRunning = new DistributionKeeper(pool.connect(owner), {
+        pollIntervalSeconds: 24 * 60 * 60,
+        log: () => {},
+        sleep: async (seconds) => {
+          sleeps.push(seconds);
+          await time.increase(seconds);
+          if (sleeps.length === 1) {
+            // Receiver fixes its wallet while the keeper is waiting
+            await testReceiver.setFail(false);
+          } else {
+            longRunning.stop();
+          }
+        },
+      });
+
+      await longRunning.run();
+
+      // First wake-up is the retry deadline, well before the polling interval
+      const retryCooldown = Number(await pool.RETRY_COOLDOWN());
+      expect(sleeps[0]).to.be.at.most(retryCooldown);
+      expect(await pool.getFailedTransferAmount(await testReceiver.getAddress())).to.equal(0);
+    });
+
+    it("Should wait no longer than the time until the next distribution", async function () {
+      const nextDistribution = await pool.getNextDistributionTime();
+      const now = BigInt(await time.latest());
+
+      const waitSeconds = await new DistributionKeeper(pool, {
+        pollIntervalSeconds: 2 * 24 * 60 * 60,
+        log: () => {},
+      }).getSecondsUntilNextAction();
+
+      expect(waitSeconds).to.equal(Number(nextDistribution - now));
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { IDistributionStrategy } from "../typechain-types";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { createFundedWallets } from "./helpers/wallets";
+import { SeededRandom, testSeed } from "./helpers/random";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+const CASES = 20;
+
+describe("Distribution Strategies", function () {
+  describe("Share properties", function () {
+    let registry: UserRegistry;
+    let owner: any;
+    let random: SeededRandom;
+
+    before(async function () {
+      [owner] = await ethers.getSigners();
+      const UserRegistry = await ethers.getContractFactory("UserRegistry");
+      registry = await UserRegistry.deploy(owner.address);
+      await registry.waitForDeployment();
+    });
+
+    beforeEach(function () {
+      random = new SeededRandom(testSeed());
+    });
+
+    afterEach(function () {
+      if (this.currentTest?.state === "failed") {
+        console.log(`    Replay with TEST_SEED=${random.seed}`);
+      }
+    });
+
+    function randomReceivers(max: number): string[] {
+      return Array.from({ length: random.int(1, max) }, () =>
+        ethers.getAddress(ethers.toBeHex(random.bigint(1n, (1n << 160n) - 1n), 20))
+      );
+    }
+
+    // Random odd amounts so integer division leaves dust
+    function randomAmount(): bigint {
+      return random.bigint(1n, ethers.parseEther("100"));
+    }
+
+    // Gives each receiver a random history of receipts and contributions
+    async function randomHistory(receivers: string[]) {
+      for (const receiver of receivers) {
+        for (let i = random.int(0, 3); i > 0; i--) {
+          const isGiving = random.next() < 0.3;
+          await registry.connect(owner).updateUserStats(receiver, isGiving, random.bigint(0n, ethers.parseEther("2")));
+        }
+      }
+    }
+
+    async function computeShares(strategy: IDistributionStrategy, receivers: string[], amount: bigint) {
+      const shares = await strategy.computeShares(receivers, amount, registry.target);
+      const total = shares.reduce((sum, share) => sum + share, 0n);
+      const rollover = amount - total;
+
+      // Common properties: one share each, and paid + rollover is exactly the pool
+      expect(shares).to.have.length(receivers.length);
+      expect(rollover >= 0n, "shares exceed the pool").to.be.true;
+      expect(total + rollover).to.equal(amount);
+      return { shares: [...shares], total, rollover };
+    }
+
+    it("EqualSplitStrategy pays everyone the same and rolls over only the dust", async function () {
+      const strategy = await (await ethers.getContractFactory("EqualSplitStrategy")).deploy();
+
+      for (let c = 0; c < CASES; c++) {
+        const receivers = randomReceivers(50);
+        const amount = randomAmount();
+        const { shares, rollover } = await computeShares(strategy, receivers, amount);
+
+        const expected = amount / BigInt(receivers.length);
+        expect(shares.every((share) => share === expected)).to.be.true;
+        expect(rollover).to.equal(amount % BigInt(receivers.length));
+      }
+    });
+
+    it("CappedShareStrategy never exceeds the cap and rolls over the excess", async function () {
+      for (let c = 0; c < CASES; c++) {
+        const cap = random.bigint(1n, ethers.parseEther("5"));
+        const strategy = await (await ethers.getContractFactory("CappedShareStrategy")).deploy(cap);
+        const receivers = randomReceivers(50);
+        const amount = randomAmount();
+        const { shares, rollover } = await computeShares(strategy, receivers, amount);
+
+        const equal = amount / BigInt(receivers.length);
+        const expected = equal < cap ? equal : cap;
+        expect(shares.every((share) => share === expected)).to.be.true;
+        expect(rollover).to.equal(amount - expected * BigInt(receivers.length));
+      }
+    });
+
+    it("FirstTimeReceiverStrategy favours receivers with fewer past receipts", async function () {
+      const strategy = await (await ethers.getContractFactory("FirstTimeReceiverStrategy")).deploy();
+
+      for (let c = 0; c < CASES; c++) {
+        const receivers = randomReceivers(10);
+        await randomHistory(receivers);
+        const amount = randomAmount();
+        const { shares, rollover } = await computeShares(strategy, receivers, amount);
+
+        // Each share is rounded down once, so dust is below one wei per receiver
+        expect(rollover < BigInt(receivers.length)).to.be.true;
+
+        const timesReceived = await Promise.all(
+          receivers.map(async (receiver) => (await registry.getUserStats(receiver)).timesReceived)
+        );
+        for (let i = 0; i < receivers.length; i++) {
+          for (let j = 0; j < receivers.length; j++) {
+            if (timesReceived[i] < timesReceived[j]) expect(shares[i] >= shares[j]).to.be.true;
+          }
+        }
+      }
+    });
+
+    it("NeedWeightedStrategy favours receivers with a smaller net deficit", async function () {
+      const strategy = await (await ethers.getContractFactory("NeedWeightedStrategy")).deploy(ethers.parseEther("1"));
+
+      for (let c = 0; c < CASES; c++) {
+        const receivers = randomReceivers(10);
+        await randomHistory(receivers);
+        const amount = randomAmount();
+        const { shares, rollover } = await computeShares(strategy, receivers, amount);
+
+        expect(rollover < BigInt(receivers.length)).to.be.true;
+
+        const deficits = await Promise.all(
+          receivers.map(async (receiver) => {
+            const net = await registry.getNetAmount(receiver);
+            return net < 0n ? -net : 0n;
+          })
+        );
+        for (let i = 0; i < receivers.length; i++) {
+          for (let j = 0; j < receivers.length; j++) {
+            if (deficits[i] < deficits[j]) expect(shares[i] >= shares[j]).to.be.true;
+          }
+        }
+      }
+    });
+
+    it("Should reject a zero cap or reference amount", async function () {
+      const Capped = await ethers.getContractFactory("CappedShareStrategy");
+      await expect(Capped.deploy(0)).to.be.revertedWithCustomError(Capped, "InvalidParameters");
+      const NeedWeighted = await ethers.getContractFactory("NeedWeightedStrategy");
+      await expect(NeedWeighted.deploy(0)).to.be.revertedWithCustomError(NeedWeighted, "InvalidParameters");
+    });
+  });
+
+  describe("Pool integration", function () {
+    let pool: Pool;
+    let userRegistry: UserRegistry;
+    let owner: any;
+    let giver: any;
+
+    beforeEach(async function () {
+      [owner, giver] = await ethers.getSigners();
+
+      // Deploy Pool contract
+      const Pool = await ethers.getContractFactory("Pool");
+      pool = await Pool.deploy(owner.address);
+      await pool.waitForDeployment();
+
+      // Get the UserRegistry instance and grant system role to Pool
+      const userRegistryAddress = await pool.userRegistry();
+      const UserRegistry = await ethers.getContractFactory("UserRegistry");
+      userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+      await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+      // Grant distributor role to owner and open the window
+      await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+    });
+
+    afterEach(async function () {
+      await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+    });
+
+    async function addReceivers(count: number) {
+      const wallets = await createFundedWallets(count);
+      for (const wallet of wallets) {
+        await pool.connect(wallet).enterReceiverPool();
+      }
+      return wallets;
+    }
+
+    it("Should pay capped shares across batches and carry the rest over", async function () {
+      const cap = ethers.parseEther("0.01");
+      const strategy = await (await ethers.getContractFactory("CappedShareStrategy")).deploy(cap);
+      await expect(pool.connect(owner).setDistributionStrategy(strategy.target))
+        .to.emit(pool, "DistributionStrategyUpdated")
+        .withArgs(strategy.target);
+
+      const receivers = await addReceivers(30);
+      const amount = ethers.parseEther("0.5");
+      await pool.connect(giver).giveKindness(amount, { value: amount });
+
+      const rollover = amount - cap * 30n;
+      await expect(pool.connect(owner).startDistribution()).to.emit(pool, "DistributionRollover").withArgs(rollover);
+      expect(await pool.distributionAllocated()).to.equal(cap * 5n); // First batch of 25 already paid
+      await pool.connect(owner).continueDistribution();
+
+      expect(await pool.distributionInProgress()).to.be.false;
+      expect(await pool.distributionAllocated()).to.equal(0);
+      expect(await pool.carryOver()).to.equal(rollover);
+
+      let paid = 0n;
+      for (const receiver of receivers) {
+        paid += (await userRegistry.getUserStats(receiver.address)).totalReceived;
+      }
+      expect(paid + (await pool.carryOver())).to.equal(amount);
+      expect(await ethers.provider.getBalance(pool.target)).to.equal(rollover);
+    });
+
+    it("Should carry division dust over with a weighted strategy", async function () {
+      const strategy = await (await ethers.getContractFactory("FirstTimeReceiverStrategy")).deploy();
+      await pool.connect(owner).setDistributionStrategy(strategy.target);
+      await addReceivers(3);
+
+      const amount = ethers.parseEther("0.1") + 1n;
+      await pool.connect(giver).giveKindness(amount, { value: amount });
+      await pool.connect(owner).distributePool();
+
+      // All three are first-time receivers: equal weights, 0.1 ETH + 1 wei leaves 2 wei of dust
+      const dust = amount % 3n;
+      expect(await pool.carryOver()).to.equal(dust);
+      expect(await ethers.provider.getBalance(pool.target)).to.equal(dust);
+    });
+
+    it("Should carry unpaid shares over when a distribution is stopped", async function () {
+      const strategy = await (await ethers.getContractFactory("EqualSplitStrategy")).deploy();
+      await pool.connect(owner).setDistributionStrategy(strategy.target);
+      await addReceivers(30);
+
+      const amount = ethers.parseEther("0.3");
+      await pool.connect(giver).giveKindness(amount, { value: amount });
+      await pool.connect(owner).startDistribution();
+
+      // The strategy cannot be switched mid-run
+      await expect(pool.connect(owner).setDistributionStrategy(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        pool,
+        "DistributionInProgress"
+      );
+
+      await pool.connect(owner).emergencyStopDistribution();
+      const share = amount / 30n;
+      expect(await pool.carryOver()).to.equal(share * 5n);
+      expect(await pool.distributionAllocated()).to.equal(0);
+      expect(await ethers.provider.getBalance(pool.target)).to.equal(share * 5n);
+    });
+
+    it("Should only let the admin select a strategy", async function () {
+      await expect(pool.connect(giver).setDistributionStrategy(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        pool,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+});
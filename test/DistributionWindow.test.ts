@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { DistributionWindowOverride, toPoolParameters } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+const DAY = 24 * 60 * 60;
+const WINDOW_START = 12 * 60 * 60; // Noon UTC
+const WINDOW_LENGTH = 10 * 60;
+
+describe("Distribution Window", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let giver: any;
+  let receiver: any;
+
+  beforeEach(async function () {
+    [owner, giver, receiver] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner; the window follows the schedule
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+
+    // A ten minute window at noon; applies immediately because the pool has not been used yet
+    const params = toPoolParameters(await pool.getParameters());
+    await pool.connect(owner).updateParameters({
+      ...params,
+      distributionWindowStart: WINDOW_START,
+      distributionWindow: WINDOW_LENGTH,
+    });
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  // Start of the next UTC day, far enough ahead to fund the pool before its window
+  async function nextDay(): Promise<number> {
+    return (Math.floor((await time.latest()) / DAY) + 1) * DAY;
+  }
+
+  async function fundPool(day: number) {
+    await time.increaseTo(day + 60 * 60);
+    if (!(await userRegistry.isInReceiverPool(receiver.address))) {
+      await pool.connect(receiver).enterReceiverPool();
+    }
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+  }
+
+  it("Should open the window at the configured start", async function () {
+    const day = await nextDay();
+    await fundPool(day);
+
+    await time.setNextBlockTimestamp(day + WINDOW_START - 1);
+    await expect(pool.connect(owner).distributePool()).to.be.revertedWithCustomError(pool, "NotInDistributionWindow");
+
+    await time.setNextBlockTimestamp(day + WINDOW_START);
+    await expect(pool.connect(owner).distributePool()).to.emit(pool, "PoolDistributed");
+  });
+
+  it("Should close the window after the configured length", async function () {
+    const day = await nextDay();
+    await fundPool(day);
+    await time.setNextBlockTimestamp(day + WINDOW_START + WINDOW_LENGTH);
+    await expect(pool.connect(owner).distributePool()).to.be.revertedWithCustomError(pool, "NotInDistributionWindow");
+
+    // The last second of the next day's window is still open
+    await fundPool(day + DAY);
+    await time.setNextBlockTimestamp(day + DAY + WINDOW_START + WINDOW_LENGTH - 1);
+    await expect(pool.connect(owner).distributePool()).to.emit(pool, "PoolDistributed");
+  });
+
+  it("Should report the schedule for any timestamp", async function () {
+    const day = await nextDay();
+    expect(await pool.isScheduledDistributionWindow(day)).to.be.false;
+    expect(await pool.isScheduledDistributionWindow(day + WINDOW_START - 1)).to.be.false;
+    expect(await pool.isScheduledDistributionWindow(day + WINDOW_START)).to.be.true;
+    expect(await pool.isScheduledDistributionWindow(day + WINDOW_START + WINDOW_LENGTH - 1)).to.be.true;
+    expect(await pool.isScheduledDistributionWindow(day + WINDOW_START + WINDOW_LENGTH)).to.be.false;
+    expect(await pool.isScheduledDistributionWindow(day + DAY + WINDOW_START)).to.be.true;
+  });
+
+  it("Should return the next window opening", async function () {
+    const day = await nextDay();
+    await fundPool(day);
+    expect(await pool.getNextDistributionTime()).to.equal(day + WINDOW_START);
+
+    await time.increaseTo(day + WINDOW_START);
+    await pool.connect(owner).distributePool();
+    expect(await pool.getNextDistributionTime()).to.equal(day + DAY + WINDOW_START);
+  });
+
+  it("Should let the admin force the window open or closed", async function () {
+    const day = await nextDay();
+    await fundPool(day);
+
+    await expect(pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Closed))
+      .to.emit(pool, "DistributionWindowOverrideUpdated")
+      .withArgs(DistributionWindowOverride.Closed);
+    await time.increaseTo(day + WINDOW_START);
+    await expect(pool.connect(owner).distributePool()).to.be.revertedWithCustomError(pool, "NotInDistributionWindow");
+
+    // Back on schedule the window is open again
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.None);
+    expect(await pool.distributionWindowOverride()).to.equal(DistributionWindowOverride.None);
+    await pool.connect(owner).distributePool();
+
+    // Forced open outside the schedule
+    await fundPool(day + DAY);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+    expect(await pool.isWithinDistributionWindow()).to.be.true;
+    await expect(pool.connect(owner).distributePool()).to.emit(pool, "PoolDistributed");
+  });
+
+  it("Should only let the admin override the window", async function () {
+    await expect(
+      pool.connect(giver).setDistributionWindowOverride(DistributionWindowOverride.Open)
+    ).to.be.revertedWithCustomError(pool, "AccessControlUnauthorizedAccount");
+  });
+});
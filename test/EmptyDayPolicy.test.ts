@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { DistributionWindowOverride, EmptyDayPolicy } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Empty Day Policy", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let giver: any;
+  let otherGiver: any;
+  let receiver: any;
+
+  const eth = (amount: string) => ethers.parseEther(amount);
+
+  beforeEach(async function () {
+    [owner, giver, otherGiver, receiver] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner and open the window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  it("Should make each day without receivers refundable per giver", async function () {
+    await expect(pool.connect(owner).setEmptyDayPolicy(EmptyDayPolicy.Refund))
+      .to.emit(pool, "EmptyDayPolicyUpdated")
+      .withArgs(EmptyDayPolicy.Refund);
+
+    // Day 1: two givers, nobody to receive
+    await pool.connect(giver).giveKindness(eth("0.3"), { value: eth("0.3") });
+    await pool.connect(otherGiver).giveKindness(eth("0.2"), { value: eth("0.2") });
+    await expect(pool.connect(owner).rollOverPool())
+      .to.emit(pool, "PoolRefundable")
+      .withArgs(0, eth("0.5"))
+      .and.not.to.emit(pool, "DistributionRollover");
+
+    expect(await pool.dailyPool()).to.equal(0);
+    expect(await pool.carryOver()).to.equal(0);
+    expect(await pool.totalRefundable()).to.equal(eth("0.5"));
+    expect(await pool.poolRound()).to.equal(1);
+    expect(await pool.hasDistributedToday()).to.be.true;
+
+    // Day 2: the same giver again, still nobody to receive
+    await time.increase(24 * 60 * 60);
+    await pool.connect(giver).giveKindness(eth("0.1"), { value: eth("0.1") });
+    await pool.connect(owner).rollOverPool();
+
+    expect(await pool.getRefundableAmount(0, giver.address)).to.equal(eth("0.3"));
+    expect(await pool.getRefundableAmount(0, otherGiver.address)).to.equal(eth("0.2"));
+    expect(await pool.getRefundableAmount(1, giver.address)).to.equal(eth("0.1"));
+    expect(await pool.getRefundableAmount(1, otherGiver.address)).to.equal(0);
+    expect(await pool.totalRefundable()).to.equal(eth("0.6"));
+
+    // Day 3: refunds are claimed per day
+    await time.increase(24 * 60 * 60);
+    const claim = pool.connect(giver).claimRefund(0);
+    await expect(claim).to.emit(pool, "RefundClaimed").withArgs(giver.address, 0, eth("0.3"));
+    await expect(claim).to.changeEtherBalances([giver, pool], [eth("0.3"), -eth("0.3")]);
+    await pool.connect(giver).claimRefund(1);
+    await pool.connect(otherGiver).claimRefund(0);
+
+    expect(await pool.totalRefundable()).to.equal(0);
+    expect(await pool.getRefundableAmount(0, giver.address)).to.equal(0);
+    expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(0);
+    expect((await userRegistry.getUserStats(otherGiver.address)).totalGiven).to.equal(0);
+
+    await expect(pool.connect(giver).claimRefund(0)).to.be.revertedWithCustomError(pool, "NothingToClaim");
+    await expect(pool.connect(otherGiver).claimRefund(1)).to.be.revertedWithCustomError(pool, "NothingToClaim");
+  });
+
+  it("Should refund a day below the minimum pool balance but not a distributed day", async function () {
+    await pool.connect(owner).setEmptyDayPolicy(EmptyDayPolicy.Refund);
+    await pool.connect(receiver).enterReceiverPool();
+
+    // Day 1: below minPoolBalance
+    const small = eth("0.005");
+    await pool.connect(giver).giveKindness(small, { value: small });
+    await expect(pool.connect(owner).distributePool()).to.be.revertedWithCustomError(pool, "PoolBalanceBelowMinimum");
+    await expect(pool.connect(owner).rollOverPool()).to.emit(pool, "PoolRefundable").withArgs(0, small);
+
+    // Day 2: distributed normally, so that round cannot be refunded
+    await time.increase(24 * 60 * 60);
+    await pool.connect(giver).giveKindness(eth("0.5"), { value: eth("0.5") });
+    await pool.connect(owner).distributePool();
+    expect(await pool.poolRound()).to.equal(2);
+    expect((await userRegistry.getUserStats(receiver.address)).totalReceived).to.equal(eth("0.5"));
+
+    expect(await pool.getRefundableAmount(1, giver.address)).to.equal(0);
+    await expect(pool.connect(giver).claimRefund(1)).to.be.revertedWithCustomError(pool, "NothingToClaim");
+    await expect(pool.connect(giver).claimRefund(0)).to.changeEtherBalance(giver, small);
+    expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(eth("0.5"));
+  });
+
+  it("Should refund contributions net of withdrawals", async function () {
+    await pool.connect(owner).setEmptyDayPolicy(EmptyDayPolicy.Refund);
+
+    await pool.connect(giver).giveKindness(eth("0.5"), { value: eth("0.5") });
+    await pool.connect(giver).withdrawContribution(eth("0.2"));
+    await expect(pool.connect(owner).rollOverPool()).to.emit(pool, "PoolRefundable").withArgs(0, eth("0.3"));
+
+    // Refunded contributions can no longer be withdrawn, only claimed
+    await time.increase(2 * 60 * 60);
+    await expect(pool.connect(giver).withdrawContribution(eth("0.1"))).to.be.revertedWithCustomError(
+      pool,
+      "InsufficientContribution"
+    );
+    await expect(pool.connect(giver).claimRefund(0)).to.changeEtherBalance(giver, eth("0.3"));
+    expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(0);
+  });
+
+  it("Should hold the pool over several days until it can be distributed", async function () {
+    await pool.connect(owner).setEmptyDayPolicy(EmptyDayPolicy.Hold);
+
+    // Days 1 and 2: held, the pool keeps growing
+    await pool.connect(giver).giveKindness(eth("0.2"), { value: eth("0.2") });
+    await expect(pool.connect(owner).rollOverPool())
+      .to.emit(pool, "PoolHeld")
+      .withArgs(0, eth("0.2"))
+      .and.not.to.emit(pool, "DistributionRollover");
+    expect(await pool.dailyPool()).to.equal(eth("0.2"));
+    expect(await pool.hasDistributedToday()).to.be.true;
+
+    await time.increase(24 * 60 * 60);
+    await pool.connect(otherGiver).giveKindness(eth("0.1"), { value: eth("0.1") });
+    await expect(pool.connect(owner).rollOverPool()).to.emit(pool, "PoolHeld").withArgs(0, eth("0.3"));
+    expect(await pool.poolRound()).to.equal(0);
+
+    // Day 3: a receiver arrives and gets everything held
+    await time.increase(24 * 60 * 60);
+    await pool.connect(receiver).enterReceiverPool();
+    await pool.connect(owner).distributePool();
+
+    expect((await userRegistry.getUserStats(receiver.address)).totalReceived).to.equal(eth("0.3"));
+    expect(await pool.dailyPool()).to.equal(0);
+    expect(await pool.poolRound()).to.equal(1);
+    await expect(pool.connect(giver).claimRefund(0)).to.be.revertedWithCustomError(pool, "NothingToClaim");
+  });
+
+  it("Should refund every held day once the policy changes to refund", async function () {
+    await pool.connect(owner).setEmptyDayPolicy(EmptyDayPolicy.Hold);
+    await pool.connect(giver).giveKindness(eth("0.2"), { value: eth("0.2") });
+    await pool.connect(owner).rollOverPool();
+
+    await time.increase(24 * 60 * 60);
+    await pool.connect(giver).giveKindness(eth("0.1"), { value: eth("0.1") });
+    await pool.connect(otherGiver).giveKindness(eth("0.4"), { value: eth("0.4") });
+    await pool.connect(owner).setEmptyDayPolicy(EmptyDayPolicy.Refund);
+    await expect(pool.connect(owner).rollOverPool()).to.emit(pool, "PoolRefundable").withArgs(0, eth("0.7"));
+
+    await expect(pool.connect(giver).claimRefund(0)).to.changeEtherBalance(giver, eth("0.3"));
+    await expect(pool.connect(otherGiver).claimRefund(0)).to.changeEtherBalance(otherGiver, eth("0.4"));
+    expect(await pool.totalRefundable()).to.equal(0);
+  });
+
+  it("Should refund contributions and carry sponsor matches over", async function () {
+    const [, , , , sponsor] = await ethers.getSigners();
+    const SponsorMatching = await ethers.getContractFactory("SponsorMatching");
+    const matching = await SponsorMatching.deploy(owner.address, await pool.getAddress(), ethers.ZeroAddress);
+    await pool.connect(owner).setContributionMatcher(matching.target);
+    const expiry = (await time.latest()) + 7 * 24 * 60 * 60;
+    await matching.connect(sponsor).createSponsorship(eth("1"), 10000, eth("1"), expiry, { value: eth("1") });
+    await pool.connect(owner).setEmptyDayPolicy(EmptyDayPolicy.Refund);
+
+    await pool.connect(giver).giveKindness(eth("0.5"), { value: eth("0.5") });
+    await expect(pool.connect(owner).rollOverPool())
+      .to.emit(pool, "PoolRefundable")
+      .withArgs(0, eth("0.5"))
+      .and.to.emit(pool, "DistributionRollover")
+      .withArgs(eth("0.5"));
+
+    expect(await pool.carryOver()).to.equal(eth("0.5"));
+    await expect(pool.connect(giver).claimRefund(0)).to.changeEtherBalance(giver, eth("0.5"));
+  });
+
+  it("Should keep rolling over by default and restrict the policy to the admin", async function () {
+    expect(await pool.emptyDayPolicy()).to.equal(EmptyDayPolicy.Rollover);
+
+    await pool.connect(giver).giveKindness(eth("0.5"), { value: eth("0.5") });
+    await expect(pool.connect(owner).rollOverPool())
+      .to.emit(pool, "DistributionRollover")
+      .withArgs(eth("0.5"))
+      .and.not.to.emit(pool, "PoolRefundable");
+    expect(await pool.totalRefundable()).to.equal(0);
+    await expect(pool.connect(giver).claimRefund(0)).to.be.revertedWithCustomError(pool, "NothingToClaim");
+
+    await expect(pool.connect(giver).setEmptyDayPolicy(EmptyDayPolicy.Refund)).to.be.revertedWithCustomError(
+      pool,
+      "AccessControlUnauthorizedAccount"
+    );
+  });
+});
@@ -0,0 +1,321 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { PoolLens } from "../typechain-types";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { KindnessPoolClient } from "../scripts/client/KindnessPoolClient";
+import { KindnessPoolError, decodeKindnessPoolError, isKindnessPoolError } from "../scripts/client/errors";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("KindnessPoolClient", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let giver: any;
+  let receiver: any;
+  let giverClient: KindnessPoolClient;
+  let receiverClient: KindnessPoolClient;
+
+  async function expectClientError(promise: Promise<unknown>, errorName: string, reverted: boolean) {
+    try {
+      await promise;
+    } catch (error) {
+      expect(isKindnessPoolError(error, errorName), `expected ${errorName}, got ${error}`).to.be.true;
+      expect((error as KindnessPoolError).reverted).to.equal(reverted);
+      return error as KindnessPoolError;
+    }
+    expect.fail(`Expected ${errorName} to be thrown`);
+  }
+
+  beforeEach(async function () {
+    [owner, giver, receiver] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    giverClient = await KindnessPoolClient.connect(await pool.getAddress(), giver);
+    receiverClient = await KindnessPoolClient.connect(await pool.getAddress(), receiver);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  describe("Connection", function () {
+    it("Should resolve the UserRegistry from the pool", async function () {
+      expect(await giverClient.userRegistry.getAddress()).to.equal(await userRegistry.getAddress());
+      expect(giverClient.distributor).to.be.undefined;
+    });
+
+    it("Should require a distributor for distribution helpers", async function () {
+      try {
+        await giverClient.attemptDistribution();
+        expect.fail("Expected attemptDistribution to throw");
+      } catch (error) {
+        expect((error as Error).message).to.contain("distributorAddress");
+      }
+    });
+  });
+
+  describe("Giving", function () {
+    it("Should send giveKindness with a matching value", async function () {
+      const amount = ethers.parseEther("0.5");
+      const tx = await giverClient.giveKindness(amount);
+
+      await expect(tx).to.emit(pool, "KindnessGiven").withArgs(giver.address, amount);
+      expect(await pool.dailyPool()).to.equal(amount);
+    });
+
+    it("Should reject amounts outside the contribution limits before sending", async function () {
+      const nonceBefore = await ethers.provider.getTransactionCount(giver.address);
+
+      await expectClientError(giverClient.giveKindness(ethers.parseEther("0.0001")), "AmountTooLow", false);
+      await expectClientError(giverClient.giveKindness(ethers.parseEther("1.5")), "AmountTooHigh", false);
+
+      expect(await ethers.provider.getTransactionCount(giver.address)).to.equal(nonceBefore);
+    });
+
+    it("Should reject contributions above the remaining daily limit before sending", async function () {
+      const amount = ethers.parseEther("1");
+      for (let i = 0; i < 5; i++) {
+        await giverClient.giveKindness(amount);
+      }
+      expect(await giverClient.getRemainingDailyContribution(giver.address)).to.equal(0);
+
+      const error = await expectClientError(
+        giverClient.giveKindness(ethers.parseEther("0.001")),
+        "DailyContributionLimitExceeded",
+        false
+      );
+      expect(error.args).to.deep.equal([ethers.parseEther("0.001"), 0n]);
+    });
+
+    it("Should validate withdrawals against the withdrawable amount", async function () {
+      await giverClient.giveKindness(ethers.parseEther("0.5"));
+
+      await expectClientError(
+        giverClient.withdrawContribution(ethers.parseEther("0.0001")),
+        "WithdrawalAmountTooLow",
+        false
+      );
+      await expectClientError(
+        giverClient.withdrawContribution(ethers.parseEther("0.6")),
+        "InsufficientContribution",
+        false
+      );
+
+      await expect(giverClient.withdrawContribution(ethers.parseEther("0.2")))
+        .to.emit(pool, "ContributionWithdrawn")
+        .withArgs(giver.address, ethers.parseEther("0.2"));
+    });
+  });
+
+  describe("Revert Decoding", function () {
+    it("Should decode contract reverts into typed errors", async function () {
+      await receiverClient.enterReceiverPool();
+      await expectClientError(receiverClient.enterReceiverPool(), "TooManyActions", true);
+    });
+
+    it("Should decode reverts for rules the client does not pre-check", async function () {
+      await giverClient.giveKindness(ethers.parseEther("0.1"));
+      await expectClientError(giverClient.enterReceiverPool(), "ContributedToday", true);
+    });
+
+    it("Should decode DailyContributionLimitExceeded from a raw contract call", async function () {
+      const amount = ethers.parseEther("1");
+      for (let i = 0; i < 5; i++) {
+        await pool.connect(giver).giveKindness(amount, { value: amount });
+      }
+
+      try {
+        await pool.connect(giver).giveKindness(amount, { value: amount });
+        expect.fail("Expected giveKindness to revert");
+      } catch (error) {
+        const decoded = decodeKindnessPoolError(error);
+        expect(isKindnessPoolError(decoded, "DailyContributionLimitExceeded")).to.be.true;
+        expect((decoded as KindnessPoolError).reverted).to.be.true;
+      }
+    });
+
+    it("Should leave non-revert errors untouched", async function () {
+      const error = new Error("network down");
+      expect(decodeKindnessPoolError(error)).to.equal(error);
+    });
+
+    it("Should decode registry errors", async function () {
+      await expectClientError(receiverClient.setName(""), "EmptyName", false);
+      await expectClientError(receiverClient.setName("x".repeat(33)), "NameTooLong", false);
+      await receiverClient.setName("kind soul");
+      expect((await userRegistry.getUserStats(receiver.address)).name).to.equal("kind soul");
+    });
+  });
+
+  describe("Views", function () {
+    it("Should return named daily stats", async function () {
+      const amount = ethers.parseEther("0.3");
+      await giverClient.giveKindness(amount);
+
+      const stats = await giverClient.getUserDailyStats(giver.address);
+      expect(stats.contributionAmount).to.equal(amount);
+      expect(stats.receiverEntries).to.equal(0);
+      expect(stats.receiverExits).to.equal(0);
+      expect(stats.canContribute).to.be.true;
+      expect(stats.canEnterReceiverPool).to.be.false;
+      expect(stats.canLeaveReceiverPool).to.be.false;
+    });
+
+    it("Should return named withdrawal stats", async function () {
+      const amount = ethers.parseEther("0.3");
+      await giverClient.giveKindness(amount);
+
+      const stats = await giverClient.getUserWithdrawalStats(giver.address);
+      expect(stats.withdrawalCount).to.equal(0);
+      expect(stats.canWithdraw).to.be.true;
+      expect(stats.withdrawableAmount).to.equal(amount);
+    });
+
+    it("Should expose contribution limits and receiver status", async function () {
+      const limits = await giverClient.getContributionLimits();
+      expect(limits.minKindnessAmount).to.equal(await pool.MIN_KINDNESS_AMOUNT());
+      expect(limits.maxKindnessAmount).to.equal(await pool.MAX_KINDNESS_AMOUNT());
+      expect(limits.maxDailyContribution).to.equal(await pool.MAX_DAILY_CONTRIBUTION());
+
+      await receiverClient.enterReceiverPool();
+      expect(await receiverClient.isInReceiverPool(receiver.address)).to.be.true;
+    });
+  });
+
+  describe("Batch views", function () {
+    let lensClient: KindnessPoolClient;
+    let lens: PoolLens;
+
+    beforeEach(async function () {
+      const PoolLens = await ethers.getContractFactory("PoolLens");
+      lens = await PoolLens.deploy(await pool.getAddress());
+      await lens.waitForDeployment();
+      lensClient = await KindnessPoolClient.connect(await pool.getAddress(), giver, {
+        lensAddress: await lens.getAddress(),
+      });
+    });
+
+    it("Should page through receivers with their names", async function () {
+      const accounts = (await ethers.getSigners()).slice(3, 8);
+      for (const account of accounts) {
+        await pool.connect(account).enterReceiverPool();
+      }
+      await userRegistry.connect(accounts[4]).setName("last in line");
+
+      const pages = [];
+      for (let offset = 0n; offset < 6n; offset += 2n) {
+        pages.push(await lensClient.getReceivers(offset, 2));
+      }
+      expect(pages.map((page) => page.items.length)).to.deep.equal([2, 2, 1]);
+      expect(pages.every((page) => page.total === 5n)).to.be.true;
+      expect(pages.flatMap((page) => page.items.map((info) => info.receiver))).to.deep.equal(
+        accounts.map((account) => account.address)
+      );
+      expect(pages[2].items[0]).to.deep.equal({
+        receiver: accounts[4].address,
+        name: "last in line",
+        timesReceived: 0n,
+        totalReceived: 0n,
+      });
+
+      // Past the end, empty pages and the page size limit
+      expect(await lensClient.getReceivers(5n, 2)).to.deep.equal({ items: [], total: 5n });
+      expect(await lensClient.getReceivers(100n, 2)).to.deep.equal({ items: [], total: 5n });
+      expect((await lensClient.getReceivers(0n, 0)).items).to.deep.equal([]);
+      expect((await lensClient.getReceivers(0n, 100)).items.length).to.equal(5);
+      await expect(lensClient.getReceivers(0n, 101)).to.be.revertedWithCustomError(lens, "InvalidParameters");
+    });
+
+    it("Should page through failed transfers with their next retry time", async function () {
+      const TestReceiver = await ethers.getContractFactory("TestReceiver");
+      const rejecting = [];
+      for (let i = 0; i < 3; i++) {
+        const testReceiver = await TestReceiver.deploy(await pool.getAddress());
+        rejecting.push(await testReceiver.getAddress());
+      }
+      await giverClient.giveKindness(ethers.parseEther("0.3"));
+      await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+      await pool.connect(owner).distributePool();
+      const failedAt = BigInt(await time.latest());
+
+      const first = await lensClient.getFailedTransfers(0n, 2);
+      const rest = await lensClient.getFailedTransfers(2n, 2);
+      expect(first.total).to.equal(3);
+      expect(first.items.length).to.equal(2);
+      expect(rest.items.length).to.equal(1);
+      expect([...first.items, ...rest.items].map((info) => info.receiver)).to.have.members(rejecting);
+      expect(rest.items[0]).to.deep.equal({
+        receiver: rest.items[0].receiver,
+        amount: ethers.parseEther("0.1"),
+        retryCount: 0n,
+        nextRetryTime: failedAt + (await pool.RETRY_COOLDOWN()),
+      });
+      expect(await lensClient.getFailedTransfers(3n, 2)).to.deep.equal({ items: [], total: 3n });
+
+      // Without a lens the client cannot serve batch views
+      try {
+        await giverClient.getFailedTransfers(0n, 2);
+        expect.fail("Expected getFailedTransfers to throw");
+      } catch (error) {
+        expect((error as Error).message).to.contain("lensAddress");
+      }
+    });
+  });
+
+  describe("Distribution", function () {
+    it("Should distribute through the TimeBasedDistributor", async function () {
+      const TimeBasedDistributor = await ethers.getContractFactory("TimeBasedDistributor");
+      const distributor = await TimeBasedDistributor.deploy(await pool.getAddress());
+      await distributor.waitForDeployment();
+      await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), await distributor.getAddress());
+      await distributor.grantRole(await distributor.DISTRIBUTOR_ROLE(), owner.address);
+
+      const ownerClient = await KindnessPoolClient.connect(await pool.getAddress(), owner, {
+        distributorAddress: await distributor.getAddress(),
+      });
+
+      await giverClient.giveKindness(ethers.parseEther("0.5"));
+      await receiverClient.enterReceiverPool();
+
+      await expectClientError(ownerClient.attemptDistribution(), "NotInDistributionWindow", true);
+
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+      await expect(ownerClient.attemptDistribution())
+        .to.emit(pool, "KindnessReceived")
+        .withArgs(receiver.address, ethers.parseEther("0.5"));
+    });
+
+    it("Should claim credited shares in claim mode", async function () {
+      await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+      await pool.connect(owner).setClaimMode(true);
+
+      await giverClient.giveKindness(ethers.parseEther("0.5"));
+      await receiverClient.enterReceiverPool();
+      await expectClientError(receiverClient.claim(), "NothingToClaim", false);
+
+      await pool.connect(owner).startDistribution();
+      expect(await receiverClient.getClaimableBalance(receiver.address)).to.equal(ethers.parseEther("0.5"));
+
+      await expect(receiverClient.claim(owner.address))
+        .to.emit(pool, "KindnessClaimed")
+        .withArgs(receiver.address, owner.address, ethers.parseEther("0.5"));
+      expect(await receiverClient.getClaimableBalance(receiver.address)).to.equal(0);
+    });
+  });
+});
+
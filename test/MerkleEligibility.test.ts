@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { MerkleEligibility } from "../typechain-types";
+import { AllowlistTree, parseAllowlist } from "../scripts/eligibility/merkle";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Merkle Receiver Eligibility", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let eligibility: MerkleEligibility;
+  let tree: AllowlistTree;
+  let owner: any;
+  let verified1: any;
+  let verified2: any;
+  let outsider: any;
+
+  beforeEach(async function () {
+    [owner, verified1, verified2, outsider] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Only the verified accounts (plus a few others) are in the allowlist
+    const others = Array.from({ length: 5 }, (_, i) => ethers.getAddress(ethers.toBeHex(i + 1, 20)));
+    tree = new AllowlistTree([verified1.address, verified2.address, ...others]);
+    const MerkleEligibility = await ethers.getContractFactory("MerkleEligibility");
+    eligibility = await MerkleEligibility.deploy(owner.address, tree.root);
+    await eligibility.waitForDeployment();
+
+    await expect(pool.connect(owner).setReceiverEligibility(eligibility.target))
+      .to.emit(pool, "ReceiverEligibilityUpdated")
+      .withArgs(eligibility.target);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  it("Should let allowlisted accounts enter with a valid proof", async function () {
+    await expect(pool.connect(verified1).enterReceiverPoolWithProof(tree.encodeProof(verified1.address)))
+      .to.emit(pool, "EnteredReceiverPool")
+      .withArgs(verified1.address);
+    await pool.connect(verified2).enterReceiverPoolWithProof(tree.encodeProof(verified2.address));
+
+    expect(await pool.getReceiverCount()).to.equal(2);
+    expect(await userRegistry.isInReceiverPool(verified1.address)).to.be.true;
+  });
+
+  it("Should reject missing, foreign and forged proofs", async function () {
+    await expect(pool.connect(verified1).enterReceiverPool()).to.be.revertedWithCustomError(pool, "NotEligible");
+    await expect(
+      pool.connect(outsider).enterReceiverPoolWithProof(tree.encodeProof(verified1.address))
+    ).to.be.revertedWithCustomError(pool, "NotEligible");
+
+    const forged = ethers.AbiCoder.defaultAbiCoder().encode(["bytes32[]"], [[ethers.keccak256("0x01")]]);
+    await expect(pool.connect(verified1).enterReceiverPoolWithProof(forged)).to.be.revertedWithCustomError(
+      pool,
+      "NotEligible"
+    );
+    expect(await pool.getReceiverCount()).to.equal(0);
+  });
+
+  it("Should only accept proofs for the current root after a rotation", async function () {
+    await pool.connect(verified1).enterReceiverPoolWithProof(tree.encodeProof(verified1.address));
+
+    // verified2 drops out of the new snapshot, outsider joins it
+    const rotated = new AllowlistTree([verified1.address, outsider.address]);
+    await expect(eligibility.connect(owner).setMerkleRoot(rotated.root))
+      .to.emit(eligibility, "MerkleRootUpdated")
+      .withArgs(tree.root, rotated.root, 2);
+
+    await expect(
+      pool.connect(verified2).enterReceiverPoolWithProof(tree.encodeProof(verified2.address))
+    ).to.be.revertedWithCustomError(pool, "NotEligible");
+    await pool.connect(outsider).enterReceiverPoolWithProof(rotated.encodeProof(outsider.address));
+
+    // Receivers admitted under the old root keep their place
+    expect(await userRegistry.isInReceiverPool(verified1.address)).to.be.true;
+    expect(await userRegistry.isInReceiverPool(outsider.address)).to.be.true;
+  });
+
+  it("Should let anyone enter once the gate is removed", async function () {
+    await pool.connect(owner).setReceiverEligibility(ethers.ZeroAddress);
+    await pool.connect(outsider).enterReceiverPool();
+    expect(await userRegistry.isInReceiverPool(outsider.address)).to.be.true;
+  });
+
+  it("Should only let the admin change the gate or the root", async function () {
+    await expect(pool.connect(outsider).setReceiverEligibility(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+      pool,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(eligibility.connect(outsider).setMerkleRoot(ethers.keccak256("0x01")))
+      .to.be.revertedWithCustomError(eligibility, "AccessControlUnauthorizedAccount");
+    await expect(eligibility.connect(owner).setMerkleRoot(ethers.ZeroHash)).to.be.revertedWithCustomError(
+      eligibility,
+      "InvalidParameters"
+    );
+  });
+
+  it("Should build the same tree from CSV and JSON lists", async function () {
+    const csv = `fid,address\n1,${verified1.address}\n2,${verified2.address.toLowerCase()}\n3,${verified1.address}\n`;
+    const json = JSON.stringify([{ fid: 2, address: verified2.address }, verified1.address]);
+
+    const fromCsv = new AllowlistTree(parseAllowlist(csv, "csv"));
+    const fromJson = new AllowlistTree(parseAllowlist(json, "json"));
+    expect(fromCsv.root).to.equal(fromJson.root);
+    expect(fromCsv.accounts).to.have.length(2);
+    expect(fromCsv.has(outsider.address)).to.be.false;
+    expect(() => fromCsv.getProof(outsider.address)).to.throw("not in the allowlist");
+    expect(() => parseAllowlist(`address\nnot-an-address\n`, "csv")).to.throw("not an address");
+
+    // Every proof verifies on-chain, including the single-leaf tree
+    for (const accounts of [[verified1.address], Array.from({ length: 9 }, (_, i) => ethers.toBeHex(i + 1, 20))]) {
+      const listTree = new AllowlistTree(accounts);
+      await eligibility.connect(owner).setMerkleRoot(listTree.root);
+      for (const account of listTree.accounts) {
+        expect(await eligibility.isEligible(account, listTree.encodeProof(account))).to.be.true;
+      }
+    }
+  });
+});
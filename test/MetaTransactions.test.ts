@@ -0,0 +1,177 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { KindnessForwarder } from "../typechain-types";
+import { Relayer, RelayRejectedError } from "../scripts/relayer/Relayer";
+import { signForwardRequest } from "../scripts/relayer/forwardRequest";
+import { isKindnessPoolError } from "../scripts/client/errors";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Meta-Transactions", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let forwarder: KindnessForwarder;
+  let relayer: Relayer;
+  let owner: any;
+  let relayerSigner: any;
+  let receiver: any;
+  let attacker: any;
+
+  beforeEach(async function () {
+    [owner, relayerSigner, attacker] = await ethers.getSigners();
+    // A receiver without any ETH for gas
+    receiver = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    const KindnessForwarder = await ethers.getContractFactory("KindnessForwarder");
+    forwarder = await KindnessForwarder.deploy();
+    await forwarder.waitForDeployment();
+
+    await expect(pool.connect(owner).setTrustedForwarder(forwarder.target))
+      .to.emit(pool, "TrustedForwarderUpdated")
+      .withArgs(forwarder.target);
+    await userRegistry.connect(owner).setTrustedForwarder(forwarder.target);
+
+    relayer = await Relayer.forPool(forwarder.connect(relayerSigner), pool);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function signPoolCall(signer: any, functionName: string, args: unknown[] = []) {
+    const data = pool.interface.encodeFunctionData(functionName as any, args as any);
+    return signForwardRequest(signer, forwarder, { to: await pool.getAddress(), data });
+  }
+
+  async function expectRelayError(request: Promise<unknown>, errorName: string) {
+    const error = await request.then(
+      () => undefined,
+      (e) => e
+    );
+    expect(isKindnessPoolError(error, errorName), `expected ${errorName}, got ${error}`).to.be.true;
+  }
+
+  it("Should let a receiver without ETH enter and leave the receiver pool through the relayer", async function () {
+    await expect(relayer.relay(await signPoolCall(receiver, "enterReceiverPool")))
+      .to.emit(pool, "EnteredReceiverPool")
+      .withArgs(receiver.address);
+    expect(await userRegistry.isInReceiverPool(receiver.address)).to.be.true;
+    expect(await pool.receivers(0)).to.equal(receiver.address);
+
+    await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+    await expect(relayer.relay(await signPoolCall(receiver, "leaveReceiverPool")))
+      .to.emit(pool, "LeftReceiverPool")
+      .withArgs(receiver.address);
+
+    expect(await ethers.provider.getBalance(receiver.address)).to.equal(0);
+    expect(await forwarder.nonces(receiver.address)).to.equal(2);
+  });
+
+  it("Should apply the per-user limits to the signer, not the relayer", async function () {
+    await relayer.relay(await signPoolCall(receiver, "enterReceiverPool"));
+
+    expect(await pool.transactionCount(receiver.address)).to.equal(1);
+    expect(await pool.dailyReceiverEntries(receiver.address)).to.equal(1);
+    expect(await pool.lastReceiverPoolAction(receiver.address)).to.equal(await time.latest());
+    expect(await pool.transactionCount(relayerSigner.address)).to.equal(0);
+    expect(await pool.lastReceiverPoolAction(forwarder.target)).to.equal(0);
+
+    // The cooldown and the daily entry limit follow the signer
+    await expectRelayError(relayer.relay(await signPoolCall(receiver, "leaveReceiverPool")), "TooManyActions");
+    await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+    await relayer.relay(await signPoolCall(receiver, "leaveReceiverPool"));
+    await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+    await expectRelayError(
+      relayer.relay(await signPoolCall(receiver, "enterReceiverPool")),
+      "DailyReceiverEntryLimitExceeded"
+    );
+
+    // Other users relayed through the same forwarder are unaffected
+    const other = ethers.Wallet.createRandom().connect(ethers.provider);
+    await relayer.relay(await signPoolCall(other, "enterReceiverPool"));
+    expect(await userRegistry.isInReceiverPool(other.address)).to.be.true;
+  });
+
+  it("Should let users set their name through the relayer", async function () {
+    const data = userRegistry.interface.encodeFunctionData("setName", ["Alice"]);
+    const request = await signForwardRequest(receiver, forwarder, { to: userRegistry.target as string, data });
+
+    await expect(relayer.relay(request)).to.emit(userRegistry, "UserNameUpdated").withArgs(receiver.address, "Alice");
+    expect((await userRegistry.getUserStats(receiver.address)).name).to.equal("Alice");
+  });
+
+  it("Should reject replayed, expired and tampered requests", async function () {
+    const request = await signPoolCall(receiver, "enterReceiverPool");
+    await relayer.relay(request);
+    await expect(relayer.relay(request)).to.be.rejectedWith(RelayRejectedError, "InvalidRequest");
+    await expect(forwarder.connect(relayerSigner).execute(request)).to.be.revertedWithCustomError(
+      forwarder,
+      "ERC2771ForwarderInvalidSigner"
+    );
+
+    const other = ethers.Wallet.createRandom().connect(ethers.provider);
+    const expiring = await signPoolCall(other, "enterReceiverPool");
+    await time.increaseTo(expiring.deadline + 1n);
+    await expect(relayer.relay(expiring)).to.be.rejectedWith(RelayRejectedError, "InvalidRequest");
+
+    // Claiming to be another account invalidates the signature
+    const forged = { ...(await signPoolCall(attacker, "enterReceiverPool")), from: other.address };
+    await expect(relayer.relay(forged)).to.be.rejectedWith(RelayRejectedError, "InvalidRequest");
+    expect(await userRegistry.isInReceiverPool(other.address)).to.be.false;
+  });
+
+  it("Should only relay allowlisted calls without value", async function () {
+    const params = await pool.getParameters();
+    const adminCall = await signPoolCall(owner, "updateParameters", [params]);
+    await expect(relayer.relay(adminCall)).to.be.rejectedWith(RelayRejectedError, "CallNotAllowed");
+
+    const amount = ethers.parseEther("0.1");
+    const data = pool.interface.encodeFunctionData("giveKindness", [amount]);
+    const funded = await signForwardRequest(attacker, forwarder, { to: await pool.getAddress(), data, value: amount });
+    await expect(relayer.relay(funded)).to.be.rejectedWith(RelayRejectedError, "ValueNotAllowed");
+  });
+
+  it("Should ignore the appended sender unless the caller is the trusted forwarder", async function () {
+    // An ordinary caller appending someone else's address still acts as itself
+    const data = ethers.concat([pool.interface.encodeFunctionData("enterReceiverPool"), receiver.address]);
+    await attacker.sendTransaction({ to: pool.target, data });
+    expect(await userRegistry.isInReceiverPool(attacker.address)).to.be.true;
+    expect(await userRegistry.isInReceiverPool(receiver.address)).to.be.false;
+
+    // Once the pool stops trusting the forwarder, its requests are refused
+    await pool.connect(owner).setTrustedForwarder(ethers.ZeroAddress);
+    expect(await pool.isTrustedForwarder(forwarder.target)).to.be.false;
+    const request = await signPoolCall(receiver, "enterReceiverPool");
+    await expect(relayer.relay(request)).to.be.rejectedWith(RelayRejectedError, "InvalidRequest");
+    await expect(forwarder.connect(relayerSigner).execute(request)).to.be.revertedWithCustomError(
+      forwarder,
+      "ERC2771UntrustfulTarget"
+    );
+  });
+
+  it("Should only let the admin and registry owner set the forwarder", async function () {
+    await expect(pool.connect(attacker).setTrustedForwarder(attacker.address)).to.be.revertedWithCustomError(
+      pool,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(userRegistry.connect(attacker).setTrustedForwarder(attacker.address)).to.be.revertedWithCustomError(
+      userRegistry,
+      "OwnableUnauthorizedAccount"
+    );
+    expect(await pool.trustedForwarder()).to.equal(forwarder.target);
+    expect(await userRegistry.trustedForwarder()).to.equal(forwarder.target);
+  });
+});
@@ -0,0 +1,169 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { TestReceiver } from "../typechain-types";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Payout Redirects", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let testReceiver: TestReceiver;
+  let owner: any;
+  let giver: any;
+  let payout: any;
+  let relayer: any;
+  let share: bigint;
+
+  beforeEach(async function () {
+    [owner, giver, payout, relayer] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner and open the window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+    // TestReceiver enters the receiver pool in its constructor and rejects ETH by default
+    const TestReceiver = await ethers.getContractFactory("TestReceiver");
+    testReceiver = await TestReceiver.deploy(await pool.getAddress());
+    await testReceiver.waitForDeployment();
+
+    share = ethers.parseEther("0.5");
+    await pool.connect(giver).giveKindness(share, { value: share });
+    await pool.connect(owner).distributePool();
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function signRedirect(signer: any, receiver: string, payoutAddress: string, deadline: bigint) {
+    const { chainId } = await ethers.provider.getNetwork();
+    return signer.signTypedData(
+      { name: "KindnessPool", version: "1", chainId, verifyingContract: await pool.getAddress() },
+      {
+        PayoutRedirect: [
+          { name: "receiver", type: "address" },
+          { name: "payout", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { receiver, payout: payoutAddress, nonce: await pool.payoutRedirectNonces(receiver), deadline }
+    );
+  }
+
+  it("Should let a receiver with a failed transfer name a payout address", async function () {
+    expect(await pool.getFailedTransferAmount(testReceiver.target)).to.equal(share);
+
+    await expect(testReceiver.setPayoutRedirect(payout.address))
+      .to.emit(pool, "PayoutRedirectSet")
+      .withArgs(testReceiver.target, payout.address);
+
+    expect(await pool.payoutRedirects(testReceiver.target)).to.equal(payout.address);
+    const [receivers, payouts, amounts] = await pool.getPendingRedirections();
+    expect(receivers).to.deep.equal([testReceiver.target]);
+    expect(payouts).to.deep.equal([payout.address]);
+    expect(amounts).to.deep.equal([share]);
+  });
+
+  it("Should pay the redirect address on emergency withdrawal", async function () {
+    await testReceiver.setPayoutRedirect(payout.address);
+
+    const tx = pool.completeEmergencyWithdrawal(testReceiver.target);
+    await expect(tx).to.emit(pool, "PayoutRedirected").withArgs(testReceiver.target, payout.address, share);
+    await expect(tx).to.changeEtherBalance(payout, share);
+
+    expect(await pool.getFailedTransferAmount(testReceiver.target)).to.equal(0);
+    expect(await pool.payoutRedirects(testReceiver.target)).to.equal(ethers.ZeroAddress);
+    expect(await pool.getUnclaimedFunds()).to.equal(0);
+    expect((await pool.getPendingRedirections())[0]).to.deep.equal([]);
+  });
+
+  it("Should pay the redirect address on retry", async function () {
+    await testReceiver.setPayoutRedirect(payout.address);
+    await time.increase(await pool.RETRY_COOLDOWN());
+
+    const tx = pool.autoRetryFailedTransfers();
+    await expect(tx)
+      .to.emit(pool, "TransferRetried")
+      .withArgs(testReceiver.target, share, true)
+      .and.to.emit(pool, "PayoutRedirected")
+      .withArgs(testReceiver.target, payout.address, share);
+    await expect(tx).to.changeEtherBalance(payout, share);
+
+    expect(await pool.getUnclaimedFunds()).to.equal(0);
+  });
+
+  it("Should accept a signed redirect submitted by a relayer", async function () {
+    // TestReceiver validates EIP-1271 signatures from its deployer
+    const deadline = BigInt(await time.latest()) + 3600n;
+    const signature = await signRedirect(owner, testReceiver.target as string, payout.address, deadline);
+
+    await expect(
+      pool.connect(relayer).setPayoutRedirectWithSig(testReceiver.target, payout.address, deadline, signature)
+    )
+      .to.emit(pool, "PayoutRedirectSet")
+      .withArgs(testReceiver.target, payout.address);
+
+    expect(await pool.payoutRedirectNonces(testReceiver.target)).to.equal(1);
+
+    // The same signature cannot be replayed
+    await expect(
+      pool.connect(relayer).setPayoutRedirectWithSig(testReceiver.target, payout.address, deadline, signature)
+    ).to.be.revertedWithCustomError(pool, "InvalidSignature");
+  });
+
+  it("Should reject expired and foreign signatures", async function () {
+    const expired = BigInt(await time.latest()) - 1n;
+    const expiredSignature = await signRedirect(owner, testReceiver.target as string, payout.address, expired);
+    await expect(
+      pool.setPayoutRedirectWithSig(testReceiver.target, payout.address, expired, expiredSignature)
+    ).to.be.revertedWithCustomError(pool, "SignatureExpired");
+
+    const deadline = BigInt(await time.latest()) + 3600n;
+    const foreignSignature = await signRedirect(relayer, testReceiver.target as string, relayer.address, deadline);
+    await expect(
+      pool.setPayoutRedirectWithSig(testReceiver.target, relayer.address, deadline, foreignSignature)
+    ).to.be.revertedWithCustomError(pool, "InvalidSignature");
+  });
+
+  it("Should reject redirects without a pending failed transfer", async function () {
+    await expect(testReceiver.setPayoutRedirect(ethers.ZeroAddress)).to.be.revertedWithCustomError(pool, "ZeroAddress");
+    await expect(pool.connect(payout).setPayoutRedirect(relayer.address)).to.be.revertedWithCustomError(
+      pool,
+      "NoFailedTransfer"
+    );
+  });
+
+  it("Should drop the redirect when the transfer is redistributed", async function () {
+    // Redirect to another wallet that also rejects ETH
+    const TestReceiver = await ethers.getContractFactory("TestReceiver");
+    const failingPayout = await TestReceiver.deploy(await pool.getAddress());
+    await testReceiver.setPayoutRedirect(failingPayout.target);
+
+    const retryCooldown = await pool.RETRY_COOLDOWN();
+    for (let attempt = 0n; attempt < (await pool.MAX_RETRIES()); attempt++) {
+      await time.increase(retryCooldown * (1n << attempt));
+      await pool.autoRetryFailedTransfers();
+    }
+    // The redirect survives failed retries
+    expect(await pool.payoutRedirects(testReceiver.target)).to.equal(failingPayout.target);
+
+    await expect(pool.autoRetryFailedTransfers()).to.emit(pool, "FailedTransferRedistributed");
+    expect(await pool.payoutRedirects(testReceiver.target)).to.equal(ethers.ZeroAddress);
+    expect(await pool.dailyPool()).to.equal(share);
+  });
+});
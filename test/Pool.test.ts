@@ -3,6 +3,8 @@ import { ethers } from "hardhat";
 import { Pool } from "../typechain-types/contracts/Pool";
 import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
 import { TestReceiver } from "../typechain-types/contracts/TestReceiver";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
 
 describe("Pool", function () {
   let pool: Pool;
@@ -29,6 +31,10 @@ describe("Pool", function () {
     await userRegistry.connect(owner).updateSystem(await pool.getAddress());
   });
 
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
   describe("Deployment", function () {
     it("Should deploy with valid system address", async function () {
       const userRegistry = await pool.userRegistry();
@@ -70,7 +76,7 @@ describe("Pool", function () {
       await pool.connect(addr3).enterReceiverPool();
 
       // Mock the distribution window
-      await pool.connect(owner).setDistributionWindow(true);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
 
       await expect(pool.connect(addr1).distributePool())
         .to.emit(pool, "PoolDistributed");
@@ -153,7 +159,7 @@ describe("Pool", function () {
       const amount = ethers.parseEther("0.5");
       await pool.connect(addr1).giveKindness(amount, { value: amount });
       await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
-      await pool.connect(owner).setDistributionWindow(true);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
     });
 
     it("Should track failed transfers and allow retry", async function () {
@@ -183,20 +189,30 @@ describe("Pool", function () {
   describe("Distribution balance checks", function () {
     beforeEach(async function () {
       await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
-      await pool.connect(owner).setDistributionWindow(true);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
       await pool.connect(addr1).enterReceiverPool();
     });
 
     it("Should revert if contract balance is less than dailyPool", async function () {
+      // Corrupt a separate pool, so the balance invariant of the shared one holds after every transaction
+      const Pool = await ethers.getContractFactory("Pool");
+      const brokenPool = await Pool.deploy(owner.address);
+      const UserRegistry = await ethers.getContractFactory("UserRegistry");
+      const brokenRegistry = UserRegistry.attach(await brokenPool.userRegistry()) as UserRegistry;
+      await brokenRegistry.connect(owner).updateSystem(await brokenPool.getAddress());
+      await brokenPool.connect(owner).grantRole(await brokenPool.DISTRIBUTOR_ROLE(), owner.address);
+      await brokenPool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+      await brokenPool.connect(addr1).enterReceiverPool();
+
       const slot = "0x0000000000000000000000000000000000000000000000000000000000000001";
       await ethers.provider.send("hardhat_setStorageAt", [
-        await pool.getAddress(),
+        await brokenPool.getAddress(),
         slot,
         ethers.zeroPadValue(ethers.toBeHex(ethers.parseEther("1")), 32),
       ]);
 
-      await expect(pool.connect(owner).distributePool()).to.be.revertedWithCustomError(
-        pool,
+      await expect(brokenPool.connect(owner).distributePool()).to.be.revertedWithCustomError(
+        brokenPool,
         "InsufficientContractBalance"
       );
     });
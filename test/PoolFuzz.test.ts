@@ -0,0 +1,271 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractTransactionResponse } from "ethers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { TestReceiver } from "../typechain-types";
+import { decodeKindnessPoolError, isKindnessPoolError } from "../scripts/client/errors";
+import { toPoolParameters, DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariant } from "./helpers/invariants";
+import { FuzzFailure, runStatefulFuzz, shrink } from "./helpers/fuzz";
+import { SeededRandom, testSeed } from "./helpers/random";
+
+const RUNS = Number(process.env.FUZZ_RUNS || 4);
+const STEPS = Number(process.env.FUZZ_STEPS || 60);
+const EOA_COUNT = 6;
+const CONTRACT_RECEIVER_COUNT = 3;
+const WAITS = [60, 30 * 60, 60 * 60, 2 * 60 * 60, 6 * 60 * 60, 24 * 60 * 60];
+
+// Actors 0..EOA_COUNT-1 are EOAs, the rest are TestReceivers
+type PoolAction =
+  | { kind: "give"; actor: number; amount: bigint }
+  | { kind: "withdraw"; actor: number; amount: bigint }
+  | { kind: "enter"; actor: number }
+  | { kind: "leave"; actor: number }
+  | { kind: "wait"; seconds: number }
+  | { kind: "distribute" }
+  | { kind: "continue" }
+  | { kind: "rollOver" }
+  | { kind: "autoRetry" }
+  | { kind: "setFail"; actor: number; fail: boolean };
+
+function generateAction(random: SeededRandom): PoolAction {
+  const eoa = random.int(0, EOA_COUNT - 1);
+  const anyActor = random.int(0, EOA_COUNT + CONTRACT_RECEIVER_COUNT - 1);
+  switch (random.int(0, 11)) {
+    case 0:
+    case 1:
+      // Occasionally outside [minKindnessAmount, maxKindnessAmount]
+      return { kind: "give", actor: eoa, amount: random.bigint(ethers.parseEther("0.0005"), ethers.parseEther("1.2")) };
+    case 2:
+      return { kind: "withdraw", actor: eoa, amount: random.bigint(ethers.parseEther("0.0005"), ethers.parseEther("0.5")) };
+    case 3:
+    case 4:
+      return { kind: "enter", actor: anyActor };
+    case 5:
+      return { kind: "leave", actor: anyActor };
+    case 6:
+    case 7:
+      return { kind: "wait", seconds: random.pick(WAITS) };
+    case 8:
+      return { kind: "distribute" };
+    case 9:
+      return { kind: "continue" };
+    case 10:
+      return random.next() < 0.5 ? { kind: "rollOver" } : { kind: "autoRetry" };
+    default:
+      return { kind: "setFail", actor: random.int(EOA_COUNT, EOA_COUNT + CONTRACT_RECEIVER_COUNT - 1), fail: random.next() < 0.5 };
+  }
+}
+
+function formatAction(action: PoolAction): string {
+  return JSON.stringify(action, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+describe("Pool Fuzzing", function () {
+  async function deployFuzzFixture() {
+    const signers = await ethers.getSigners();
+    const owner = signers[0];
+    const eoas = signers.slice(1, EOA_COUNT + 1);
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    const pool = (await Pool.deploy(owner.address)) as unknown as Pool;
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    const userRegistry = UserRegistry.attach(await pool.userRegistry()) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner and open the window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+    // Small batches so distributions span several continueDistribution calls;
+    // applies immediately because the pool has not been used yet
+    const parameters = toPoolParameters(await pool.getParameters());
+    await pool.connect(owner).updateParameters({ ...parameters, distributionBatchSize: 3 });
+
+    // TestReceivers enter the receiver pool in their constructor and reject ETH by default
+    const TestReceiver = await ethers.getContractFactory("TestReceiver");
+    const contractReceivers: TestReceiver[] = [];
+    for (let i = 0; i < CONTRACT_RECEIVER_COUNT; i++) {
+      contractReceivers.push((await TestReceiver.deploy(await pool.getAddress())) as unknown as TestReceiver);
+    }
+
+    const actors = [...eoas.map((signer) => signer.address), ...contractReceivers.map((receiver) => receiver.target as string)];
+    return { pool, userRegistry, owner, eoas, contractReceivers, actors };
+  }
+
+  type Fixture = Awaited<ReturnType<typeof deployFuzzFixture>>;
+
+  // Tracks what the contract state alone cannot tell: how much of today's contributions
+  // a distribution or roll-over already took out of dailyPool
+  interface Model {
+    takenDay: bigint;
+    takenToday: bigint;
+  }
+
+  async function blockDay(): Promise<bigint> {
+    const block = await ethers.provider.getBlock("latest");
+    return BigInt(block!.timestamp) / 86400n;
+  }
+
+  // Business-rule reverts (custom errors) are expected; panics and other failures are not
+  async function attempt(send: () => Promise<ContractTransactionResponse>): Promise<boolean> {
+    try {
+      await (await send()).wait();
+      return true;
+    } catch (error) {
+      const decoded = decodeKindnessPoolError(error);
+      if (isKindnessPoolError(decoded) && decoded.errorName !== "Panic" && decoded.errorName !== "Error") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async function apply(fixture: Fixture, model: Model, action: PoolAction) {
+    const { pool, owner, eoas, contractReceivers } = fixture;
+    const contractReceiver = (actor: number) => contractReceivers[actor - EOA_COUNT];
+
+    switch (action.kind) {
+      case "give":
+        await attempt(() => pool.connect(eoas[action.actor]).giveKindness(action.amount, { value: action.amount }));
+        break;
+      case "withdraw":
+        await attempt(() => pool.connect(eoas[action.actor]).withdrawContribution(action.amount));
+        break;
+      case "enter":
+        await attempt(() =>
+          action.actor < EOA_COUNT
+            ? pool.connect(eoas[action.actor]).enterReceiverPool()
+            : contractReceiver(action.actor).enterReceiverPool()
+        );
+        break;
+      case "leave":
+        await attempt(() =>
+          action.actor < EOA_COUNT
+            ? pool.connect(eoas[action.actor]).leaveReceiverPool()
+            : contractReceiver(action.actor).leaveReceiverPool()
+        );
+        break;
+      case "wait":
+        await ethers.provider.send("evm_increaseTime", [action.seconds]);
+        await ethers.provider.send("evm_mine", []);
+        break;
+      case "distribute":
+      case "rollOver": {
+        const dailyPool = await pool.dailyPool();
+        const sent = await attempt(() =>
+          action.kind === "distribute" ? pool.connect(owner).distributePool() : pool.connect(owner).rollOverPool()
+        );
+        if (sent) {
+          const day = await blockDay();
+          if (model.takenDay !== day) model.takenToday = 0n;
+          model.takenDay = day;
+          model.takenToday += dailyPool;
+        }
+        break;
+      }
+      case "continue":
+        await attempt(() => pool.connect(owner).continueDistribution());
+        break;
+      case "autoRetry":
+        await attempt(() => pool.autoRetryFailedTransfers());
+        break;
+      case "setFail":
+        await contractReceiver(action.actor).setFail(action.fail);
+        break;
+    }
+  }
+
+  async function checkInvariants(fixture: Fixture, model: Model) {
+    const { pool, userRegistry, actors } = fixture;
+
+    // The balance covers exactly the pool's liabilities
+    await expectPoolBalanceInvariant(pool);
+
+    // unclaimedFunds is the sum of the pending failed transfers
+    let failedTotal = 0n;
+    for (const receiver of await pool.getFailedTransfers()) {
+      failedTotal += (await pool.failedTransfers(receiver)).amount;
+    }
+    expect(await pool.unclaimedFunds()).to.equal(failedTotal, "unclaimedFunds");
+
+    // Today's contributions are still in dailyPool, or were taken by today's distribution
+    const day = await blockDay();
+    let contributedToday = 0n;
+    for (const actor of actors) {
+      if ((await pool.userLastDay(actor)) === day) contributedToday += await pool.dailyContributions(actor);
+    }
+    const takenToday = model.takenDay === day ? model.takenToday : 0n;
+    expect(contributedToday <= (await pool.dailyPool()) + takenToday, "dailyContributions exceed dailyPool").to.be.true;
+
+    // receivers matches UserRegistry.isInReceiverPool, counting the unprocessed part of a running distribution
+    const receivers: string[] = [];
+    for (let i = 0n; i < (await pool.getReceiverCount()); i++) {
+      receivers.push(await pool.receivers(i));
+    }
+    expect(new Set(receivers).size).to.equal(receivers.length, "duplicate receivers");
+
+    const pending: string[] = [];
+    if (await pool.distributionInProgress()) {
+      for (let i = await pool.distributionIndex(); ; i++) {
+        try {
+          pending.push(await pool.distributionSnapshot(i));
+        } catch {
+          break;
+        }
+      }
+    }
+
+    for (const actor of actors) {
+      const inPool = await userRegistry.isInReceiverPool(actor);
+      expect(inPool).to.equal(receivers.includes(actor) || pending.includes(actor), `isInReceiverPool(${actor})`);
+    }
+  }
+
+  async function execute(actions: PoolAction[]): Promise<FuzzFailure | undefined> {
+    const fixture = await loadFixture(deployFuzzFixture);
+    const model: Model = { takenDay: 0n, takenToday: 0n };
+
+    for (let step = 0; step < actions.length; step++) {
+      try {
+        await apply(fixture, model, actions[step]);
+        await checkInvariants(fixture, model);
+      } catch (error) {
+        return { step, error };
+      }
+    }
+    return undefined;
+  }
+
+  it("Should keep the pool accounting consistent under random action sequences", async function () {
+    this.timeout(10 * 60 * 1000);
+    await runStatefulFuzz({
+      seed: testSeed(),
+      runs: RUNS,
+      steps: STEPS,
+      generate: generateAction,
+      execute,
+      format: formatAction,
+    });
+  });
+
+  it("Should shrink a failing sequence to the steps that cause it", async function () {
+    // Fails once the sequence contains both a 3 and a 7, wherever they are
+    const execute = async (actions: number[]): Promise<FuzzFailure | undefined> => {
+      const step = actions.findIndex((_, i) => {
+        const prefix = actions.slice(0, i + 1);
+        return prefix.includes(3) && prefix.includes(7);
+      });
+      return step === -1 ? undefined : { step, error: new Error("3 and 7") };
+    };
+
+    const { actions } = await shrink([1, 3, 5, 2, 8, 4, 7, 9, 6], execute, 100);
+    expect(actions).to.deep.equal([3, 7]);
+  });
+});
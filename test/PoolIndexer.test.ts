@@ -0,0 +1,326 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { TestReceiver } from "../typechain-types";
+import { PoolIndexer } from "../scripts/indexer/PoolIndexer";
+import { IndexState, JsonFileIndexerStore, MemoryIndexerStore } from "../scripts/indexer/store";
+import { DistributionWindowOverride, EmptyDayPolicy } from "../scripts/config/poolParameters";
+import { nextPoolDayStart } from "../scripts/utils/days";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Pool Event Indexer", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let testReceiver: TestReceiver;
+  let owner: any;
+  let giver: any;
+  let receiver: any;
+  let leaver: any;
+  let startBlock: number;
+
+  beforeEach(async function () {
+    [owner, giver, receiver, leaver] = await ethers.getSigners();
+
+    // Start early in a pool day, so the setup and seedDay happen on the same day
+    await time.increaseTo(nextPoolDayStart(await time.latest()) + 60 * 60);
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+    startBlock = (await pool.deploymentTransaction())!.blockNumber!;
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner and open the window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+    // TestReceiver enters the receiver pool in its constructor and rejects ETH by default
+    const TestReceiver = await ethers.getContractFactory("TestReceiver");
+    testReceiver = await TestReceiver.deploy(await pool.getAddress());
+    await testReceiver.waitForDeployment();
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  function createIndexer(store = new MemoryIndexerStore(), reorgDepth = 3) {
+    return new PoolIndexer(ethers.provider, store, {
+      poolAddress: pool.target as string,
+      startBlock,
+      reorgDepth,
+      batchSize: 5,
+    });
+  }
+
+  function onlyDay(state: IndexState) {
+    const days = Object.values(state.days);
+    expect(days).to.have.length(1);
+    return days[0];
+  }
+
+  async function seedDay() {
+    await pool.connect(giver).giveKindness(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+    await pool.connect(giver).withdrawContribution(ethers.parseEther("0.2"));
+    await pool.connect(receiver).enterReceiverPool();
+    await pool.connect(leaver).enterReceiverPool();
+    await time.increase(30 * 60);
+    await pool.connect(leaver).leaveReceiverPool();
+    await pool.connect(owner).distributePool();
+  }
+
+  it("Should build day and user records from pool events", async function () {
+    await seedDay();
+    const indexer = createIndexer();
+    const result = await indexer.sync();
+    const state = await indexer.getState();
+
+    expect(result.newEvents).to.be.greaterThan(0);
+    expect(state.cursor).to.equal(await ethers.provider.getBlockNumber());
+
+    const days = Object.values(state.days);
+    expect(days).to.have.length(1);
+    const day = days[0];
+    const share = ethers.parseEther("0.4");
+    expect(day.totalGiven).to.equal(ethers.parseEther("1").toString());
+    expect(day.totalWithdrawn).to.equal(ethers.parseEther("0.2").toString());
+    expect(day.totalReceived).to.equal(share.toString());
+    expect(day.totalFailed).to.equal(share.toString());
+    expect(day.givers).to.deep.equal([giver.address]);
+    expect(day.receivers).to.deep.equal([receiver.address]);
+    expect(day.failedReceivers).to.deep.equal([testReceiver.target]);
+    expect(day.receiverPoolEntries).to.equal(3);
+    expect(day.receiverPoolExits).to.equal(1);
+    expect(day.batches).to.equal(1);
+    expect(day.distributionCompleted).to.be.true;
+
+    const giverRecord = state.users[giver.address];
+    expect(giverRecord.totalGiven).to.equal(ethers.parseEther("1").toString());
+    expect(giverRecord.totalWithdrawn).to.equal(ethers.parseEther("0.2").toString());
+    expect(giverRecord.registryTotalGiven).to.equal(ethers.parseEther("0.8").toString());
+
+    const receiverRecord = state.users[receiver.address];
+    expect(receiverRecord.totalReceived).to.equal(share.toString());
+    expect(receiverRecord.timesReceived).to.equal(1);
+    expect(receiverRecord.inReceiverPool).to.be.false;
+
+    expect(state.users[leaver.address].receiverPoolExits).to.equal(1);
+    expect(state.users[testReceiver.target as string].pendingFailedAmount).to.equal(share.toString());
+  });
+
+  it("Should track retried transfers on the day they succeed", async function () {
+    await seedDay();
+    await testReceiver.setFail(false);
+    await time.increase(24 * 60 * 60);
+    await pool.autoRetryFailedTransfers();
+
+    const indexer = createIndexer();
+    await indexer.sync();
+    const state = await indexer.getState();
+
+    const days = Object.values(state.days).sort((a, b) => a.day - b.day);
+    expect(days).to.have.length(2);
+    expect(days[1].totalRetried).to.equal(ethers.parseEther("0.4").toString());
+    expect(days[1].receivers).to.deep.equal([testReceiver.target]);
+    expect(state.users[testReceiver.target as string].pendingFailedAmount).to.equal("0");
+  });
+
+  it("Should track claim-mode credits until they are claimed", async function () {
+    await pool.connect(owner).setClaimMode(true);
+    await seedDay();
+    await pool.connect(receiver).claim();
+
+    const indexer = createIndexer();
+    await indexer.sync();
+    const state = await indexer.getState();
+
+    const share = ethers.parseEther("0.4");
+    const day = Object.values(state.days)[0];
+    expect(day.totalReceived).to.equal((share * 2n).toString());
+    expect(day.totalFailed).to.equal("0");
+    expect(day.totalClaimed).to.equal(share.toString());
+    expect(state.users[receiver.address].claimableAmount).to.equal("0");
+    expect(state.users[testReceiver.target as string].claimableAmount).to.equal(share.toString());
+  });
+
+  it("Should clear pending failed transfers paid by emergency withdrawal", async function () {
+    await seedDay();
+    await testReceiver.setFail(false);
+    await pool.completeEmergencyWithdrawal(testReceiver.target);
+
+    const indexer = createIndexer();
+    await indexer.sync();
+    const state = await indexer.getState();
+
+    const day = Object.values(state.days)[0];
+    expect(day.totalEmergencyWithdrawn).to.equal(ethers.parseEther("0.4").toString());
+    expect(day.totalRedirected).to.equal("0");
+    expect(state.users[testReceiver.target as string].pendingFailedAmount).to.equal("0");
+  });
+
+  it("Should track failed transfers paid to a payout redirect", async function () {
+    await seedDay();
+    await testReceiver.setPayoutRedirect(leaver.address);
+    await pool.completeEmergencyWithdrawal(testReceiver.target);
+
+    const indexer = createIndexer();
+    await indexer.sync();
+    const state = await indexer.getState();
+
+    const share = ethers.parseEther("0.4");
+    const day = Object.values(state.days)[0];
+    expect(day.totalEmergencyWithdrawn).to.equal(share.toString());
+    expect(day.totalRedirected).to.equal(share.toString());
+    const record = state.users[testReceiver.target as string];
+    expect(record.totalRedirected).to.equal(share.toString());
+    expect(record.pendingFailedAmount).to.equal("0");
+  });
+
+  it("Should track refundable days and claimed refunds", async function () {
+    // Leave after the receiver pool cooldown, so nobody is left to receive
+    await time.increase(30 * 60);
+    await testReceiver.leaveReceiverPool();
+    await pool.connect(owner).setEmptyDayPolicy(EmptyDayPolicy.Refund);
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+    await pool.connect(owner).rollOverPool();
+    await pool.connect(giver).claimRefund(0);
+
+    const indexer = createIndexer();
+    await indexer.sync();
+    const state = await indexer.getState();
+
+    const day = Object.values(state.days)[0];
+    expect(day.totalRefundable).to.equal(ethers.parseEther("0.5").toString());
+    expect(day.totalRefunded).to.equal(ethers.parseEther("0.5").toString());
+    expect(state.users[giver.address].totalRefunded).to.equal(ethers.parseEther("0.5").toString());
+  });
+
+  it("Should track sponsor matches net of reversals", async function () {
+    const SponsorMatching = await ethers.getContractFactory("SponsorMatching");
+    const matching = await SponsorMatching.deploy(owner.address, pool.target, ethers.ZeroAddress);
+    await pool.connect(owner).setContributionMatcher(matching.target);
+    const sponsorship = ethers.parseEther("5");
+    const expiry = (await time.latest()) + 7 * 24 * 60 * 60;
+    await matching.connect(leaver).createSponsorship(sponsorship, 10000, sponsorship, expiry, { value: sponsorship });
+
+    await pool.connect(giver).giveKindness(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+    await pool.connect(giver).withdrawContribution(ethers.parseEther("0.2"));
+
+    const indexer = createIndexer();
+    await indexer.sync();
+    const state = await indexer.getState();
+
+    // Whatever is in the daily pool beyond the net contribution came from the sponsor
+    const matched = (await pool.dailyPool()) - ethers.parseEther("0.8");
+    expect(matched).to.be.greaterThan(0n);
+    expect(matched).to.be.lessThan(ethers.parseEther("1"));
+    expect(Object.values(state.days)[0].totalMatched).to.equal(matched.toString());
+    expect(state.users[giver.address].totalMatched).to.equal(matched.toString());
+    expect(state.events.some((event) => event.name === "MatchReversed")).to.be.true;
+  });
+
+  it("Should index matchers set after the indexer started and after they were replaced", async function () {
+    const SponsorMatching = await ethers.getContractFactory("SponsorMatching");
+    const sponsorship = ethers.parseEther("5");
+    const expiry = (await time.latest()) + 7 * 24 * 60 * 60;
+    async function useNewMatcher() {
+      const matching = await SponsorMatching.deploy(owner.address, pool.target, ethers.ZeroAddress);
+      await pool.connect(owner).setContributionMatcher(matching.target);
+      await matching.connect(leaver).createSponsorship(sponsorship, 10000, sponsorship, expiry, { value: sponsorship });
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+    }
+
+    // A long-running indexer that started before any matcher was set
+    const indexer = createIndexer();
+    await indexer.sync();
+    await useNewMatcher();
+    await indexer.sync();
+    expect(onlyDay(await indexer.getState()).totalMatched).to.equal(ethers.parseEther("0.5").toString());
+
+    // The first matcher stays indexed after it is replaced, also when indexing from scratch
+    await useNewMatcher();
+    await indexer.sync();
+    const total = ethers.parseEther("1").toString();
+    expect(onlyDay(await indexer.getState()).totalMatched).to.equal(total);
+    const fresh = createIndexer();
+    await fresh.sync();
+    expect(onlyDay(await fresh.getState()).totalMatched).to.equal(total);
+  });
+
+  it("Should resume from the stored cursor", async function () {
+    const store = new MemoryIndexerStore();
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+
+    const first = await createIndexer(store).sync();
+    const cursor = first.toBlock;
+
+    await pool.connect(receiver).enterReceiverPool();
+
+    // A new indexer instance picks up from the persisted cursor
+    const second = await createIndexer(store).sync();
+    expect(second.fromBlock).to.equal(cursor + 1);
+    expect(second.newEvents).to.equal(1);
+
+    const state = await store.load();
+    expect(state!.events.filter((event) => event.name === "KindnessGiven")).to.have.length(1);
+    expect(state!.users[receiver.address].inReceiverPool).to.be.true;
+  });
+
+  it("Should persist to a JSON file", async function () {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "pool-indexer-"));
+    const filePath = path.join(dir, "index.json");
+
+    try {
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      await createIndexer(new JsonFileIndexerStore(filePath)).sync();
+
+      const saved = JSON.parse(await fs.readFile(filePath, "utf8"));
+      expect(saved.users[giver.address].totalGiven).to.equal(ethers.parseEther("0.5").toString());
+
+      const reloaded = await new JsonFileIndexerStore(filePath).load();
+      expect(reloaded!.cursor).to.equal(saved.cursor);
+      expect(await new JsonFileIndexerStore(path.join(dir, "missing.json")).load()).to.be.undefined;
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Should roll back and re-index after a reorg", async function () {
+    const store = new MemoryIndexerStore();
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+    // Events on the branch that will be dropped
+    await pool.connect(receiver).enterReceiverPool();
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.3"), { value: ethers.parseEther("0.3") });
+    await createIndexer(store).sync();
+    expect((await store.load())!.users[receiver.address].inReceiverPool).to.be.true;
+
+    // Replace the branch with different blocks
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await pool.connect(leaver).enterReceiverPool();
+    await ethers.provider.send("evm_mine", []);
+    await ethers.provider.send("evm_mine", []);
+
+    const result = await createIndexer(store).sync();
+    expect(result.rolledBackTo).to.not.be.undefined;
+
+    const state = (await store.load())!;
+    expect(state.users[receiver.address]).to.be.undefined;
+    expect(state.users[leaver.address].inReceiverPool).to.be.true;
+    expect(state.users[giver.address].totalGiven).to.equal(ethers.parseEther("0.5").toString());
+    expect(state.cursor).to.equal(await ethers.provider.getBlockNumber());
+  });
+});
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { toPoolParameters, DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Pool Parameters", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let user1: any;
+  let user2: any;
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function currentParameters(): Promise<Pool.PoolParametersStruct> {
+    return toPoolParameters(await pool.getParameters());
+  }
+
+  async function startNextDay() {
+    const now = await time.latest();
+    await time.increaseTo(Math.floor(now / 86400 + 1) * 86400 + 1);
+  }
+
+  describe("Defaults", function () {
+    it("Should expose the default parameters through the legacy getters", async function () {
+      const params = await pool.getParameters();
+      expect(params.minKindnessAmount).to.equal(ethers.parseEther("0.001"));
+      expect(params.maxKindnessAmount).to.equal(ethers.parseEther("1"));
+      expect(params.maxReceivers).to.equal(100);
+      expect(await pool.MIN_KINDNESS_AMOUNT()).to.equal(params.minKindnessAmount);
+      expect(await pool.DISTRIBUTION_BATCH_SIZE()).to.equal(params.distributionBatchSize);
+      expect(await pool.RETRY_COOLDOWN()).to.equal(params.retryCooldown);
+      expect(await pool.WITHDRAWAL_COOLDOWN()).to.equal(params.withdrawalCooldown);
+    });
+  });
+
+  describe("Updating", function () {
+    it("Should only allow the admin to update parameters", async function () {
+      await expect(pool.connect(user1).updateParameters(await currentParameters()))
+        .to.be.revertedWithCustomError(pool, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject parameters outside the bounds", async function () {
+      const params = await currentParameters();
+      const invalid: Partial<Pool.PoolParametersStruct>[] = [
+        { minKindnessAmount: 0 },
+        { minKindnessAmount: ethers.parseEther("2") },
+        { maxKindnessAmount: ethers.parseEther("10") },
+        { maxReceivers: 0 },
+        { maxReceivers: (await pool.MAX_RECEIVERS_LIMIT()) + 1n },
+        { distributionBatchSize: (await pool.MAX_BATCH_SIZE_LIMIT()) + 1n },
+        { distributionWindow: 86400 },
+        { distributionWindowStart: 86400 - 299 },
+        { maxRetries: (await pool.MAX_RETRIES_LIMIT()) + 1n },
+        { retryCooldown: 0 },
+        { withdrawalCooldown: (await pool.MAX_COOLDOWN_LIMIT()) + 1n },
+        { minWithdrawalAmount: 0 },
+      ];
+
+      for (const override of invalid) {
+        await expect(pool.connect(owner).updateParameters({ ...params, ...override }))
+          .to.be.revertedWithCustomError(pool, "InvalidParameters");
+      }
+    });
+
+    it("Should apply parameters immediately before the pool is first used", async function () {
+      const params = { ...(await currentParameters()), maxKindnessAmount: ethers.parseEther("2") };
+      const today = BigInt(await time.latest() + 1) / 86400n;
+
+      await expect(pool.connect(owner).updateParameters(params))
+        .to.emit(pool, "ParametersUpdated")
+        .withArgs((value: any) => value.maxKindnessAmount === ethers.parseEther("2"), today);
+
+      expect(await pool.MAX_KINDNESS_AMOUNT()).to.equal(ethers.parseEther("2"));
+      const [, effectiveDay] = await pool.getPendingParameters();
+      expect(effectiveDay).to.equal(0);
+      expect(await pool.pendingParametersDay()).to.equal(0);
+    });
+
+    it("Should apply new parameters from the next day once the pool is active", async function () {
+      await pool.connect(user1).giveKindness(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+
+      const params = { ...(await currentParameters()), maxKindnessAmount: ethers.parseEther("2") };
+      const tomorrow = BigInt(await time.latest() + 1) / 86400n + 1n;
+      await expect(pool.connect(owner).updateParameters(params))
+        .to.emit(pool, "ParametersUpdated")
+        .withArgs((value: any) => value.maxKindnessAmount === ethers.parseEther("2"), tomorrow);
+
+      // Today's limits are unchanged
+      expect(await pool.MAX_KINDNESS_AMOUNT()).to.equal(ethers.parseEther("1"));
+      const [pending, effectiveDay] = await pool.getPendingParameters();
+      expect(pending.maxKindnessAmount).to.equal(ethers.parseEther("2"));
+      expect(effectiveDay).to.equal(tomorrow);
+      await expect(pool.connect(user2).giveKindness(ethers.parseEther("2"), { value: ethers.parseEther("2") }))
+        .to.be.revertedWithCustomError(pool, "AmountTooHigh");
+
+      await startNextDay();
+
+      expect(await pool.MAX_KINDNESS_AMOUNT()).to.equal(ethers.parseEther("2"));
+      await expect(pool.connect(user2).giveKindness(ethers.parseEther("2"), { value: ethers.parseEther("2") }))
+        .to.emit(pool, "KindnessGiven")
+        .withArgs(user2.address, ethers.parseEther("2"));
+    });
+
+    it("Should keep scheduled parameters when another update follows", async function () {
+      await pool.connect(user1).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+
+      const base = await currentParameters();
+      await pool.connect(owner).updateParameters({ ...base, maxTransactionsPerDay: 20 });
+      await startNextDay();
+      expect(await pool.MAX_TRANSACTIONS_PER_DAY()).to.equal(20);
+
+      // The next update starts from the promoted set and leaves it active until tomorrow
+      await pool.connect(owner).updateParameters({ ...(await currentParameters()), maxReceivers: 50 });
+      expect(await pool.MAX_TRANSACTIONS_PER_DAY()).to.equal(20);
+      expect(await pool.MAX_RECEIVERS()).to.equal(100);
+
+      await startNextDay();
+      expect(await pool.MAX_RECEIVERS()).to.equal(50);
+      expect(await pool.MAX_TRANSACTIONS_PER_DAY()).to.equal(20);
+    });
+
+    it("Should enforce an updated receiver cap at distribution time", async function () {
+      await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+      await pool.connect(user1).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      const signers = await ethers.getSigners();
+      await pool.connect(signers[3]).enterReceiverPool();
+      await pool.connect(signers[4]).enterReceiverPool();
+
+      // Lowered below the pool size after both entered; takes effect tomorrow
+      await pool.connect(owner).updateParameters({ ...(await currentParameters()), maxReceivers: 1 });
+      await startNextDay();
+
+      // Only the first receiver is paid, the second stays for the next distribution
+      await expect(pool.connect(owner).startDistribution())
+        .to.emit(pool, "KindnessReceived")
+        .withArgs(signers[3].address, ethers.parseEther("0.5"));
+      expect(await pool.getReceiverCount()).to.equal(1);
+      expect(await pool.receivers(0)).to.equal(signers[4].address);
+    });
+  });
+});
@@ -2,6 +2,8 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Pool, UserRegistry } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { toPoolParameters, DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
 
 describe("Receiver Pool Exit Functionality", function () {
   let pool: Pool;
@@ -26,6 +28,10 @@ describe("Receiver Pool Exit Functionality", function () {
     await pool.grantRole(await pool.DISTRIBUTOR_ROLE(), distributor.address);
   });
 
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
   describe("Leave Receiver Pool", function () {
     it("should allow users to leave receiver pool", async function () {
       // Enter receiver pool
@@ -84,6 +90,31 @@ describe("Receiver Pool Exit Functionality", function () {
         pool.connect(user1).leaveReceiverPool()
       ).to.be.revertedWithCustomError(pool, "TooManyActions");
     });
+
+    it("should prevent leaving while waiting in a running distribution", async function () {
+      // One receiver per batch, so user2 is still waiting after the first batch
+      const params = toPoolParameters(await pool.getParameters());
+      await pool.connect(owner).updateParameters({ ...params, distributionBatchSize: 1 });
+      await pool.connect(user1).enterReceiverPool();
+      await pool.connect(user2).enterReceiverPool();
+      await pool.connect(owner).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+
+      await ethers.provider.send("evm_increaseTime", [1800]);
+      await ethers.provider.send("evm_mine", []);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+      await pool.connect(distributor).startDistribution();
+
+      await expect(
+        pool.connect(user2).leaveReceiverPool()
+      ).to.be.revertedWithCustomError(pool, "DistributionInProgress");
+      await expect(
+        pool.connect(owner).emergencyExitReceiverPool(user2.address)
+      ).to.be.revertedWithCustomError(pool, "DistributionInProgress");
+
+      // Once paid, user2 is out of the pool like everyone else
+      await pool.connect(distributor).continueDistribution();
+      expect(await userRegistry.isInReceiverPool(user2.address)).to.be.false;
+    });
   });
 
   describe("Emergency Exit", function () {
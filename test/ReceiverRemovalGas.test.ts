@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Wallet } from "ethers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { toPoolParameters } from "../scripts/config/poolParameters";
+import { nextPoolDayStart } from "../scripts/utils/days";
+import { createFundedWallets } from "./helpers/wallets";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+const POOL_SIZES = [10, 100, 1000];
+
+describe("Receiver Removal Gas", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+
+  beforeEach(async function () {
+    [owner] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Room for the largest pool; applies immediately because the pool has not been used yet
+    const params = toPoolParameters(await pool.getParameters());
+    await pool.connect(owner).updateParameters({ ...params, maxReceivers: POOL_SIZES[POOL_SIZES.length - 1] });
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function leaveGas(receiver: Wallet): Promise<bigint> {
+    const receipt = await (await pool.connect(receiver).leaveReceiverPool()).wait();
+    return receipt!.gasUsed;
+  }
+
+  it("Should cost the same to leave at 10, 100 and 1000 receivers", async function () {
+    this.timeout(10 * 60 * 1000);
+
+    const wallets = await createFundedWallets(POOL_SIZES[POOL_SIZES.length - 1] + 2 * (POOL_SIZES.length - 1));
+    const leaveCosts: bigint[] = [];
+    const emergencyExitCosts: bigint[] = [];
+    let next = 0;
+
+    for (const size of POOL_SIZES) {
+      while ((await pool.getReceiverCount()) < size) {
+        await pool.connect(wallets[next++]).enterReceiverPool();
+      }
+
+      // Measure on the next day, so every measured leave pays for the same day rollover and reset
+      await time.increaseTo(nextPoolDayStart(await time.latest()) + Number(await pool.RECEIVER_POOL_COOLDOWN()));
+
+      // Remove from the front, so the last receiver moves into the freed slot.
+      // Removed receivers do not come back; the next round fills up with new wallets.
+      const first = await pool.receivers(0);
+      leaveCosts.push(await leaveGas(wallets.find((wallet) => wallet.address === first)!));
+      const receipt = await (await pool.connect(owner).emergencyExitReceiverPool(await pool.receivers(0))).wait();
+      emergencyExitCosts.push(receipt!.gasUsed);
+
+      expect(await pool.getReceiverCount()).to.equal(size - 2);
+      expect(await userRegistry.isInReceiverPool(first)).to.be.false;
+    }
+
+    console.log("   Receivers | leaveReceiverPool | emergencyExitReceiverPool");
+    POOL_SIZES.forEach((size, i) => {
+      console.log(`   ${String(size).padStart(9)} | ${String(leaveCosts[i]).padStart(17)} | ${emergencyExitCosts[i]}`);
+    });
+
+    // Removal swaps with the last slot instead of scanning, so the cost does not grow with the pool
+    for (const costs of [leaveCosts, emergencyExitCosts]) {
+      const smallest = costs.reduce((a, b) => (a < b ? a : b));
+      const largest = costs.reduce((a, b) => (a > b ? a : b));
+      expect(largest - smallest).to.be.lessThan(smallest / 50n);
+    }
+  });
+});
@@ -0,0 +1,220 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Wallet } from "ethers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { DistributionKeeper } from "../scripts/keeper/DistributionKeeper";
+import { DistributionWindowOverride, toPoolParameters } from "../scripts/config/poolParameters";
+import { createFundedWallets } from "./helpers/wallets";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Receiver Waitlist", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let giver: any;
+
+  beforeEach(async function () {
+    [owner, giver] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner and open the distribution window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function setMaxReceivers(maxReceivers: number) {
+    const params = toPoolParameters(await pool.getParameters());
+    await pool.connect(owner).updateParameters({ ...params, maxReceivers });
+  }
+
+  async function startNextDay() {
+    const now = await time.latest();
+    await time.increaseTo(Math.floor(now / 86400 + 1) * 86400 + 1);
+  }
+
+  async function distributeAll() {
+    await pool.connect(owner).startDistribution();
+    while (await pool.distributionInProgress()) {
+      await pool.connect(owner).continueDistribution();
+    }
+  }
+
+  it("Should waitlist entrants over the cap and still distribute with 100+ entrants", async function () {
+    const maxReceivers = Number(await pool.MAX_RECEIVERS());
+    const wallets = await createFundedWallets(maxReceivers + 5);
+    for (const wallet of wallets.slice(0, maxReceivers)) {
+      await pool.connect(wallet).enterReceiverPool();
+    }
+
+    const waiting = wallets.slice(maxReceivers);
+    for (let i = 0; i < waiting.length; i++) {
+      await expect(pool.connect(waiting[i]).enterReceiverPool())
+        .to.emit(pool, "ReceiverWaitlisted")
+        .withArgs(waiting[i].address, i + 1)
+        .and.not.to.emit(pool, "EnteredReceiverPool");
+    }
+    expect(await pool.getReceiverCount()).to.equal(maxReceivers);
+    expect(await pool.waitlistLength()).to.equal(waiting.length);
+    expect(await pool.getWaitlistPosition(waiting[2].address)).to.equal(3);
+    expect(await pool.getWaitlistPosition(wallets[0].address)).to.equal(0);
+    expect(await userRegistry.isInReceiverPool(waiting[0].address)).to.be.false;
+
+    await pool.connect(giver).giveKindness(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+    await distributeAll();
+    expect(await pool.hasDistributedToday()).to.be.true;
+    expect((await userRegistry.getUserStats(wallets[0].address)).timesReceived).to.equal(1);
+    expect((await userRegistry.getUserStats(waiting[0].address)).timesReceived).to.equal(0);
+
+    // The keeper promotes the waitlist on the next day and the next distribution pays it
+    const keeper = new DistributionKeeper(pool.connect(owner), { log: () => {} });
+    expect((await keeper.runOnce()).promoted).to.equal(0);
+    await startNextDay();
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+
+    const result = await keeper.runOnce();
+    expect(result.promoted).to.equal(waiting.length);
+    expect(result.completed).to.be.true;
+    expect(await pool.waitlistLength()).to.equal(0);
+    for (const wallet of waiting) {
+      expect((await userRegistry.getUserStats(wallet.address)).timesReceived).to.equal(1);
+    }
+  });
+
+  describe("With a small cap", function () {
+    let wallets: Wallet[];
+
+    beforeEach(async function () {
+      await setMaxReceivers(2);
+      wallets = await createFundedWallets(6);
+      for (const wallet of wallets.slice(0, 2)) {
+        await pool.connect(wallet).enterReceiverPool();
+      }
+    });
+
+    it("Should promote in entry order on the next day only", async function () {
+      for (const wallet of wallets.slice(2, 5)) {
+        await pool.connect(wallet).enterReceiverPool();
+      }
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      await distributeAll();
+
+      // The pool is empty again, but entries from today wait until tomorrow
+      expect(await pool.promoteWaitlist.staticCall(10)).to.equal(0);
+      await expect(pool.connect(wallets[5]).enterReceiverPool())
+        .to.emit(pool, "ReceiverWaitlisted")
+        .withArgs(wallets[5].address, 4);
+
+      await startNextDay();
+      await expect(pool.promoteWaitlist(10))
+        .to.emit(pool, "EnteredReceiverPool")
+        .withArgs(wallets[2].address)
+        .and.to.emit(pool, "EnteredReceiverPool")
+        .withArgs(wallets[3].address)
+        .and.to.emit(pool, "WaitlistPromoted")
+        .withArgs(2, 2);
+      expect(await pool.receivers(0)).to.equal(wallets[2].address);
+      expect(await pool.receivers(1)).to.equal(wallets[3].address);
+      expect(await userRegistry.isInReceiverPool(wallets[3].address)).to.be.true;
+      expect(await pool.getWaitlistPosition(wallets[4].address)).to.equal(1);
+      expect(await pool.getWaitlistPosition(wallets[5].address)).to.equal(2);
+
+      // No room left until the next distribution
+      expect(await pool.promoteWaitlist.staticCall(10)).to.equal(0);
+    });
+
+    it("Should queue newcomers behind waiting users even when a slot is free", async function () {
+      await pool.connect(wallets[2]).enterReceiverPool();
+      await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+      await pool.connect(wallets[0]).leaveReceiverPool();
+
+      await expect(pool.connect(wallets[3]).enterReceiverPool())
+        .to.emit(pool, "ReceiverWaitlisted")
+        .withArgs(wallets[3].address, 2);
+      expect(await pool.getReceiverCount()).to.equal(1);
+
+      await startNextDay();
+      expect(await pool.promoteWaitlist.staticCall(10)).to.equal(1);
+      await pool.promoteWaitlist(10);
+      expect(await pool.receivers(1)).to.equal(wallets[2].address);
+    });
+
+    it("Should let waitlisted users leave and skip them on promotion", async function () {
+      for (const wallet of wallets.slice(2, 5)) {
+        await pool.connect(wallet).enterReceiverPool();
+      }
+      await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+      await expect(pool.connect(wallets[2]).enterReceiverPool()).to.be.revertedWithCustomError(
+        pool,
+        "AlreadyWaitlisted"
+      );
+
+      await expect(pool.connect(wallets[3]).leaveReceiverPool())
+        .to.emit(pool, "LeftWaitlist")
+        .withArgs(wallets[3].address)
+        .and.not.to.emit(pool, "LeftReceiverPool");
+      expect(await pool.getWaitlistPosition(wallets[3].address)).to.equal(0);
+      expect(await pool.getWaitlistPosition(wallets[4].address)).to.equal(2);
+      expect(await pool.dailyReceiverExits(wallets[3].address)).to.equal(1);
+
+      await expect(pool.connect(owner).emergencyExitReceiverPool(wallets[2].address))
+        .to.emit(pool, "LeftWaitlist")
+        .withArgs(wallets[2].address);
+      expect(await pool.waitlistLength()).to.equal(1);
+
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      await distributeAll();
+      await startNextDay();
+      await expect(pool.promoteWaitlist(10)).to.emit(pool, "WaitlistPromoted").withArgs(1, 0);
+      expect(await pool.receivers(0)).to.equal(wallets[4].address);
+      expect(await pool.waitlistHead()).to.equal(3);
+
+      // The waitlist is empty again, so newcomers enter directly
+      await expect(pool.connect(wallets[3]).enterReceiverPool())
+        .to.emit(pool, "EnteredReceiverPool")
+        .withArgs(wallets[3].address);
+    });
+
+    it("Should count entries of users who left against maxCount and let the keeper clear them", async function () {
+      for (const wallet of wallets.slice(2, 6)) {
+        await pool.connect(wallet).enterReceiverPool();
+      }
+      await time.increase(await pool.RECEIVER_POOL_COOLDOWN());
+      for (const wallet of wallets.slice(2, 5)) {
+        await pool.connect(wallet).leaveReceiverPool();
+      }
+      expect(await pool.waitlistLength()).to.equal(1);
+      expect(await pool.getWaitlistEntryCount()).to.equal(4);
+
+      await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+      await distributeAll();
+      await startNextDay();
+
+      // Two empty entries use up a batch of two without promoting anyone
+      await expect(pool.promoteWaitlist(2)).not.to.emit(pool, "WaitlistPromoted");
+      expect(await pool.waitlistHead()).to.equal(2);
+      expect(await pool.getWaitlistEntryCount()).to.equal(2);
+
+      // The keeper keeps clearing empty entries while someone behind them can be promoted
+      const keeper = new DistributionKeeper(pool.connect(owner), { promoteBatchSize: 1, log: () => {} });
+      expect(await keeper.promoteWaitlist()).to.equal(1);
+      expect(await pool.receivers(0)).to.equal(wallets[5].address);
+      expect(await pool.getWaitlistEntryCount()).to.equal(0);
+    });
+  });
+});
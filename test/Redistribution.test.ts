@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { TestReceiver } from "../typechain-types";
+import { toPoolParameters, DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Failed Transfer Redistribution", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let testReceiver: TestReceiver;
+  let owner: any;
+  let giver: any;
+  let receiver: any;
+  let share: bigint;
+
+  beforeEach(async function () {
+    [owner, giver, receiver] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Grant distributor role to owner and open the window
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+    // TestReceiver enters the receiver pool in its constructor and rejects ETH by default
+    const TestReceiver = await ethers.getContractFactory("TestReceiver");
+    testReceiver = await TestReceiver.deploy(await pool.getAddress());
+    await testReceiver.waitForDeployment();
+
+    await pool.connect(giver).giveKindness(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+    await pool.connect(receiver).enterReceiverPool();
+    await pool.connect(owner).startDistribution();
+    share = ethers.parseEther("0.5");
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function exhaustRetries() {
+    const retryCooldown = await pool.RETRY_COOLDOWN();
+    const maxRetries = await pool.MAX_RETRIES();
+
+    for (let attempt = 0n; attempt < maxRetries; attempt++) {
+      await time.increase(retryCooldown * (1n << attempt));
+      await expect(pool.autoRetryFailedTransfers())
+        .to.emit(pool, "TransferRetried")
+        .withArgs(testReceiver.target, share, false);
+
+      const failed = await pool.failedTransfers(testReceiver.target);
+      expect(failed.retryCount).to.equal(attempt + 1n);
+      expect(failed.amount).to.equal(share);
+    }
+  }
+
+  it("Should count every failed retry", async function () {
+    await exhaustRetries();
+    expect(await pool.getUnclaimedFunds()).to.equal(share);
+    await expect(pool.connect(owner).retryFailedTransfer(testReceiver.target))
+      .to.be.revertedWithCustomError(pool, "MaxRetriesExceeded");
+  });
+
+  it("Should redistribute an exhausted transfer into the daily pool on auto-retry", async function () {
+    await exhaustRetries();
+    const dailyPoolBefore = await pool.dailyPool();
+
+    await expect(pool.autoRetryFailedTransfers())
+      .to.emit(pool, "FailedTransferRedistributed")
+      .withArgs(testReceiver.target, share)
+      .and.to.emit(pool, "UnclaimedFundsUpdated")
+      .withArgs(0);
+
+    expect(await pool.dailyPool()).to.equal(dailyPoolBefore + share);
+    expect(await pool.getUnclaimedFunds()).to.equal(0);
+    expect(await pool.getFailedTransferAmount(testReceiver.target)).to.equal(0);
+    expect(await pool.getFailedTransfers()).to.deep.equal([]);
+    // The redistributed share is still held by the pool
+    expect(await ethers.provider.getBalance(await pool.getAddress())).to.equal(await pool.dailyPool());
+  });
+
+  it("Should pay the redistributed share to the next day's receivers", async function () {
+    await exhaustRetries();
+    await pool.redistributeFailedTransfer(testReceiver.target);
+
+    await time.increase(24 * 60 * 60);
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+    await pool.connect(receiver).enterReceiverPool();
+
+    await expect(pool.connect(owner).startDistribution())
+      .to.emit(pool, "KindnessReceived")
+      .withArgs(receiver.address, ethers.parseEther("1"));
+    expect(await ethers.provider.getBalance(await pool.getAddress())).to.equal(0);
+  });
+
+  it("Should only redistribute transfers that used up their retries", async function () {
+    await expect(pool.redistributeFailedTransfer(receiver.address))
+      .to.be.revertedWithCustomError(pool, "NoFailedTransfer");
+    await expect(pool.redistributeFailedTransfer(testReceiver.target))
+      .to.be.revertedWithCustomError(pool, "RetriesNotExhausted");
+
+    await exhaustRetries();
+    await expect(pool.connect(giver).redistributeFailedTransfer(testReceiver.target))
+      .to.emit(pool, "FailedTransferRedistributed")
+      .withArgs(testReceiver.target, share);
+  });
+
+  it("Should not redistribute while a distribution is in progress", async function () {
+    // One receiver per batch from tomorrow, so the next run stays in progress
+    const params = toPoolParameters(await pool.getParameters());
+    await pool.connect(owner).updateParameters({ ...params, distributionBatchSize: 1 });
+    await exhaustRetries();
+
+    await time.increase(24 * 60 * 60);
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.5"), { value: ethers.parseEther("0.5") });
+    await pool.connect(receiver).enterReceiverPool();
+    await pool.connect(owner).enterReceiverPool();
+    await pool.connect(owner).startDistribution();
+    expect(await pool.distributionInProgress()).to.be.true;
+
+    await expect(pool.redistributeFailedTransfer(testReceiver.target))
+      .to.be.revertedWithCustomError(pool, "DistributionInProgress");
+    await expect(pool.autoRetryFailedTransfers()).to.not.emit(pool, "FailedTransferRedistributed");
+    expect(await pool.getFailedTransferAmount(testReceiver.target)).to.equal(share);
+  });
+
+  it("Should retry and redistribute different entries in one call", async function () {
+    await exhaustRetries();
+
+    // A second receiver fails tomorrow and becomes retryable later
+    const TestReceiver = await ethers.getContractFactory("TestReceiver");
+    const second = await TestReceiver.deploy(await pool.getAddress());
+    await time.increase(24 * 60 * 60);
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.4"), { value: ethers.parseEther("0.4") });
+    await pool.connect(owner).startDistribution();
+    await second.setFail(false);
+    await time.increase(await pool.RETRY_COOLDOWN());
+
+    await expect(pool.autoRetryFailedTransfers())
+      .to.emit(pool, "FailedTransferRedistributed")
+      .withArgs(testReceiver.target, share)
+      .and.to.emit(pool, "TransferRetried")
+      .withArgs(second.target, ethers.parseEther("0.4"), true);
+
+    expect(await pool.getFailedTransfers()).to.deep.equal([]);
+    expect(await pool.getUnclaimedFunds()).to.equal(0);
+  });
+
+  it("Should keep both shares when a receiver fails on two distributions", async function () {
+    await time.increase(24 * 60 * 60);
+    await testReceiver.enterReceiverPool();
+    await pool.connect(giver).giveKindness(ethers.parseEther("0.4"), { value: ethers.parseEther("0.4") });
+    await pool.connect(owner).startDistribution();
+
+    expect(await pool.getFailedTransferAmount(testReceiver.target)).to.equal(share + ethers.parseEther("0.4"));
+    expect(await pool.getUnclaimedFunds()).to.equal(share + ethers.parseEther("0.4"));
+    expect(await pool.getFailedTransfers()).to.deep.equal([testReceiver.target]);
+  });
+});
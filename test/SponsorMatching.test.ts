@@ -0,0 +1,398 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { MockERC20, SponsorMatching, TokenPool } from "../typechain-types";
+import { DistributionWindowOverride, stablecoinPoolParameters } from "../scripts/config/poolParameters";
+import { nextPoolDayStart } from "../scripts/utils/days";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Sponsor Matching", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let matching: SponsorMatching;
+  let owner: any;
+  let sponsor: any;
+  let otherSponsor: any;
+  let giver: any;
+  let otherGiver: any;
+
+  const eth = (amount: string) => ethers.parseEther(amount);
+
+  beforeEach(async function () {
+    [owner, sponsor, otherSponsor, giver, otherGiver] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    const SponsorMatching = await ethers.getContractFactory("SponsorMatching");
+    matching = await SponsorMatching.deploy(owner.address, await pool.getAddress(), ethers.ZeroAddress);
+    await matching.waitForDeployment();
+    await expect(pool.connect(owner).setContributionMatcher(matching.target))
+      .to.emit(pool, "ContributionMatcherUpdated")
+      .withArgs(matching.target);
+
+    // Start early in a pool day, outside the distribution window, so withdrawal cooldowns stay within the day
+    await time.increaseTo(nextPoolDayStart(await time.latest()) + 60 * 60);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function sponsorMatch(account: any, amount: bigint, ratioBps: number, dailyCap: bigint, days = 7) {
+    const expiry = (await time.latest()) + days * 86400;
+    await matching.connect(account).createSponsorship(amount, ratioBps, dailyCap, expiry, { value: amount });
+    return expiry;
+  }
+
+  it("Should add matches to the daily pool when kindness is given", async function () {
+    const expiry = (await time.latest()) + 7 * 86400;
+    await expect(matching.connect(sponsor).createSponsorship(eth("20"), 10000, eth("10"), expiry, { value: eth("20") }))
+      .to.emit(matching, "SponsorshipCreated")
+      .withArgs(1, sponsor.address, eth("20"), 10000, eth("10"), expiry);
+
+    await expect(pool.connect(giver).giveKindness(eth("1"), { value: eth("1") }))
+      .to.emit(pool, "KindnessGiven")
+      .withArgs(giver.address, eth("1"))
+      .and.to.emit(matching, "ContributionMatched")
+      .withArgs(1, giver.address, eth("1"));
+
+    expect(await pool.dailyPool()).to.equal(eth("2"));
+    expect(await pool.dailyContributions(giver.address)).to.equal(eth("1"));
+    expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(eth("1"));
+    expect(await matching.getRemainingCapacity(1)).to.equal(eth("9"));
+    expect(await matching.getTotalRemainingCapacity()).to.equal(eth("9"));
+    expect((await matching.sponsorships(1)).balance).to.equal(eth("19"));
+  });
+
+  it("Should stop matching once the daily cap is exhausted and restore it the next day", async function () {
+    // 2:1 up to 3 ETH a day
+    await sponsorMatch(sponsor, eth("4"), 20000, eth("3"));
+
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    await expect(pool.connect(otherGiver).giveKindness(eth("1"), { value: eth("1") }))
+      .to.emit(matching, "ContributionMatched")
+      .withArgs(1, otherGiver.address, eth("1"));
+    expect(await matching.getRemainingCapacity(1)).to.equal(0);
+
+    await expect(pool.connect(giver).giveKindness(eth("1"), { value: eth("1") })).not.to.emit(
+      matching,
+      "ContributionMatched"
+    );
+    expect(await pool.dailyPool()).to.equal(eth("6"));
+
+    // Tomorrow's capacity is limited by what is left in escrow
+    await time.increase(86400);
+    expect(await matching.getRemainingCapacity(1)).to.equal(eth("1"));
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    expect((await matching.sponsorships(1)).balance).to.equal(0);
+    expect(await matching.getTotalRemainingCapacity()).to.equal(0);
+  });
+
+  it("Should reverse matches when contributions are withdrawn", async function () {
+    await sponsorMatch(sponsor, eth("10"), 10000, eth("2"));
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    expect(await matching.getRemainingCapacity(1)).to.equal(0);
+
+    const withdrawal = pool.connect(giver).withdrawContribution(eth("0.5"));
+    await expect(withdrawal).to.emit(matching, "MatchReversed").withArgs(1, giver.address, eth("0.5"));
+    await expect(withdrawal).to.changeEtherBalances([giver, matching], [eth("0.5"), eth("0.5")]);
+    expect(await pool.dailyPool()).to.equal(eth("3"));
+    expect((await matching.sponsorships(1)).balance).to.equal(eth("8.5"));
+    expect(await matching.getRemainingCapacity(1)).to.equal(eth("0.5"));
+
+    // The freed capacity matches the next contribution
+    await expect(pool.connect(otherGiver).giveKindness(eth("1"), { value: eth("1") }))
+      .to.emit(matching, "ContributionMatched")
+      .withArgs(1, otherGiver.address, eth("0.5"));
+
+    // Withdrawing everything that is left reverses the rest of the giver's matches
+    await time.increase(await pool.WITHDRAWAL_COOLDOWN());
+    await expect(pool.connect(giver).withdrawContribution(eth("1.5")))
+      .to.emit(matching, "MatchReversed")
+      .withArgs(1, giver.address, eth("1.5"));
+    expect(await matching.matchedFor(await pool.getCurrentDay(), await pool.poolRound(), giver.address, 1)).to.equal(0);
+    expect(await pool.dailyPool()).to.equal(eth("1.5"));
+    expect((await matching.sponsorships(1)).balance).to.equal(eth("9.5"));
+  });
+
+  it("Should split matches and reversals across sponsorships", async function () {
+    await sponsorMatch(sponsor, eth("10"), 10000, eth("10"));
+    await sponsorMatch(otherSponsor, eth("10"), 5000, eth("10"));
+
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    expect(await pool.dailyPool()).to.equal(eth("2.5"));
+    expect(await matching.getActiveSponsorships()).to.deep.equal([1n, 2n]);
+
+    await expect(pool.connect(giver).withdrawContribution(eth("0.4")))
+      .to.emit(matching, "MatchReversed")
+      .withArgs(1, giver.address, eth("0.4"))
+      .and.to.emit(matching, "MatchReversed")
+      .withArgs(2, giver.address, eth("0.2"));
+    expect(await pool.dailyPool()).to.equal(eth("1.5"));
+  });
+
+  it("Should not reverse matches from an earlier day", async function () {
+    await sponsorMatch(sponsor, eth("10"), 10000, eth("10"));
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+
+    // Only the contribution from the day of the withdrawal counts
+    await time.increase(86400);
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    await expect(pool.connect(giver).withdrawContribution(eth("1")))
+      .to.emit(matching, "MatchReversed")
+      .withArgs(1, giver.address, eth("1"));
+    expect((await matching.sponsorships(1)).balance).to.equal(eth("9"));
+  });
+
+  it("Should not reverse matches from a round distributed earlier the same day", async function () {
+    const [, , , , , receiver] = await ethers.getSigners();
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+    await pool.connect(receiver).enterReceiverPool();
+    await sponsorMatch(sponsor, eth("10"), 10000, eth("1"));
+
+    // The first round and its match are paid out
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    await pool.connect(owner).distributePool();
+
+    // Same day, new round: the daily cap is used up, so nothing is matched
+    await pool.connect(giver).giveKindness(eth("0.5"), { value: eth("0.5") });
+    await pool.connect(otherGiver).giveKindness(eth("0.5"), { value: eth("0.5") });
+    expect(await pool.dailyPool()).to.equal(eth("1"));
+
+    // Withdrawing takes back only the giver's own contribution, not other givers' funds
+    await expect(pool.connect(giver).withdrawContribution(eth("0.5"))).not.to.emit(matching, "MatchReversed");
+    expect(await pool.dailyPool()).to.equal(eth("0.5"));
+    expect((await matching.sponsorships(1)).balance).to.equal(eth("9"));
+    expect(await matching.getRemainingCapacity(1)).to.equal(0);
+  });
+
+  it("Should return the escrow only after expiry and the last matching day", async function () {
+    const expiry = await sponsorMatch(sponsor, eth("5"), 10000, eth("1"), 2);
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+
+    await expect(matching.connect(sponsor).closeSponsorship(1)).to.be.revertedWithCustomError(
+      matching,
+      "SponsorshipActive"
+    );
+    await expect(matching.connect(otherSponsor).closeSponsorship(1)).to.be.revertedWithCustomError(
+      matching,
+      "NotSponsor"
+    );
+
+    // Expired sponsorships no longer match
+    await time.increaseTo(expiry + 1);
+    expect(await matching.getRemainingCapacity(1)).to.equal(0);
+    await expect(pool.connect(giver).giveKindness(eth("1"), { value: eth("1") })).not.to.emit(
+      matching,
+      "ContributionMatched"
+    );
+
+    const close = matching.connect(sponsor).closeSponsorship(1);
+    await expect(close).to.emit(matching, "SponsorshipClosed").withArgs(1, eth("4"));
+    await expect(close).to.changeEtherBalances([sponsor, matching], [eth("4"), -eth("4")]);
+    expect(await matching.getActiveSponsorships()).to.deep.equal([]);
+    await expect(matching.connect(sponsor).closeSponsorship(1)).to.be.revertedWithCustomError(
+      matching,
+      "NotSponsor"
+    );
+  });
+
+  it("Should validate sponsorships and limit how many are active", async function () {
+    const expiry = (await time.latest()) + 86400;
+    await expect(
+      matching.connect(sponsor).createSponsorship(eth("1"), 0, eth("1"), expiry, { value: eth("1") })
+    ).to.be.revertedWithCustomError(matching, "InvalidParameters");
+    await expect(
+      matching.connect(sponsor).createSponsorship(eth("1"), 10000, eth("1"), await time.latest(), { value: eth("1") })
+    ).to.be.revertedWithCustomError(matching, "InvalidParameters");
+    await expect(
+      matching.connect(sponsor).createSponsorship(eth("1"), 10000, eth("1"), expiry, { value: eth("0.5") })
+    ).to.be.revertedWithCustomError(matching, "ValueMismatch");
+
+    // At least the largest single contribution, for at most MAX_SPONSORSHIP_DURATION
+    const minAmount = await pool.MAX_KINDNESS_AMOUNT();
+    await expect(
+      matching.connect(sponsor).createSponsorship(minAmount - 1n, 10000, eth("1"), expiry, { value: minAmount - 1n })
+    ).to.be.revertedWithCustomError(matching, "InvalidParameters");
+    const tooLate = (await time.latest()) + Number(await matching.MAX_SPONSORSHIP_DURATION()) + 60;
+    await expect(
+      matching.connect(sponsor).createSponsorship(eth("1"), 10000, eth("1"), tooLate, { value: eth("1") })
+    ).to.be.revertedWithCustomError(matching, "InvalidParameters");
+
+    const maxActive = Number(await matching.MAX_ACTIVE_SPONSORSHIPS());
+    for (let i = 0; i < maxActive; i++) {
+      await sponsorMatch(sponsor, eth("1"), 10000, eth("1"));
+    }
+    await expect(sponsorMatch(sponsor, eth("1"), 10000, eth("1"))).to.be.revertedWithCustomError(
+      matching,
+      "TooManySponsorships"
+    );
+
+    // Every active sponsorship matches a contribution
+    await pool.connect(giver).giveKindness(eth("0.5"), { value: eth("0.5") });
+    expect(await pool.dailyPool()).to.equal(eth("0.5") * BigInt(maxActive + 1));
+  });
+
+  it("Should free the slots of expired sponsorships for new sponsors", async function () {
+    // Every slot taken by the cheapest, shortest sponsorships possible
+    const maxActive = Number(await matching.MAX_ACTIVE_SPONSORSHIPS());
+    const minAmount = await pool.MAX_KINDNESS_AMOUNT();
+    let expiry = 0;
+    for (let i = 0; i < maxActive; i++) {
+      expiry = await sponsorMatch(otherSponsor, minAmount, 1, 1n, 1);
+    }
+    await expect(sponsorMatch(sponsor, eth("5"), 10000, eth("5"))).to.be.revertedWithCustomError(
+      matching,
+      "TooManySponsorships"
+    );
+
+    // Once they expire, the squatter does not have to close them for a new sponsor to get in
+    await time.increaseTo(expiry + 1);
+    await sponsorMatch(sponsor, eth("5"), 10000, eth("5"));
+    const newId = BigInt(maxActive + 1);
+    expect(await matching.getActiveSponsorships()).to.deep.equal([newId]);
+    await expect(pool.connect(giver).giveKindness(eth("1"), { value: eth("1") }))
+      .to.emit(matching, "ContributionMatched")
+      .withArgs(newId, giver.address, eth("1"));
+
+    // The pruned escrow can still be reclaimed
+    await expect(matching.connect(otherSponsor).closeSponsorship(1)).to.changeEtherBalance(otherSponsor, minAmount);
+  });
+
+  it("Should free the slots of spent sponsorships", async function () {
+    const amount = await pool.MAX_KINDNESS_AMOUNT();
+    await sponsorMatch(otherSponsor, amount, 10000, amount);
+    await sponsorMatch(sponsor, eth("5"), 10000, eth("5"));
+
+    // Matching one maximum contribution uses up the whole escrow
+    await pool.connect(giver).giveKindness(amount, { value: amount });
+    expect((await matching.sponsorships(1)).balance).to.equal(0);
+    expect(await matching.getActiveSponsorships()).to.deep.equal([1n, 2n]);
+
+    // Pruned after its last matching day, and closable before it expires
+    await time.increase(86400);
+    await pool.connect(otherGiver).giveKindness(eth("0.1"), { value: eth("0.1") });
+    expect(await matching.getActiveSponsorships()).to.deep.equal([2n]);
+    await expect(matching.connect(otherSponsor).closeSponsorship(1))
+      .to.emit(matching, "SponsorshipClosed")
+      .withArgs(1, 0);
+  });
+
+  it("Should let the admin end sponsorships that squat the active slots", async function () {
+    // Every slot held for the longest time allowed, matching next to nothing
+    const maxActive = Number(await matching.MAX_ACTIVE_SPONSORSHIPS());
+    const minAmount = await pool.MAX_KINDNESS_AMOUNT();
+    for (let i = 0; i < maxActive; i++) {
+      await sponsorMatch(otherSponsor, minAmount, 1, 1n, 90);
+    }
+
+    await expect(matching.connect(sponsor).endSponsorship(1)).to.be.revertedWithCustomError(
+      matching,
+      "AccessControlUnauthorizedAccount"
+    );
+    await expect(matching.connect(owner).endSponsorship(maxActive + 1)).to.be.revertedWithCustomError(
+      matching,
+      "InvalidParameters"
+    );
+
+    for (let id = 1; id <= maxActive; id++) {
+      await expect(matching.connect(owner).endSponsorship(id)).to.emit(matching, "SponsorshipEnded").withArgs(id);
+    }
+    expect(await matching.getActiveSponsorships()).to.deep.equal([]);
+    await sponsorMatch(sponsor, eth("5"), 10000, eth("5"));
+
+    // The squatter gets the escrow back as after a normal expiry
+    await expect(matching.connect(otherSponsor).closeSponsorship(1)).to.changeEtherBalance(otherSponsor, minAmount);
+  });
+
+  it("Should drop expired sponsorships from the active list once their last matching day is over", async function () {
+    const expiry = await sponsorMatch(sponsor, eth("5"), 10000, eth("5"), 1);
+    await sponsorMatch(otherSponsor, eth("5"), 10000, eth("5"));
+
+    // Matched on the day it expires, so withdrawals that day can still reverse into it
+    await time.increaseTo(expiry - 60);
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    await time.increaseTo(expiry + 1);
+    await pool.connect(otherGiver).giveKindness(eth("1"), { value: eth("1") });
+    expect(await matching.getActiveSponsorships()).to.deep.equal([1n, 2n]);
+    await expect(pool.connect(giver).withdrawContribution(eth("1")))
+      .to.emit(matching, "MatchReversed")
+      .withArgs(1, giver.address, eth("1"));
+
+    await time.increase(86400);
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    expect(await matching.getActiveSponsorships()).to.deep.equal([2n]);
+  });
+
+  it("Should only accept matches and ETH through the pool and its matcher", async function () {
+    await expect(matching.connect(giver).matchContribution(giver.address, eth("1"))).to.be.revertedWithCustomError(
+      matching,
+      "NotPool"
+    );
+    await expect(matching.connect(giver).reverseMatch(giver.address, eth("1"))).to.be.revertedWithCustomError(
+      matching,
+      "NotPool"
+    );
+    await expect(giver.sendTransaction({ to: pool.target, value: eth("1") })).to.be.revertedWithCustomError(
+      pool,
+      "NotMatcher"
+    );
+    await expect(pool.connect(giver).setContributionMatcher(giver.address)).to.be.revertedWithCustomError(
+      pool,
+      "AccessControlUnauthorizedAccount"
+    );
+
+    // Without a matcher contributions are not matched
+    await sponsorMatch(sponsor, eth("5"), 10000, eth("5"));
+    await pool.connect(owner).setContributionMatcher(ethers.ZeroAddress);
+    await pool.connect(giver).giveKindness(eth("1"), { value: eth("1") });
+    expect(await pool.dailyPool()).to.equal(eth("1"));
+  });
+
+  it("Should match TokenPool contributions in the pool's token", async function () {
+    const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const token: MockERC20 = await MockERC20.deploy("USD Coin", "USDC", 6);
+    const TokenPool = await ethers.getContractFactory("TokenPool");
+    const tokenPool: TokenPool = await TokenPool.deploy(owner.address, token.target, stablecoinPoolParameters(6));
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    const registry = UserRegistry.attach(await tokenPool.userRegistry()) as UserRegistry;
+    await registry.connect(owner).updateSystem(tokenPool.target);
+
+    const SponsorMatching = await ethers.getContractFactory("SponsorMatching");
+    const tokenMatching = await SponsorMatching.deploy(owner.address, tokenPool.target, token.target);
+    await tokenPool.connect(owner).setContributionMatcher(tokenMatching.target);
+
+    await token.mint(sponsor.address, usdc("100"));
+    await token.connect(sponsor).approve(tokenMatching.target, usdc("100"));
+    await tokenMatching
+      .connect(sponsor)
+      .createSponsorship(usdc("100"), 10000, usdc("50"), (await time.latest()) + 86400);
+
+    await token.mint(giver.address, usdc("10"));
+    await token.connect(giver).approve(tokenPool.target, usdc("10"));
+    await tokenPool.connect(giver).giveKindness(usdc("10"));
+    expect(await tokenPool.dailyPool()).to.equal(usdc("20"));
+    expect(await token.balanceOf(tokenPool.target)).to.equal(usdc("20"));
+
+    await tokenPool.connect(giver).withdrawContribution(usdc("4"));
+    expect(await tokenPool.dailyPool()).to.equal(usdc("12"));
+    expect(await token.balanceOf(tokenMatching.target)).to.equal(usdc("94"));
+    await expectPoolBalanceInvariantAfterEveryTransaction(tokenPool, (blockTag) =>
+      token.balanceOf(tokenPool.target, { blockTag })
+    );
+  });
+});
@@ -0,0 +1,265 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { KindnessSubscriptions } from "../typechain-types";
+import { DistributionKeeper } from "../scripts/keeper/DistributionKeeper";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Subscriptions", function () {
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let subscriptions: KindnessSubscriptions;
+  let owner: any;
+  let giver: any;
+  let otherGiver: any;
+  let keeper: any;
+
+  const DAILY = ethers.parseEther("0.01");
+
+  beforeEach(async function () {
+    [owner, giver, otherGiver, keeper] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    // Deploy the subscriptions contract and let it contribute for givers
+    const KindnessSubscriptions = await ethers.getContractFactory("KindnessSubscriptions");
+    subscriptions = await KindnessSubscriptions.deploy(await pool.getAddress());
+    await subscriptions.waitForDeployment();
+    await pool.connect(owner).grantRole(await pool.SUBSCRIPTION_ROLE(), subscriptions.target);
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  async function subscribe(account: any, dailyAmount: bigint, days: number, deposit: bigint) {
+    const endTime = (await time.latest()) + days * 86400;
+    await subscriptions.connect(account).subscribe(dailyAmount, endTime, { value: deposit });
+    return endTime;
+  }
+
+  it("Should contribute the daily amount once per day over several days", async function () {
+    const endTime = (await time.latest()) + 10 * 86400;
+    await expect(subscriptions.connect(giver).subscribe(DAILY, endTime, { value: DAILY * 10n }))
+      .to.emit(subscriptions, "Subscribed")
+      .withArgs(giver.address, DAILY, endTime, DAILY * 10n);
+
+    for (let day = 1; day <= 3; day++) {
+      const currentDay = await pool.getCurrentDay();
+      await expect(subscriptions.connect(keeper).executeSubscriptions(10))
+        .to.emit(pool, "KindnessGiven")
+        .withArgs(giver.address, DAILY)
+        .and.to.emit(subscriptions, "SubscriptionExecuted")
+        .withArgs(giver.address, currentDay, DAILY);
+
+      // A second call on the same day does nothing
+      expect(await subscriptions.executeSubscriptions.staticCall(10)).to.equal(0);
+      expect(await pool.dailyContributions(giver.address)).to.equal(DAILY);
+      expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(DAILY * BigInt(day));
+      expect((await subscriptions.subscriptions(giver.address)).balance).to.equal(DAILY * BigInt(10 - day));
+
+      await time.increase(86400);
+    }
+    expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(DAILY * 3n);
+    expect(await ethers.provider.getBalance(subscriptions.target)).to.equal(DAILY * 7n);
+  });
+
+  it("Should skip a day that would exceed MAX_DAILY_CONTRIBUTION and keep the balance", async function () {
+    const maxAmount = await pool.MAX_KINDNESS_AMOUNT();
+    await subscribe(giver, maxAmount, 5, maxAmount * 2n);
+
+    // The giver already gave up to the daily limit by hand
+    const maxDaily = await pool.MAX_DAILY_CONTRIBUTION();
+    for (let given = 0n; given < maxDaily; given += maxAmount) {
+      await pool.connect(giver).giveKindness(maxAmount, { value: maxAmount });
+    }
+
+    const selector = pool.interface.getError("DailyContributionLimitExceeded")!.selector;
+    await expect(subscriptions.executeSubscriptions(10))
+      .to.emit(subscriptions, "SubscriptionSkipped")
+      .withArgs(giver.address, await pool.getCurrentDay(), selector)
+      .and.not.to.emit(pool, "KindnessGiven");
+    expect((await subscriptions.subscriptions(giver.address)).balance).to.equal(maxAmount * 2n);
+    expect(await subscriptions.getDueCount()).to.equal(0);
+
+    // The limit resets the next day
+    await time.increase(86400);
+    await expect(subscriptions.executeSubscriptions(10)).to.emit(subscriptions, "SubscriptionExecuted");
+    expect((await subscriptions.subscriptions(giver.address)).balance).to.equal(maxAmount);
+  });
+
+  it("Should stop at the end time or when the balance runs out", async function () {
+    const endTime = await subscribe(giver, DAILY, 2, DAILY * 10n);
+    await subscribe(otherGiver, DAILY, 10, DAILY * 2n);
+
+    expect(await subscriptions.executeSubscriptions.staticCall(10)).to.equal(2);
+    for (let day = 0; day < 4; day++) {
+      await subscriptions.executeSubscriptions(10);
+      await time.increase(86400);
+    }
+    expect(await time.latest()).to.be.greaterThan(endTime);
+
+    expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(DAILY * 2n);
+    expect((await userRegistry.getUserStats(otherGiver.address)).totalGiven).to.equal(DAILY * 2n);
+    expect((await subscriptions.subscriptions(otherGiver.address)).balance).to.equal(0);
+    expect(await subscriptions.getDueCount()).to.equal(0);
+    expect(await subscriptions.executeSubscriptions.staticCall(10)).to.equal(0);
+  });
+
+  it("Should refund the remaining balance on cancellation", async function () {
+    await subscribe(giver, DAILY, 10, DAILY * 5n);
+    await subscribe(otherGiver, DAILY, 10, DAILY * 5n);
+    await subscriptions.executeSubscriptions(10);
+    await time.increase(86400);
+    await subscriptions.executeSubscriptions(10);
+
+    const cancel = subscriptions.connect(giver).cancelSubscription();
+    await expect(cancel).to.emit(subscriptions, "SubscriptionCancelled").withArgs(giver.address, DAILY * 3n);
+    await expect(cancel).to.changeEtherBalances([giver, subscriptions], [DAILY * 3n, -DAILY * 3n]);
+    expect((await subscriptions.subscriptions(giver.address)).balance).to.equal(0);
+    expect(await subscriptions.getSubscriberCount()).to.equal(1);
+    expect(await subscriptions.subscribers(0)).to.equal(otherGiver.address);
+
+    await expect(subscriptions.connect(giver).cancelSubscription()).to.be.revertedWithCustomError(
+      subscriptions,
+      "NoSubscription"
+    );
+
+    // Cancelled givers are no longer executed
+    await time.increase(86400);
+    await expect(subscriptions.executeSubscriptions(10))
+      .to.emit(pool, "KindnessGiven")
+      .withArgs(otherGiver.address, DAILY);
+    expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(DAILY * 2n);
+  });
+
+  it("Should remove ended subscriptions while executing and keep their balance refundable", async function () {
+    await subscribe(giver, DAILY, 1, DAILY * 3n);
+    await subscribe(otherGiver, DAILY * 2n, 10, DAILY * 2n);
+    await subscriptions.executeSubscriptions(10);
+    expect(await subscriptions.getSubscriberCount()).to.equal(2);
+
+    // The giver's end time passed and the other giver's balance ran out
+    await time.increase(2 * 86400);
+    await expect(subscriptions.executeSubscriptions(10))
+      .to.emit(subscriptions, "SubscriptionEnded")
+      .withArgs(giver.address, DAILY * 2n)
+      .and.to.emit(subscriptions, "SubscriptionEnded")
+      .withArgs(otherGiver.address, 0);
+    expect(await subscriptions.getSubscriberCount()).to.equal(0);
+
+    await expect(subscriptions.connect(giver).cancelSubscription()).to.changeEtherBalance(giver, DAILY * 2n);
+    await expect(subscriptions.connect(otherGiver).cancelSubscription()).to.be.revertedWithCustomError(
+      subscriptions,
+      "NoSubscription"
+    );
+
+    // Subscribing again lists the giver again
+    await subscribe(otherGiver, DAILY, 10, DAILY);
+    expect(await subscriptions.subscribers(0)).to.equal(otherGiver.address);
+  });
+
+  it("Should visit each subscriber once a day across calls", async function () {
+    const [, , , , thirdGiver] = await ethers.getSigners();
+    for (const account of [giver, otherGiver, thirdGiver]) {
+      await subscribe(account, DAILY, 10, DAILY * 5n);
+    }
+
+    // Each call picks up where the previous one stopped
+    expect(await subscriptions.getUnvisitedCount()).to.equal(3);
+    await subscriptions.executeSubscriptions(1);
+    expect(await subscriptions.getUnvisitedCount()).to.equal(2);
+
+    // Removing a subscriber already visited does not skip anyone still to be visited
+    await subscriptions.connect(giver).cancelSubscription();
+    expect(await subscriptions.getUnvisitedCount()).to.equal(2);
+    await subscriptions.executeSubscriptions(2);
+    expect(await subscriptions.getUnvisitedCount()).to.equal(0);
+    expect(await pool.dailyContributions(otherGiver.address)).to.equal(DAILY);
+    expect(await pool.dailyContributions(thirdGiver.address)).to.equal(DAILY);
+
+    // Nothing is left to visit until the next pool day
+    expect(await subscriptions.executeSubscriptions.staticCall(10)).to.equal(0);
+    await time.increase(86400);
+    expect(await subscriptions.getUnvisitedCount()).to.equal(2);
+    expect(await subscriptions.executeSubscriptions.staticCall(10)).to.equal(2);
+  });
+
+  it("Should top up and update an existing subscription without executing twice a day", async function () {
+    await subscribe(giver, DAILY, 10, DAILY);
+    await subscriptions.executeSubscriptions(10);
+
+    await subscribe(giver, DAILY * 2n, 10, DAILY * 4n);
+    expect(await subscriptions.getSubscriberCount()).to.equal(1);
+    expect(await subscriptions.executeSubscriptions.staticCall(10)).to.equal(0);
+
+    await time.increase(86400);
+    await expect(subscriptions.executeSubscriptions(10))
+      .to.emit(pool, "KindnessGiven")
+      .withArgs(giver.address, DAILY * 2n);
+    expect((await subscriptions.subscriptions(giver.address)).balance).to.equal(DAILY * 2n);
+  });
+
+  it("Should process at most maxCount subscriptions per call", async function () {
+    await subscribe(giver, DAILY, 10, DAILY * 5n);
+    await subscribe(otherGiver, DAILY, 10, DAILY * 5n);
+
+    expect(await subscriptions.getDueCount()).to.equal(2);
+    await subscriptions.executeSubscriptions(1);
+    expect(await subscriptions.getDueCount()).to.equal(1);
+    await subscriptions.executeSubscriptions(1);
+    expect(await subscriptions.getDueCount()).to.equal(0);
+  });
+
+  it("Should be executed by the distribution keeper", async function () {
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address);
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Closed);
+    await subscribe(giver, DAILY, 10, DAILY * 5n);
+    await subscribe(otherGiver, DAILY, 10, DAILY * 5n);
+
+    const distributionKeeper = new DistributionKeeper(pool.connect(owner), {
+      subscriptions: subscriptions.connect(keeper),
+      subscriptionBatchSize: 1,
+      log: () => {},
+    });
+    expect((await distributionKeeper.runOnce()).subscriptionsExecuted).to.equal(2);
+    expect(await pool.dailyPool()).to.equal(DAILY * 2n);
+    expect((await distributionKeeper.runOnce()).subscriptionsExecuted).to.equal(0);
+  });
+
+  it("Should validate subscriptions and restrict giveKindnessFor to SUBSCRIPTION_ROLE", async function () {
+    const endTime = (await time.latest()) + 86400;
+    await expect(subscriptions.connect(giver).subscribe(1n, endTime)).to.be.revertedWithCustomError(
+      subscriptions,
+      "AmountTooLow"
+    );
+    const tooHigh = (await pool.MAX_KINDNESS_AMOUNT()) + 1n;
+    await expect(subscriptions.connect(giver).subscribe(tooHigh, endTime)).to.be.revertedWithCustomError(
+      subscriptions,
+      "AmountTooHigh"
+    );
+    await expect(subscriptions.connect(giver).subscribe(DAILY, await time.latest())).to.be.revertedWithCustomError(
+      subscriptions,
+      "InvalidEndTime"
+    );
+    await expect(
+      subscriptions.connect(giver).subscribe(DAILY, endTime, { value: DAILY - 1n })
+    ).to.be.revertedWithCustomError(subscriptions, "InsufficientBalance");
+
+    await expect(
+      pool.connect(giver).giveKindnessFor(otherGiver.address, DAILY, { value: DAILY })
+    ).to.be.revertedWithCustomError(pool, "AccessControlUnauthorizedAccount");
+  });
+});
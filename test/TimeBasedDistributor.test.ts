@@ -2,6 +2,9 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { TimeBasedDistributor, Pool, UserRegistry } from "../typechain-types";
 import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { createFundedWallets } from "./helpers/wallets";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
 
 describe("TimeBasedDistributor", function () {
   let timeBasedDistributor: TimeBasedDistributor;
@@ -30,6 +33,10 @@ describe("TimeBasedDistributor", function () {
     await timeBasedDistributor.waitForDeployment();
   });
 
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
   describe("Deployment", function () {
     it("Should deploy with valid pool and owner addresses", async function () {
       const TimeBasedDistributor = await ethers.getContractFactory("TimeBasedDistributor");
@@ -119,7 +126,7 @@ describe("TimeBasedDistributor", function () {
       await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), await timeBasedDistributor.getAddress());
 
       // Mock the pool's isWithinDistributionWindow to return true
-      await pool.connect(owner).setDistributionWindow(true);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
 
       // Grant distributor role to addr1
       await timeBasedDistributor.grantRole(await timeBasedDistributor.DISTRIBUTOR_ROLE(), addr1.address);
@@ -129,4 +136,88 @@ describe("TimeBasedDistributor", function () {
         .withArgs(anyValue, true);
     });
   });
-});
\ No newline at end of file
+
+  describe("Batched Distribution", function () {
+    let userRegistry: UserRegistry;
+    let receivers: any[];
+
+    beforeEach(async function () {
+      userRegistry = await ethers.getContractAt("UserRegistry", await pool.userRegistry());
+
+      await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), await timeBasedDistributor.getAddress());
+      await timeBasedDistributor.grantRole(await timeBasedDistributor.DISTRIBUTOR_ROLE(), addr1.address);
+      await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+      // Fill the pool with MAX_RECEIVERS receivers
+      const maxReceivers = Number(await pool.MAX_RECEIVERS());
+      receivers = await createFundedWallets(maxReceivers);
+      for (const receiver of receivers) {
+        await pool.connect(receiver).enterReceiverPool();
+      }
+      await pool.connect(addr2).giveKindness(ethers.parseEther("1"), { value: ethers.parseEther("1") });
+    });
+
+    it("Should drive a 100-receiver day through start, continue and complete", async function () {
+      const batchSize = await pool.DISTRIBUTION_BATCH_SIZE();
+
+      await timeBasedDistributor.connect(addr1).attemptDistribution();
+      expect(await pool.distributionInProgress()).to.be.true;
+      expect(await pool.distributionIndex()).to.equal(batchSize);
+
+      await expect(timeBasedDistributor.connect(addr1).continueDistribution())
+        .to.emit(timeBasedDistributor, "DistributionContinued")
+        .withArgs(anyValue, false);
+      expect(await pool.distributionIndex()).to.equal(batchSize * 2n);
+
+      await expect(timeBasedDistributor.connect(addr1).completeDistribution(2_000_000))
+        .to.emit(timeBasedDistributor, "BatchesProcessed")
+        .withArgs(2, true);
+
+      expect(await pool.distributionInProgress()).to.be.false;
+      expect(await pool.dailyPool()).to.equal(0);
+      expect(await pool.hasDistributedToday()).to.be.true;
+
+      const share = ethers.parseEther("1") / BigInt(receivers.length);
+      for (const receiver of receivers) {
+        const stats = await userRegistry.getUserStats(receiver.address);
+        expect(stats.totalReceived).to.equal(share);
+        expect(stats.isInReceiverPool).to.be.false;
+      }
+    });
+
+    it("Should stop completing when the gas budget runs out", async function () {
+      await timeBasedDistributor.connect(addr1).attemptDistribution();
+
+      // Only enough gas for a single batch before the budget check fails
+      await expect(timeBasedDistributor.connect(addr1).completeDistribution(5_000_000, { gasLimit: 6_000_000 }))
+        .to.emit(timeBasedDistributor, "BatchesProcessed")
+        .withArgs(1, false);
+      expect(await pool.distributionInProgress()).to.be.true;
+
+      await expect(timeBasedDistributor.connect(addr1).completeDistribution(2_000_000))
+        .to.emit(timeBasedDistributor, "BatchesProcessed")
+        .withArgs(2, true);
+    });
+
+    it("Should report the underlying Pool error selector", async function () {
+      const notInProgress = pool.interface.getError("NoDistributionInProgress")!.selector;
+      await expect(timeBasedDistributor.connect(addr1).continueDistribution())
+        .to.be.revertedWithCustomError(timeBasedDistributor, "DistributionFailed")
+        .withArgs(notInProgress);
+
+      // Starting again while the first run is in progress: the pool was reserved for the run
+      await timeBasedDistributor.connect(addr1).attemptDistribution();
+      const emptyPool = pool.interface.getError("EmptyPool")!.selector;
+      await expect(timeBasedDistributor.connect(addr1).attemptDistribution())
+        .to.be.revertedWithCustomError(timeBasedDistributor, "DistributionFailed")
+        .withArgs(emptyPool);
+    });
+
+    it("Should revert completeDistribution when nothing is in progress", async function () {
+      await expect(timeBasedDistributor.connect(addr1).completeDistribution(2_000_000))
+        .to.be.revertedWithCustomError(timeBasedDistributor, "NoDistributionInProgress");
+      await expect(timeBasedDistributor.connect(addr2).completeDistribution(2_000_000))
+        .to.be.revertedWithCustomError(timeBasedDistributor, "NotDistributor");
+    });
+  });
+});
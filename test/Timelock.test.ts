@@ -0,0 +1,161 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Pool } from "../typechain-types/contracts/Pool";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { KindnessTimelock, TimeBasedDistributor } from "../typechain-types";
+import {
+  OperationState,
+  TimelockOperator,
+  encodeCall,
+  saltFromLabel,
+  transferAdminToTimelock,
+} from "../scripts/governance/timelock";
+import { DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+describe("Timelock Governance", function () {
+  const MIN_DELAY = 2 * 24 * 60 * 60;
+
+  let pool: Pool;
+  let userRegistry: UserRegistry;
+  let distributor: TimeBasedDistributor;
+  let timelock: KindnessTimelock;
+  let operator: TimelockOperator;
+  let owner: any;
+  let proposer: any;
+  let user1: any;
+
+  beforeEach(async function () {
+    [owner, proposer, user1] = await ethers.getSigners();
+
+    // Deploy Pool contract
+    const Pool = await ethers.getContractFactory("Pool");
+    pool = await Pool.deploy(owner.address);
+    await pool.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const userRegistryAddress = await pool.userRegistry();
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(userRegistryAddress) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await pool.getAddress());
+
+    const TimeBasedDistributor = await ethers.getContractFactory("TimeBasedDistributor");
+    distributor = await TimeBasedDistributor.deploy(await pool.getAddress());
+    await distributor.waitForDeployment();
+    await pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), await distributor.getAddress());
+    await pool.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+
+    // Proposer also executes; the timelock administers itself
+    const KindnessTimelock = await ethers.getContractFactory("KindnessTimelock");
+    timelock = await KindnessTimelock.deploy(MIN_DELAY, [proposer.address], [proposer.address], ethers.ZeroAddress);
+    await timelock.waitForDeployment();
+
+    await transferAdminToTimelock({ pool, distributor, userRegistry }, await timelock.getAddress(), owner.address);
+    operator = new TimelockOperator(timelock.connect(proposer));
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+  });
+
+  function poolAction(method: string, args: unknown[] = [], label?: string) {
+    return { target: pool.target as string, data: encodeCall(pool.interface, method, args), salt: saltFromLabel(label) };
+  }
+
+  describe("Deployment", function () {
+    it("Should reject a minimum delay below the floor", async function () {
+      const KindnessTimelock = await ethers.getContractFactory("KindnessTimelock");
+      await expect(KindnessTimelock.deploy(60, [proposer.address], [proposer.address], ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(timelock, "DelayTooShort");
+    });
+
+    it("Should hold every admin permission after the handover", async function () {
+      const timelockAddress = await timelock.getAddress();
+      expect(await pool.hasRole(await pool.DEFAULT_ADMIN_ROLE(), timelockAddress)).to.be.true;
+      expect(await pool.hasRole(await pool.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.false;
+      expect(await distributor.hasRole(await distributor.DEFAULT_ADMIN_ROLE(), timelockAddress)).to.be.true;
+      expect(await distributor.hasRole(await distributor.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.false;
+      expect(await userRegistry.owner()).to.equal(timelockAddress);
+    });
+  });
+
+  describe("Direct admin calls", function () {
+    it("Should reject direct admin calls on Pool", async function () {
+      await pool.connect(user1).enterReceiverPool();
+
+      await expect(pool.connect(owner).emergencyExitReceiverPool(user1.address))
+        .to.be.revertedWithCustomError(pool, "AccessControlUnauthorizedAccount");
+      await expect(pool.connect(owner).emergencyStopDistribution())
+        .to.be.revertedWithCustomError(pool, "AccessControlUnauthorizedAccount");
+      await expect(pool.connect(owner).grantRole(await pool.DISTRIBUTOR_ROLE(), owner.address))
+        .to.be.revertedWithCustomError(pool, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject direct admin calls on TimeBasedDistributor and UserRegistry", async function () {
+      await expect(distributor.connect(owner).setPool(user1.address))
+        .to.be.revertedWithCustomError(distributor, "AccessControlUnauthorizedAccount");
+      await expect(userRegistry.connect(owner).updateSystem(owner.address))
+        .to.be.revertedWithCustomError(userRegistry, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should reject operations scheduled by accounts without the proposer role", async function () {
+      await expect(new TimelockOperator(timelock.connect(owner)).queue(poolAction("emergencyStopDistribution")))
+        .to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Propose, execute and cancel", function () {
+    it("Should execute an action only after the minimum delay", async function () {
+      await pool.connect(user1).enterReceiverPool();
+      const action = poolAction("emergencyExitReceiverPool", [user1.address]);
+
+      await expect(operator.queue(action, 60n)).to.be.revertedWithCustomError(timelock, "TimelockInsufficientDelay");
+      await operator.queue(action);
+      expect((await operator.getStatus(action)).state).to.equal(OperationState.Waiting);
+
+      await expect(operator.execute(action)).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+
+      await time.increase(MIN_DELAY);
+      expect((await operator.getStatus(action)).state).to.equal(OperationState.Ready);
+
+      await operator.execute(action);
+      expect(await userRegistry.isInReceiverPool(user1.address)).to.be.false;
+      expect(await pool.getReceiverCount()).to.equal(0);
+      expect((await operator.getStatus(action)).state).to.equal(OperationState.Done);
+    });
+
+    it("Should grant roles, update the registry system and repoint the distributor through the timelock", async function () {
+      const actions = [
+        poolAction("grantRole", [await pool.DISTRIBUTOR_ROLE(), user1.address]),
+        { target: distributor.target as string, data: encodeCall(distributor.interface, "setPool", [user1.address]) },
+        { target: userRegistry.target as string, data: encodeCall(userRegistry.interface, "updateSystem", [user1.address]) },
+      ];
+
+      for (const action of actions) await operator.queue(action);
+      await time.increase(MIN_DELAY);
+      for (const action of actions) await operator.execute(action);
+
+      expect(await pool.hasRole(await pool.DISTRIBUTOR_ROLE(), user1.address)).to.be.true;
+      expect(await distributor.pool()).to.equal(user1.address);
+      expect(await userRegistry.system()).to.equal(user1.address);
+    });
+
+    it("Should not execute a cancelled action", async function () {
+      const action = poolAction("emergencyStopDistribution", [], "stop-1");
+      await operator.queue(action);
+      await operator.cancel(action);
+      expect((await operator.getStatus(action)).state).to.equal(OperationState.Unset);
+
+      await time.increase(MIN_DELAY);
+      await expect(operator.execute(action)).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+    });
+
+    it("Should let the same call be queued again with a different salt", async function () {
+      await operator.queue(poolAction("emergencyStopDistribution", [], "first"));
+      await expect(operator.queue(poolAction("emergencyStopDistribution", [], "first")))
+        .to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+      await operator.queue(poolAction("emergencyStopDistribution", [], "second"));
+    });
+  });
+});
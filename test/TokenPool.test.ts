@@ -0,0 +1,242 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { FaultyERC20, MockERC20, TokenPool } from "../typechain-types";
+import { stablecoinPoolParameters, DistributionWindowOverride } from "../scripts/config/poolParameters";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
+
+// FaultyERC20.FailureMode
+const RETURN_FALSE = 0;
+const REVERT = 1;
+
+describe("TokenPool", function () {
+  const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+
+  let pool: TokenPool;
+  let token: MockERC20;
+  let userRegistry: UserRegistry;
+  let owner: any;
+  let giver: any;
+  let receiver1: any;
+  let receiver2: any;
+
+  async function deployPool(tokenAddress: string) {
+    const TokenPool = await ethers.getContractFactory("TokenPool");
+    const deployed = await TokenPool.deploy(owner.address, tokenAddress, stablecoinPoolParameters(6));
+    await deployed.waitForDeployment();
+
+    // Get the UserRegistry instance and grant system role to Pool
+    const UserRegistry = await ethers.getContractFactory("UserRegistry");
+    userRegistry = await UserRegistry.attach(await deployed.userRegistry()) as UserRegistry;
+    await userRegistry.connect(owner).updateSystem(await deployed.getAddress());
+
+    await deployed.connect(owner).grantRole(await deployed.DISTRIBUTOR_ROLE(), owner.address);
+    await deployed.connect(owner).setDistributionWindowOverride(DistributionWindowOverride.Open);
+    return deployed;
+  }
+
+  async function fund(account: any, amount: bigint) {
+    await token.mint(account.address, amount);
+    await token.connect(account).approve(await pool.getAddress(), amount);
+  }
+
+  async function signPermit(signer: any, amount: bigint, deadline: number) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = { name: await token.name(), version: "1", chainId, verifyingContract: await token.getAddress() };
+    const types = {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+    const value = {
+      owner: signer.address,
+      spender: await pool.getAddress(),
+      value: amount,
+      nonce: await token.nonces(signer.address),
+      deadline,
+    };
+    return ethers.Signature.from(await signer.signTypedData(domain, types, value));
+  }
+
+  beforeEach(async function () {
+    [owner, giver, receiver1, receiver2] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    token = await MockERC20.deploy("USD Coin", "USDC", 6);
+    await token.waitForDeployment();
+
+    pool = await deployPool(await token.getAddress());
+  });
+
+  afterEach(async function () {
+    await expectPoolBalanceInvariantAfterEveryTransaction(pool, (blockTag) =>
+      token.balanceOf(pool.target, { blockTag })
+    );
+  });
+
+  describe("Deployment", function () {
+    it("Should use the token parameters instead of the ETH defaults", async function () {
+      expect(await pool.token()).to.equal(await token.getAddress());
+      expect(await pool.MIN_KINDNESS_AMOUNT()).to.equal(usdc("1"));
+      expect(await pool.MAX_KINDNESS_AMOUNT()).to.equal(usdc("100"));
+    });
+
+    it("Should reject a zero token address and invalid parameters", async function () {
+      const TokenPool = await ethers.getContractFactory("TokenPool");
+      await expect(TokenPool.deploy(owner.address, ethers.ZeroAddress, stablecoinPoolParameters(6)))
+        .to.be.revertedWithCustomError(pool, "ZeroAddress");
+      await expect(TokenPool.deploy(owner.address, await token.getAddress(), { ...stablecoinPoolParameters(6), maxReceivers: 0 }))
+        .to.be.revertedWithCustomError(pool, "InvalidParameters");
+    });
+  });
+
+  describe("Contributions", function () {
+    it("Should collect an approved contribution", async function () {
+      await fund(giver, usdc("50"));
+
+      await expect(pool.connect(giver).giveKindness(usdc("50")))
+        .to.emit(pool, "KindnessGiven")
+        .withArgs(giver.address, usdc("50"));
+
+      expect(await token.balanceOf(await pool.getAddress())).to.equal(usdc("50"));
+      expect(await pool.dailyPool()).to.equal(usdc("50"));
+      expect((await userRegistry.getUserStats(giver.address)).totalGiven).to.equal(usdc("50"));
+    });
+
+    it("Should reject ETH sent with a token contribution", async function () {
+      await fund(giver, usdc("5"));
+      await expect(pool.connect(giver).giveKindness(usdc("5"), { value: 1 }))
+        .to.be.revertedWithCustomError(pool, "ValueMismatch");
+    });
+
+    it("Should apply the daily limits in token units", async function () {
+      await fund(giver, usdc("1000"));
+
+      await expect(pool.connect(giver).giveKindness(usdc("0.5"))).to.be.revertedWithCustomError(pool, "AmountTooLow");
+      await expect(pool.connect(giver).giveKindness(usdc("101"))).to.be.revertedWithCustomError(pool, "AmountTooHigh");
+
+      for (let i = 0; i < 5; i++) {
+        await pool.connect(giver).giveKindness(usdc("100"));
+      }
+      await expect(pool.connect(giver).giveKindness(usdc("1")))
+        .to.be.revertedWithCustomError(pool, "DailyContributionLimitExceeded");
+    });
+
+    it("Should contribute in one transaction with a permit", async function () {
+      await token.mint(giver.address, usdc("20"));
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = await signPermit(giver, usdc("20"), deadline);
+
+      await expect(pool.connect(giver).giveKindnessWithPermit(usdc("20"), deadline, v, r, s))
+        .to.emit(pool, "KindnessGiven")
+        .withArgs(giver.address, usdc("20"));
+      expect(await token.balanceOf(await pool.getAddress())).to.equal(usdc("20"));
+    });
+
+    it("Should still contribute when the permit was front-run", async function () {
+      await token.mint(giver.address, usdc("20"));
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = await signPermit(giver, usdc("20"), deadline);
+
+      // Someone submits the permit first, consuming the nonce
+      await token.permit(giver.address, await pool.getAddress(), usdc("20"), deadline, v, r, s);
+
+      await expect(pool.connect(giver).giveKindnessWithPermit(usdc("20"), deadline, v, r, s))
+        .to.emit(pool, "KindnessGiven");
+    });
+
+    it("Should reject a permit contribution without allowance", async function () {
+      await token.mint(giver.address, usdc("20"));
+      const deadline = (await time.latest()) + 3600;
+      const { v, r, s } = await signPermit(receiver1, usdc("20"), deadline);
+
+      await expect(pool.connect(giver).giveKindnessWithPermit(usdc("20"), deadline, v, r, s))
+        .to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+    });
+  });
+
+  describe("Withdrawals", function () {
+    it("Should return withdrawn contributions in tokens", async function () {
+      await fund(giver, usdc("30"));
+      await pool.connect(giver).giveKindness(usdc("30"));
+
+      await expect(pool.connect(giver).withdrawContribution(usdc("10")))
+        .to.emit(pool, "ContributionWithdrawn")
+        .withArgs(giver.address, usdc("10"));
+
+      expect(await token.balanceOf(giver.address)).to.equal(usdc("10"));
+      expect(await pool.dailyPool()).to.equal(usdc("20"));
+    });
+  });
+
+  describe("Distribution", function () {
+    it("Should distribute tokens to receivers in batches", async function () {
+      await fund(giver, usdc("60"));
+      await pool.connect(giver).giveKindness(usdc("60"));
+      await pool.connect(receiver1).enterReceiverPool();
+      await pool.connect(receiver2).enterReceiverPool();
+
+      await pool.connect(owner).startDistribution();
+
+      expect(await token.balanceOf(receiver1.address)).to.equal(usdc("30"));
+      expect(await token.balanceOf(receiver2.address)).to.equal(usdc("30"));
+      expect(await pool.dailyPool()).to.equal(0);
+    });
+
+    for (const [label, mode] of [["returns false", RETURN_FALSE], ["reverts", REVERT]] as const) {
+      describe(`with a token that ${label} on transfer`, function () {
+        let faulty: FaultyERC20;
+
+        beforeEach(async function () {
+          const FaultyERC20 = await ethers.getContractFactory("FaultyERC20");
+          faulty = await FaultyERC20.deploy(mode);
+          await faulty.waitForDeployment();
+          token = faulty;
+          pool = await deployPool(await faulty.getAddress());
+        });
+
+        it("Should track the failed transfer and pay it on retry", async function () {
+          await fund(giver, usdc("60"));
+          await pool.connect(giver).giveKindness(usdc("60"));
+          await pool.connect(receiver1).enterReceiverPool();
+          await pool.connect(receiver2).enterReceiverPool();
+          await faulty.setBlocked(receiver1.address, true);
+
+          await expect(pool.connect(owner).startDistribution())
+            .to.emit(pool, "TransferFailed")
+            .withArgs(receiver1.address, usdc("30"));
+
+          expect(await token.balanceOf(receiver2.address)).to.equal(usdc("30"));
+          expect(await pool.getFailedTransferAmount(receiver1.address)).to.equal(usdc("30"));
+          expect(await pool.getUnclaimedFunds()).to.equal(usdc("30"));
+          expect(await pool.getFailedTransfers()).to.deep.equal([receiver1.address]);
+
+          await faulty.setBlocked(receiver1.address, false);
+          await time.increase(await pool.RETRY_COOLDOWN());
+
+          await expect(pool.connect(owner).retryFailedTransfer(receiver1.address))
+            .to.emit(pool, "TransferRetried")
+            .withArgs(receiver1.address, usdc("30"), true);
+          expect(await token.balanceOf(receiver1.address)).to.equal(usdc("30"));
+          expect(await pool.getUnclaimedFunds()).to.equal(0);
+        });
+
+        it("Should keep the contribution when a withdrawal transfer fails", async function () {
+          await fund(giver, usdc("30"));
+          await pool.connect(giver).giveKindness(usdc("30"));
+          await faulty.setBlocked(giver.address, true);
+
+          await expect(pool.connect(giver).withdrawContribution(usdc("10")))
+            .to.be.revertedWithCustomError(pool, "TransferFailedErr");
+          expect(await pool.dailyPool()).to.equal(usdc("30"));
+          expect(await token.balanceOf(await pool.getAddress())).to.equal(usdc("30"));
+        });
+      });
+    }
+  });
+});
@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Pool } from "../typechain-types/contracts/Pool";
 import { UserRegistry } from "../typechain-types/contracts/UserRegistry";
+import { expectPoolBalanceInvariantAfterEveryTransaction } from "./helpers/invariants";
 
 describe("Withdrawal Functionality", function () {
     let pool: Pool;
@@ -28,6 +29,10 @@ describe("Withdrawal Functionality", function () {
         await userRegistry.connect(owner).updateSystem(await pool.getAddress());
     });
 
+    afterEach(async function () {
+        await expectPoolBalanceInvariantAfterEveryTransaction(pool);
+    });
+
     describe("Withdrawal Function", function () {
         it("Should allow users to withdraw their contributions", async function () {
             // User contributes 1 ETH
@@ -0,0 +1,81 @@
+import { SeededRandom } from "./random";
+
+export interface StatefulFuzzOptions<A> {
+  // Seed of the first run; run i uses seed + i
+  seed: number;
+  runs: number;
+  steps: number;
+  // Draws the next action; sequences are generated up front so they can be replayed and shrunk
+  generate: (random: SeededRandom) => A;
+  // Runs a sequence from a fresh state, checking invariants after each step.
+  // Resolves with the failing step, or undefined when every step passed.
+  execute: (actions: A[]) => Promise<FuzzFailure | undefined>;
+  format?: (action: A) => string;
+  // Upper bound on re-runs spent shrinking a failing sequence
+  maxShrinkRuns?: number;
+}
+
+export interface FuzzFailure {
+  step: number;
+  error: unknown;
+}
+
+/**
+ * Runs random action sequences through `execute`. On failure the sequence is
+ * shrunk by removing chunks of steps that are not needed to reproduce it, and
+ * the error reports the seed to replay and the minimal sequence found.
+ */
+export async function runStatefulFuzz<A>(options: StatefulFuzzOptions<A>): Promise<void> {
+  const format = options.format ?? ((action: A) => JSON.stringify(action));
+
+  for (let run = 0; run < options.runs; run++) {
+    const seed = options.seed + run;
+    const random = new SeededRandom(seed);
+    const actions = Array.from({ length: options.steps }, () => options.generate(random));
+
+    const failure = await options.execute(actions);
+    if (!failure) continue;
+
+    const shrunk = await shrink(actions.slice(0, failure.step + 1), options.execute, options.maxShrinkRuns ?? 200);
+    const steps = shrunk.actions.map((action, i) => `  ${i + 1}. ${format(action)}`).join("\n");
+    const message = shrunk.failure.error instanceof Error ? shrunk.failure.error.message : String(shrunk.failure.error);
+    throw new Error(
+      `Invariant failed (replay with TEST_SEED=${seed} FUZZ_RUNS=1 FUZZ_STEPS=${options.steps})\n` +
+        `Shrunk from ${failure.step + 1} to ${shrunk.actions.length} steps:\n${steps}\n` +
+        `Failure at step ${shrunk.failure.step + 1}: ${message}`
+    );
+  }
+}
+
+/**
+ * Delta debugging: repeatedly drops chunks of the sequence, halving the chunk
+ * size whenever no chunk can be removed, while the sequence still fails
+ */
+export async function shrink<A>(
+  actions: A[],
+  execute: (actions: A[]) => Promise<FuzzFailure | undefined>,
+  maxRuns: number
+): Promise<{ actions: A[]; failure: FuzzFailure }> {
+  let current = actions;
+  let failure = await execute(current);
+  if (!failure) throw new Error("Sequence does not fail, nothing to shrink");
+  let runs = 1;
+
+  for (let chunk = Math.floor(current.length / 2); chunk >= 1 && runs < maxRuns; chunk = Math.floor(chunk / 2)) {
+    for (let start = 0; start < current.length && runs < maxRuns; ) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + chunk)];
+      const candidateFailure = candidate.length > 0 ? await execute(candidate) : undefined;
+      runs++;
+
+      if (candidateFailure) {
+        // Keep only the steps up to the new failure
+        current = candidate.slice(0, candidateFailure.step + 1);
+        failure = candidateFailure;
+      } else {
+        start += chunk;
+      }
+    }
+  }
+
+  return { actions: current, failure };
+}
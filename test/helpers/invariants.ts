@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import { BlockTag } from "ethers";
+import { ethers } from "hardhat";
+import { Pool } from "../../typechain-types";
+
+type AccountedPool = Pick<
+  Pool,
+  | "target"
+  | "dailyPool"
+  | "unclaimedFunds"
+  | "carryOver"
+  | "totalClaimable"
+  | "distributionAllocated"
+  | "totalRefundable"
+>;
+
+type BalanceAt = (blockTag: BlockTag) => Promise<bigint>;
+
+/**
+ * Checks that the pool holds exactly what it owes:
+ * balance == dailyPool + unclaimedFunds + carryOver, plus the claim-mode balances
+ * (totalClaimable), the unpaid shares of a running distribution (distributionAllocated) and
+ * unclaimed refunds of undistributable days (totalRefundable).
+ * Pass `getBalance` for pools that hold an ERC-20 instead of ETH.
+ */
+export async function expectPoolBalanceInvariant(pool: AccountedPool, getBalance?: BalanceAt) {
+  await expectPoolBalanceInvariantAt(pool, "latest", getBalance);
+}
+
+/**
+ * Checks the balance invariant after every transaction since the pool was deployed, so a
+ * transaction that breaks it is reported even if a later one restores the balance.
+ * Hardhat mines one block per transaction, so this replays the state block by block.
+ */
+export async function expectPoolBalanceInvariantAfterEveryTransaction(pool: AccountedPool, getBalance?: BalanceAt) {
+  const latest = await ethers.provider.getBlockNumber();
+  for (let blockNumber = await deploymentBlock(pool.target as string, latest); blockNumber <= latest; blockNumber++) {
+    const block = await ethers.provider.getBlock(blockNumber);
+    if (block!.transactions.length === 0) continue;
+    await expectPoolBalanceInvariantAt(
+      pool,
+      blockNumber,
+      getBalance,
+      ` after transaction ${block!.transactions.join(", ")} in block ${blockNumber}`
+    );
+  }
+}
+
+async function expectPoolBalanceInvariantAt(
+  pool: AccountedPool,
+  blockTag: BlockTag,
+  getBalance?: BalanceAt,
+  context = ""
+) {
+  const overrides = { blockTag };
+  const [balance, dailyPool, unclaimedFunds, carryOver, totalClaimable, distributionAllocated, totalRefundable] =
+    await Promise.all([
+      getBalance ? getBalance(blockTag) : ethers.provider.getBalance(pool.target, blockTag),
+      pool.dailyPool(overrides),
+      pool.unclaimedFunds(overrides),
+      pool.carryOver(overrides),
+      pool.totalClaimable(overrides),
+      pool.distributionAllocated(overrides),
+      pool.totalRefundable(overrides),
+    ]);
+
+  expect(balance).to.equal(
+    dailyPool + unclaimedFunds + carryOver + totalClaimable + distributionAllocated + totalRefundable,
+    `pool balance ${balance} does not match dailyPool ${dailyPool} + unclaimedFunds ${unclaimedFunds} + ` +
+      `carryOver ${carryOver} + totalClaimable ${totalClaimable} + distributionAllocated ${distributionAllocated} + ` +
+      `totalRefundable ${totalRefundable}${context}`
+  );
+}
+
+/**
+ * First block with code at `address`, found by bisection
+ */
+async function deploymentBlock(address: string, latest: number): Promise<number> {
+  let low = 0;
+  let high = latest;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await ethers.provider.getCode(address, middle)) === "0x") {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
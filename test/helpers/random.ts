@@ -0,0 +1,57 @@
+/**
+ * Small seeded PRNG (mulberry32) so randomized tests can be replayed from their seed.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Uniform float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Uniform integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Uniform bigint in [min, max], built from 32-bit chunks
+   */
+  bigint(min: bigint, max: bigint): bigint {
+    const range = max - min + 1n;
+    let value = 0n;
+    for (let bits = 0n; 1n << bits < range; bits += 32n) {
+      value = (value << 32n) | BigInt(this.int(0, 0xffffffff));
+    }
+    return min + (value % range);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+}
+
+// Seed used when TEST_SEED is unset, so CI runs are reproducible
+export const DEFAULT_TEST_SEED = 1;
+
+/**
+ * Seed for randomized tests: TEST_SEED from the environment, a fresh one with
+ * TEST_SEED=random, or DEFAULT_TEST_SEED
+ */
+export function testSeed(): number {
+  const seed = process.env.TEST_SEED;
+  if (seed === "random") return Math.floor(Math.random() * 2 ** 32);
+  return seed ? Number(seed) : DEFAULT_TEST_SEED;
+}
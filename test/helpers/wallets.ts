@@ -0,0 +1,17 @@
+import { ethers } from "hardhat";
+import { setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { Wallet } from "ethers";
+
+/**
+ * Creates `count` random wallets connected to the Hardhat provider, each funded
+ * with `balance` wei. Useful when a test needs more accounts than the 20 default signers.
+ */
+export async function createFundedWallets(count: number, balance = ethers.parseEther("10")): Promise<Wallet[]> {
+  const wallets: Wallet[] = [];
+  for (let i = 0; i < count; i++) {
+    const wallet = new Wallet(ethers.hexlify(ethers.randomBytes(32)), ethers.provider);
+    await setBalance(wallet.address, balance);
+    wallets.push(wallet);
+  }
+  return wallets;
+}